@@ -0,0 +1,68 @@
+import { prisma } from '../src/config/database';
+
+const STATUSES = ['pending', 'accepted', 'expired', 'revoked'];
+
+/**
+ * Converts invitations.status from text to the invitation_status enum in place
+ * `prisma db push` would drop and recreate the column instead, resetting every
+ * invitation to pending. Run once against databases created before the enum,
+ * before pushing the schema:
+ *   npm run invitations:convert-status && npx prisma db push
+ */
+async function main() {
+  console.log('Converting invitation status column...');
+
+  const [column] = await prisma.$queryRaw<Array<{ data_type: string }>>`
+    SELECT data_type
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'invitations'
+      AND column_name = 'status';
+  `;
+
+  if (!column) {
+    console.log('No invitations table found, nothing to convert');
+    return;
+  }
+
+  if (column.data_type === 'USER-DEFINED') {
+    console.log('Invitation status is already an enum, nothing to convert');
+    return;
+  }
+
+  const unknownStatuses = await prisma.$queryRaw<Array<{ status: string }>>`
+    SELECT DISTINCT status
+    FROM invitations
+    WHERE status <> ALL(${STATUSES}::text[]);
+  `;
+
+  if (unknownStatuses.length > 0) {
+    throw new Error(
+      `Invitations have statuses outside the enum: ${unknownStatuses.map(row => row.status).join(', ')}`
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.$executeRawUnsafe(`
+      DO $$ BEGIN
+        CREATE TYPE invitation_status AS ENUM (${STATUSES.map(status => `'${status}'`).join(', ')});
+      EXCEPTION
+        WHEN duplicate_object THEN NULL;
+      END $$;
+    `),
+    prisma.$executeRaw`ALTER TABLE invitations ALTER COLUMN status DROP DEFAULT`,
+    prisma.$executeRaw`ALTER TABLE invitations ALTER COLUMN status TYPE invitation_status USING status::invitation_status`,
+    prisma.$executeRaw`ALTER TABLE invitations ALTER COLUMN status SET DEFAULT 'pending'`,
+  ]);
+
+  console.log('Invitation status converted to invitation_status');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error converting invitation status:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,20 @@
+import { prisma } from '../src/config/database';
+import { BrokerHierarchyService } from '../src/services/brokerHierarchy.service';
+
+// Backfills Broker.path and Broker.depth from the parent links
+async function main() {
+  console.log('Rebuilding broker hierarchy paths...');
+
+  const updatedCount = await new BrokerHierarchyService().rebuildPaths();
+
+  console.log(`Broker paths rebuilt (${updatedCount} brokers updated)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error rebuilding broker paths:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
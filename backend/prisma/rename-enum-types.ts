@@ -0,0 +1,54 @@
+import { prisma } from '../src/config/database';
+
+// Enum types created under their Prisma name, keyed by their mapped name
+const RENAMED_TYPES: Record<string, string> = {
+  document_type: 'DocumentType',
+  commission_entry_status: 'CommissionEntryStatus',
+  audit_outcome: 'AuditOutcome',
+};
+
+/**
+ * Renames enum types created before their @@map to the mapped name in place
+ * `prisma db push` would create the new type and recast every column using
+ * it instead. Run once against databases created before the mapping, before
+ * pushing the schema:
+ *   npm run enums:rename-types && npx prisma db push
+ */
+async function main() {
+  console.log('Renaming enum types...');
+
+  for (const [name, previousName] of Object.entries(RENAMED_TYPES)) {
+    const types = await prisma.$queryRaw<Array<{ typname: string }>>`
+      SELECT t.typname
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = current_schema()
+        AND t.typname IN (${name}, ${previousName});
+    `;
+    const existing = types.map(type => type.typname);
+
+    if (existing.includes(name)) {
+      console.log(`${name} already exists, nothing to rename`);
+      continue;
+    }
+
+    if (!existing.includes(previousName)) {
+      console.log(`No ${previousName} type found, nothing to rename`);
+      continue;
+    }
+
+    await prisma.$executeRawUnsafe(
+      `ALTER TYPE "${previousName}" RENAME TO ${name}`
+    );
+    console.log(`${previousName} renamed to ${name}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Error renaming enum types:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
 
 const prisma = new PrismaClient();
 
@@ -23,7 +24,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Carlos',
     lastName: 'Mendoza',
-    cedulaRuc: '1710234567',
+    cedulaRuc: '1710234566',
     phone: '0991234567',
     brokerName: 'Seguros Atlas',
     brokerDescription: 'Líder en seguros corporativos y personales',
@@ -35,7 +36,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'María',
     lastName: 'Rodríguez',
-    cedulaRuc: '1712345678',
+    cedulaRuc: '1712345675',
     phone: '0992345678',
     brokerName: 'Protect Seguros',
     brokerDescription: 'Especialistas en seguros de vida y salud',
@@ -48,7 +49,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Juan',
     lastName: 'Pérez',
-    cedulaRuc: '1713456789',
+    cedulaRuc: '1713456786',
     phone: '0993456789',
     brokerName: 'Seguros Atlas',
     role: 'employee',
@@ -59,7 +60,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Ana',
     lastName: 'Vargas',
-    cedulaRuc: '1714567890',
+    cedulaRuc: '1714567896',
     phone: '0994567890',
     brokerName: 'Seguros Atlas',
     role: 'employee',
@@ -70,7 +71,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Luis',
     lastName: 'Castro',
-    cedulaRuc: '1715678901',
+    cedulaRuc: '1715678908',
     phone: '0995678901',
     brokerName: 'Protect Seguros',
     role: 'employee',
@@ -82,7 +83,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Pedro',
     lastName: 'Jiménez',
-    cedulaRuc: '1716789012',
+    cedulaRuc: '1716789019',
     phone: '0996789012',
     brokerName: 'Atlas Norte',
     brokerDescription: 'Agencia Norte - Seguros Atlas',
@@ -95,7 +96,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Sofía',
     lastName: 'Morales',
-    cedulaRuc: '1717890123',
+    cedulaRuc: '1717890121',
     phone: '0997890123',
     brokerName: 'Atlas Sur',
     brokerDescription: 'Agencia Sur - Seguros Atlas',
@@ -108,7 +109,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Roberto',
     lastName: 'Gutiérrez',
-    cedulaRuc: '1718901234',
+    cedulaRuc: '1718901232',
     phone: '0998901234',
     brokerName: 'Atlas Centro',
     brokerDescription: 'Agencia Centro - Seguros Atlas',
@@ -121,7 +122,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Diana',
     lastName: 'Flores',
-    cedulaRuc: '1719012345',
+    cedulaRuc: '1719012344',
     phone: '0999012345',
     brokerName: 'Protect Valle',
     brokerDescription: 'Agencia Valle - Protect Seguros',
@@ -134,7 +135,7 @@ const testUsers = [
     password: 'Test123!',
     firstName: 'Miguel',
     lastName: 'Herrera',
-    cedulaRuc: '1720123456',
+    cedulaRuc: '1720123452',
     phone: '0990123456',
     brokerName: 'Protect Costa',
     brokerDescription: 'Agencia Costa - Protect Seguros',
@@ -150,7 +151,7 @@ const testClients = [
   {
     firstName: 'Andrea',
     lastName: 'López',
-    cedulaRuc: '1721234567',
+    cedulaRuc: '1721234563',
     email: 'andrea.lopez@email.com',
     phone: '0981234567',
     brokerName: 'Seguros Atlas'
@@ -158,7 +159,7 @@ const testClients = [
   {
     firstName: 'Fernando',
     lastName: 'Silva',
-    cedulaRuc: '1722345678',
+    cedulaRuc: '1722345673',
     email: 'fernando.silva@email.com',
     phone: '0982345678',
     brokerName: 'Seguros Atlas'
@@ -167,7 +168,7 @@ const testClients = [
   {
     firstName: 'Gabriela',
     lastName: 'Ramos',
-    cedulaRuc: '1723456789',
+    cedulaRuc: '1723456784',
     email: 'gabriela.ramos@email.com',
     phone: '0983456789',
     brokerName: 'Atlas Norte'
@@ -175,7 +176,7 @@ const testClients = [
   {
     firstName: 'Javier',
     lastName: 'Ortiz',
-    cedulaRuc: '1724567890',
+    cedulaRuc: '1724567894',
     email: 'javier.ortiz@email.com',
     phone: '0984567890',
     brokerName: 'Atlas Norte'
@@ -184,7 +185,7 @@ const testClients = [
   {
     firstName: 'Lucía',
     lastName: 'Mendez',
-    cedulaRuc: '1725678901',
+    cedulaRuc: '1725678906',
     email: 'lucia.mendez@email.com',
     phone: '0985678901',
     brokerName: 'Atlas Sur'
@@ -193,7 +194,7 @@ const testClients = [
   {
     firstName: 'Ricardo',
     lastName: 'Vega',
-    cedulaRuc: '1726789012',
+    cedulaRuc: '1726789017',
     email: 'ricardo.vega@email.com',
     phone: '0986789012',
     brokerName: 'Protect Seguros'
@@ -201,7 +202,7 @@ const testClients = [
   {
     firstName: 'Patricia',
     lastName: 'Ruiz',
-    cedulaRuc: '1727890123',
+    cedulaRuc: '1727890129',
     email: 'patricia.ruiz@email.com',
     phone: '0987890123',
     brokerName: 'Protect Seguros'
@@ -210,7 +211,7 @@ const testClients = [
   {
     firstName: 'Daniel',
     lastName: 'Torres',
-    cedulaRuc: '1728901234',
+    cedulaRuc: '1728901230',
     email: 'daniel.torres@email.com',
     phone: '0988901234',
     brokerName: 'Protect Valle'
@@ -219,7 +220,7 @@ const testClients = [
   {
     firstName: 'Carmen',
     lastName: 'Díaz',
-    cedulaRuc: '1729012345',
+    cedulaRuc: '1729012342',
     email: 'carmen.diaz@email.com',
     phone: '0989012345',
     brokerName: 'Protect Costa'
@@ -227,7 +228,7 @@ const testClients = [
   {
     firstName: 'Andrés',
     lastName: 'Paredes',
-    cedulaRuc: '1730123456',
+    cedulaRuc: '1730123450',
     email: 'andres.paredes@email.com',
     phone: '0980123456',
     brokerName: 'Protect Costa'
@@ -238,6 +239,13 @@ async function clearDatabase() {
   console.log('🗑️  Clearing database...');
   
   // Delete in correct order to respect foreign key constraints
+  await prisma.auditLog.deleteMany();
+  await prisma.commissionEntry.deleteMany();
+  await prisma.commissionRule.deleteMany();
+  await prisma.policy.deleteMany();
+  await prisma.quote.deleteMany();
+  await prisma.insuranceProduct.deleteMany();
+  await prisma.insurer.deleteMany();
   await prisma.client.deleteMany();
   await prisma.invitation.deleteMany();
   await prisma.userRole.deleteMany();
@@ -263,6 +271,15 @@ async function seedRolesAndPermissions() {
   
   // Create roles with levels
   const roles = await Promise.all([
+    prisma.role.upsert({
+      where: { name: 'platform_admin' },
+      update: { level: 0 },
+      create: {
+        name: 'platform_admin',
+        description: 'Platform operator managing data shared by all brokers',
+        level: 0
+      }
+    }),
     prisma.role.upsert({
       where: { name: 'broker_admin' },
       update: { level: 1 },
@@ -308,6 +325,40 @@ async function seedRolesAndPermissions() {
     { resource: 'clients', action: 'read:own', description: 'View own clients only' },
     { resource: 'clients', action: 'update:own', description: 'Update own clients only' },
     
+    // Quotes permissions
+    { resource: 'quotes', action: 'create', description: 'Create new quotes' },
+    { resource: 'quotes', action: 'read', description: 'View quotes' },
+    { resource: 'quotes', action: 'update', description: 'Update quotes and their status' },
+    { resource: 'quotes', action: 'delete', description: 'Delete draft quotes' },
+    { resource: 'quotes', action: 'read:own', description: 'View own quotes only' },
+    { resource: 'quotes', action: 'update:own', description: 'Update own quotes only' },
+    
+    // Policies permissions
+    { resource: 'policies', action: 'create', description: 'Issue policies from accepted quotes' },
+    { resource: 'policies', action: 'read', description: 'View policies' },
+    { resource: 'policies', action: 'update', description: 'Update and cancel policies' },
+    { resource: 'policies', action: 'read:own', description: 'View own policies only' },
+    { resource: 'policies', action: 'update:own', description: 'Update own policies only' },
+    { resource: 'brokers', action: 'create', description: 'Create sub-brokers' },
+    { resource: 'brokers', action: 'read', description: 'View the broker hierarchy' },
+    { resource: 'brokers', action: 'update', description: 'Rename and move brokers' },
+    { resource: 'commissions', action: 'create', description: 'Create commission rules' },
+    { resource: 'commissions', action: 'read', description: 'View commission rules and statements' },
+    { resource: 'commissions', action: 'update', description: 'Update commission rules' },
+    { resource: 'commissions', action: 'delete', description: 'Delete commission rules' },
+    { resource: 'commissions', action: 'read:own', description: 'View own commission statements only' },
+    { resource: 'audit', action: 'read', description: 'View the audit log' },
+    
+    // Catalog permissions
+    { resource: 'insurers', action: 'create', description: 'Create insurers' },
+    { resource: 'insurers', action: 'read', description: 'View insurers' },
+    { resource: 'insurers', action: 'update', description: 'Update insurer information' },
+    { resource: 'insurers', action: 'delete', description: 'Delete insurers' },
+    { resource: 'products', action: 'create', description: 'Create insurance products' },
+    { resource: 'products', action: 'read', description: 'View insurance products' },
+    { resource: 'products', action: 'update', description: 'Update insurance products' },
+    { resource: 'products', action: 'delete', description: 'Delete insurance products' },
+    
     // Users permissions
     { resource: 'users', action: 'create', description: 'Create new users' },
     { resource: 'users', action: 'read', description: 'View all users' },
@@ -333,18 +384,37 @@ async function seedRolesAndPermissions() {
 
   // Assign permissions to roles
   const rolePermissions = {
+    platform_admin: [
+      'commissions:create', 'commissions:read', 'commissions:update', 'commissions:delete',
+      'insurers:create', 'insurers:read', 'insurers:update', 'insurers:delete',
+      'products:create', 'products:read', 'products:update', 'products:delete'
+    ],
     broker_admin: [
       'invitations:create', 'invitations:read', 'invitations:update', 'invitations:delete',
       'clients:create', 'clients:read', 'clients:update', 'clients:delete',
+      'quotes:create', 'quotes:read', 'quotes:update', 'quotes:delete',
+      'policies:create', 'policies:read', 'policies:update',
+      'brokers:create', 'brokers:read', 'brokers:update',
+      'commissions:read',
+      'audit:read',
+      'insurers:read', 'products:read',
       'users:create', 'users:read', 'users:update', 'users:delete', 'users:assign:roles'
     ],
     employee: [
-      'invitations:read',
+      'invitations:create', 'invitations:read',
       'clients:create', 'clients:read', 'clients:update',
+      'quotes:create', 'quotes:read', 'quotes:update',
+      'policies:create', 'policies:read', 'policies:update',
+      'commissions:read', 'brokers:read',
+      'insurers:read', 'products:read',
       'users:read', 'users:read:own', 'users:update:own'
     ],
     agent: [
       'clients:create', 'clients:read:own', 'clients:update:own',
+      'quotes:create', 'quotes:read:own', 'quotes:update:own',
+      'policies:create', 'policies:read:own', 'policies:update:own',
+      'commissions:read:own',
+      'insurers:read', 'products:read',
       'users:read:own', 'users:update:own'
     ]
   };
@@ -354,7 +424,9 @@ async function seedRolesAndPermissions() {
     if (!role) continue;
 
     for (const permName of permissionNames) {
-      const [resource, action] = permName.split(':');
+      // Actions may contain ':' themselves (e.g. 'read:own', 'assign:roles')
+      const [resource, ...actionParts] = permName.split(':');
+      const action = actionParts.join(':');
       const permission = permissions.find(
         p => p.resource === resource && p.action === action
       );
@@ -389,10 +461,14 @@ async function seedBrokersAndUsers(roles: any[]) {
 
   // First, create parent brokers
   for (const userData of testUsers.filter(u => u.isParent)) {
+    const id = randomUUID();
     const broker = await prisma.broker.create({
       data: {
+        id,
         name: userData.brokerName,
-        description: userData.brokerDescription
+        description: userData.brokerDescription,
+        path: `/${id}/`,
+        depth: 0
       }
     });
     brokerMap.set(userData.brokerName, broker);
@@ -405,11 +481,15 @@ async function seedBrokersAndUsers(roles: any[]) {
     if (!broker && userData.parentBroker) {
       // Create child broker
       const parentBroker = brokerMap.get(userData.parentBroker);
+      const id = randomUUID();
       broker = await prisma.broker.create({
         data: {
+          id,
           name: userData.brokerName,
           description: userData.brokerDescription,
-          parentId: parentBroker.id
+          parentId: parentBroker.id,
+          path: `${parentBroker.path}${id}/`,
+          depth: parentBroker.depth + 1
         }
       });
       brokerMap.set(userData.brokerName, broker);
@@ -6,29 +6,43 @@ async function main() {
   console.log('Starting RBAC seed...');
 
   // Create Roles
+  // Lower levels are more privileged. platform_admin manages data shared by
+  // every broker tree and is never granted through registration or invitations.
   const roles = await Promise.all([
+    prisma.role.upsert({
+      where: { name: 'platform_admin' },
+      update: { level: 0 },
+      create: {
+        name: 'platform_admin',
+        description: 'Platform operator managing data shared by all brokers',
+        level: 0,
+      },
+    }),
     prisma.role.upsert({
       where: { name: 'broker_admin' },
-      update: {},
+      update: { level: 1 },
       create: {
         name: 'broker_admin',
         description: 'Administrator with full access to the broker system',
+        level: 1,
       },
     }),
     prisma.role.upsert({
       where: { name: 'employee' },
-      update: {},
+      update: { level: 2 },
       create: {
         name: 'employee',
         description: 'Employee with access to manage clients and view reports',
+        level: 2,
       },
     }),
     prisma.role.upsert({
       where: { name: 'agent' },
-      update: {},
+      update: { level: 3 },
       create: {
         name: 'agent',
         description: 'Agent with limited access to their own clients',
+        level: 3,
       },
     }),
   ]);
@@ -51,6 +65,40 @@ async function main() {
     { resource: 'clients', action: 'read:own', description: 'View own clients only' },
     { resource: 'clients', action: 'update:own', description: 'Update own clients only' },
     
+    // Quotes permissions
+    { resource: 'quotes', action: 'create', description: 'Create new quotes' },
+    { resource: 'quotes', action: 'read', description: 'View quotes' },
+    { resource: 'quotes', action: 'update', description: 'Update quotes and their status' },
+    { resource: 'quotes', action: 'delete', description: 'Delete draft quotes' },
+    { resource: 'quotes', action: 'read:own', description: 'View own quotes only' },
+    { resource: 'quotes', action: 'update:own', description: 'Update own quotes only' },
+    
+    // Policies permissions
+    { resource: 'policies', action: 'create', description: 'Issue policies from accepted quotes' },
+    { resource: 'policies', action: 'read', description: 'View policies' },
+    { resource: 'policies', action: 'update', description: 'Update and cancel policies' },
+    { resource: 'policies', action: 'read:own', description: 'View own policies only' },
+    { resource: 'policies', action: 'update:own', description: 'Update own policies only' },
+    { resource: 'brokers', action: 'create', description: 'Create sub-brokers' },
+    { resource: 'brokers', action: 'read', description: 'View the broker hierarchy' },
+    { resource: 'brokers', action: 'update', description: 'Rename and move brokers' },
+    { resource: 'commissions', action: 'create', description: 'Create commission rules' },
+    { resource: 'commissions', action: 'read', description: 'View commission rules and statements' },
+    { resource: 'commissions', action: 'update', description: 'Update commission rules' },
+    { resource: 'commissions', action: 'delete', description: 'Delete commission rules' },
+    { resource: 'commissions', action: 'read:own', description: 'View own commission statements only' },
+    { resource: 'audit', action: 'read', description: 'View the audit log' },
+    
+    // Catalog permissions
+    { resource: 'insurers', action: 'create', description: 'Create insurers' },
+    { resource: 'insurers', action: 'read', description: 'View insurers' },
+    { resource: 'insurers', action: 'update', description: 'Update insurer information' },
+    { resource: 'insurers', action: 'delete', description: 'Delete insurers' },
+    { resource: 'products', action: 'create', description: 'Create insurance products' },
+    { resource: 'products', action: 'read', description: 'View insurance products' },
+    { resource: 'products', action: 'update', description: 'Update insurance products' },
+    { resource: 'products', action: 'delete', description: 'Delete insurance products' },
+    
     // Users permissions
     { resource: 'users', action: 'create', description: 'Create new users' },
     { resource: 'users', action: 'read', description: 'View all users' },
@@ -81,8 +129,23 @@ async function main() {
 
   // Define role-permission mappings
   const rolePermissions = {
+    platform_admin: [
+      // The insurer catalog and commission rules are shared by all broker trees
+      'commissions:create',
+      'commissions:read',
+      'commissions:update',
+      'commissions:delete',
+      'insurers:create',
+      'insurers:read',
+      'insurers:update',
+      'insurers:delete',
+      'products:create',
+      'products:read',
+      'products:update',
+      'products:delete',
+    ],
     broker_admin: [
-      // Full access to all resources
+      // Full access to the resources of their broker tree
       'invitations:create',
       'invitations:read',
       'invitations:update',
@@ -91,6 +154,20 @@ async function main() {
       'clients:read',
       'clients:update',
       'clients:delete',
+      'quotes:create',
+      'quotes:read',
+      'quotes:update',
+      'quotes:delete',
+      'policies:create',
+      'policies:read',
+      'policies:update',
+      'brokers:create',
+      'brokers:read',
+      'brokers:update',
+      'commissions:read',
+      'audit:read',
+      'insurers:read',
+      'products:read',
       'users:create',
       'users:read',
       'users:update',
@@ -99,10 +176,21 @@ async function main() {
     ],
     employee: [
       // Can manage clients and view users
+      'invitations:create',
       'invitations:read',
       'clients:create',
       'clients:read',
       'clients:update',
+      'quotes:create',
+      'quotes:read',
+      'quotes:update',
+      'policies:create',
+      'policies:read',
+      'policies:update',
+      'commissions:read',
+      'brokers:read',
+      'insurers:read',
+      'products:read',
       'users:read',
       'users:read:own',
       'users:update:own',
@@ -112,6 +200,15 @@ async function main() {
       'clients:create',
       'clients:read:own',
       'clients:update:own',
+      'quotes:create',
+      'quotes:read:own',
+      'quotes:update:own',
+      'policies:create',
+      'policies:read:own',
+      'policies:update:own',
+      'commissions:read:own',
+      'insurers:read',
+      'products:read',
       'users:read:own',
       'users:update:own',
     ],
@@ -123,7 +220,9 @@ async function main() {
     if (!role) continue;
 
     for (const permName of permissionNames) {
-      const [resource, action] = permName.split(':');
+      // Actions may contain ':' themselves (e.g. 'read:own', 'assign:roles')
+      const [resource, ...actionParts] = permName.split(':');
+      const action = actionParts.join(':');
       const permission = permissions.find(
         p => p.resource === resource && p.action === action
       );
@@ -146,6 +245,24 @@ async function main() {
     }
   }
 
+  // Databases seeded before platform_admin existed granted these to broker_admin
+  const brokerAdminRole = roles.find(r => r.name === 'broker_admin');
+  const platformPermissionIds = permissions
+    .filter(p =>
+      rolePermissions.platform_admin.includes(`${p.resource}:${p.action}`) &&
+      !rolePermissions.broker_admin.includes(`${p.resource}:${p.action}`)
+    )
+    .map(p => p.id);
+
+  if (brokerAdminRole) {
+    await prisma.rolePermission.deleteMany({
+      where: {
+        roleId: brokerAdminRole.id,
+        permissionId: { in: platformPermissionIds },
+      },
+    });
+  }
+
   console.log('Role-permission mappings created');
   console.log('RBAC seed completed successfully!');
 }
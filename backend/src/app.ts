@@ -0,0 +1,89 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import dotenv from 'dotenv';
+import swaggerUi from 'swagger-ui-express';
+import swaggerSpecs from './config/swagger.config';
+import { requestLoggerMiddleware, correlationIdMiddleware, requestContextMiddleware } from './common/middlewares/request-logger.middleware';
+import {
+  notFoundHandler,
+  errorHandler,
+} from './common/middlewares/error.middleware';
+import invitationRoutes from './modules/invitations/invitation.routes';
+
+// Load environment variables
+dotenv.config();
+
+const app = express();
+
+// Logging middleware (should be early in the chain)
+app.use(correlationIdMiddleware);
+app.use(requestLoggerMiddleware);
+
+// Middleware
+app.use(helmet());
+app.use(cors({
+  origin: process.env.CLIENT_URL || 'http://localhost:5173',
+  credentials: true,
+}));
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+app.use(requestContextMiddleware);
+
+// Health check endpoint
+app.get('/health', (_req, res) => {
+  res.status(200).json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+});
+
+// Swagger documentation (only in development)
+if (process.env.NODE_ENV !== 'production') {
+  // Serve OpenAPI JSON spec BEFORE Swagger UI middleware
+  app.get('/api-docs/json', (_req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.send(swaggerSpecs);
+  });
+
+  app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpecs, {
+    explorer: true,
+    customCss: '.swagger-ui .topbar { display: none }',
+    customSiteTitle: 'CotizateAlgo API Documentation',
+  }));
+}
+
+// API routes
+import authRoutes from './modules/auth/auth.routes';
+import rbacRoutes from './modules/rbac/rbac.routes';
+import clientRoutes from './modules/clients/client.routes';
+import quoteRoutes from './modules/quotes/quote.routes';
+import insurerRoutes from './modules/insurers/insurer.routes';
+import productRoutes from './modules/products/product.routes';
+import policyRoutes from './modules/policies/policy.routes';
+import renewalRoutes from './modules/renewals/renewal.routes';
+import commissionRoutes from './modules/commissions/commission.routes';
+import brokerRoutes from './modules/brokers/broker.routes';
+import auditRoutes from './modules/audit/audit.routes';
+import userRoutes from './modules/users/user.routes';
+
+app.use('/api/auth', authRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/rbac', rbacRoutes);
+app.use('/api/clients', clientRoutes);
+app.use('/api/quotes', quoteRoutes);
+app.use('/api/insurers', insurerRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/policies', policyRoutes);
+app.use('/api/renewals', renewalRoutes);
+app.use('/api/commissions', commissionRoutes);
+app.use('/api/brokers', brokerRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/users', userRoutes);
+
+// Unmatched routes and errors thrown by any route end up here
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+export default app;
@@ -1,14 +1,35 @@
 // src/common/errors.ts
 
+export interface ErrorDetail {
+  field: string;
+  location?: string; // Part of the request the field was read from, e.g. body
+  message: string;
+}
+
+/**
+ * Base class for errors that map to an HTTP response.
+ * The code is a stable, machine-readable identifier returned to clients next
+ * to the human-readable message. Anything else thrown is answered with a 500.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 500,
+    public readonly code: string = 'INTERNAL_ERROR',
+    public readonly details?: ErrorDetail[]
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
 /**
  * Represents an error where the user is authenticated but not authorized
  * to perform the requested action (HTTP 403).
  */
-export class ForbiddenError extends Error {
-  public readonly statusCode = 403;
-
-  constructor(message: string = 'Forbidden') {
-    super(message);
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden', code: string = 'FORBIDDEN') {
+    super(message, 403, code);
     this.name = 'ForbiddenError';
   }
 }
@@ -16,11 +37,9 @@ export class ForbiddenError extends Error {
 /**
  * Represents an error where a requested resource could not be found (HTTP 404).
  */
-export class NotFoundError extends Error {
-  public readonly statusCode = 404;
-
-  constructor(message: string = 'Not Found') {
-    super(message);
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Not Found', code: string = 'NOT_FOUND') {
+    super(message, 404, code);
     this.name = 'NotFoundError';
   }
 }
@@ -28,23 +47,44 @@ export class NotFoundError extends Error {
 /**
  * Represents an error due to invalid input from the client (HTTP 400).
  */
-export class BadRequestError extends Error {
-  public readonly statusCode = 400;
-
-  constructor(message: string = 'Bad Request') {
-    super(message);
+export class BadRequestError extends AppError {
+  constructor(message: string = 'Bad Request', code: string = 'BAD_REQUEST') {
+    super(message, 400, code);
     this.name = 'BadRequestError';
   }
 }
 
 /**
- * Represents an authentication error (HTTP 401).
+ * Represents input that failed schema validation, with one detail per
+ * offending field (HTTP 400).
  */
-export class UnauthorizedError extends Error {
-  public readonly statusCode = 401;
+export class ValidationError extends AppError {
+  constructor(
+    message: string = 'Validation failed',
+    details: ErrorDetail[] = []
+  ) {
+    super(message, 400, 'VALIDATION_ERROR', details);
+    this.name = 'ValidationError';
+  }
+}
 
-  constructor(message: string = 'Unauthorized') {
-    super(message);
+/**
+ * Represents an authentication error (HTTP 401).
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Unauthorized', code: string = 'UNAUTHORIZED') {
+    super(message, 401, code);
     this.name = 'UnauthorizedError';
   }
 }
+
+/**
+ * Represents a conflict with the current state of a resource, such as a
+ * duplicate unique value (HTTP 409).
+ */
+export class ConflictError extends AppError {
+  constructor(message: string = 'Conflict', code: string = 'CONFLICT') {
+    super(message, 409, code);
+    this.name = 'ConflictError';
+  }
+}
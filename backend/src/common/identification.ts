@@ -0,0 +1,135 @@
+import { DocumentType } from '@prisma/client';
+import { PROVINCE_CODES } from './provinces';
+
+// Registro Civil code for Ecuadorians registered abroad
+const FOREIGN_REGISTRY_CODE = '30';
+
+const CEDULA_COEFFICIENTS = [2, 1, 2, 1, 2, 1, 2, 1, 2];
+const PRIVATE_RUC_COEFFICIENTS = [4, 3, 2, 7, 6, 5, 4, 3, 2];
+const PUBLIC_RUC_COEFFICIENTS = [3, 2, 7, 6, 5, 4, 3, 2];
+
+export type IdentificationError =
+  | 'format'
+  | 'province'
+  | 'thirdDigit'
+  | 'checkDigit'
+  | 'establishment';
+
+export type IdentificationResult =
+  | { valid: true; documentType: DocumentType }
+  | { valid: false; error: IdentificationError };
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  cedula: 'Cédula',
+  ruc_natural: 'RUC persona natural',
+  ruc_private: 'RUC sociedad privada',
+  ruc_public: 'RUC entidad pública',
+};
+
+const toDigits = (value: string) => value.split('').map(Number);
+
+const weightedSum = (digits: number[], coefficients: number[]) =>
+  coefficients.reduce(
+    (sum, coefficient, index) => sum + digits[index] * coefficient,
+    0
+  );
+
+/**
+ * Cédula check digit: modulo 10 with 2-1 coefficients
+ * Products above 9 have 9 subtracted before adding up
+ */
+const isValidCedulaCheckDigit = (digits: number[]) => {
+  const sum = CEDULA_COEFFICIENTS.reduce((total, coefficient, index) => {
+    const product = digits[index] * coefficient;
+    return total + (product > 9 ? product - 9 : product);
+  }, 0);
+
+  return (10 - (sum % 10)) % 10 === digits[9];
+};
+
+/**
+ * Company RUC check digits use modulo 11, a remainder of 0 means check digit 0
+ */
+const isValidModulo11CheckDigit = (
+  digits: number[],
+  coefficients: number[]
+) => {
+  const remainder = weightedSum(digits, coefficients) % 11;
+  const checkDigit = remainder === 0 ? 0 : 11 - remainder;
+
+  return checkDigit === digits[coefficients.length];
+};
+
+/**
+ * Validate an Ecuadorian cédula or RUC and detect its document type
+ * - Cédula: 10 digits, third digit 0-5, modulo 10 check digit
+ * - RUC persona natural: a valid cédula followed by a 3 digit establishment
+ * - RUC sociedad privada: third digit 9, modulo 11 check digit in position 10
+ * - RUC entidad pública: third digit 6, modulo 11 check digit in position 9
+ */
+export const validateIdentification = (value: string): IdentificationResult => {
+  if (!/^\d{10}(\d{3})?$/.test(value)) {
+    return { valid: false, error: 'format' };
+  }
+
+  const province = value.slice(0, 2);
+  if (
+    !PROVINCE_CODES.includes(province) &&
+    province !== FOREIGN_REGISTRY_CODE
+  ) {
+    return { valid: false, error: 'province' };
+  }
+
+  const digits = toDigits(value);
+  const thirdDigit = digits[2];
+
+  if (value.length === 10) {
+    if (thirdDigit > 5) {
+      return { valid: false, error: 'thirdDigit' };
+    }
+
+    return isValidCedulaCheckDigit(digits)
+      ? { valid: true, documentType: 'cedula' }
+      : { valid: false, error: 'checkDigit' };
+  }
+
+  if (thirdDigit <= 5) {
+    if (!isValidCedulaCheckDigit(digits)) {
+      return { valid: false, error: 'checkDigit' };
+    }
+
+    return value.endsWith('000')
+      ? { valid: false, error: 'establishment' }
+      : { valid: true, documentType: 'ruc_natural' };
+  }
+
+  if (thirdDigit === 6) {
+    if (!isValidModulo11CheckDigit(digits, PUBLIC_RUC_COEFFICIENTS)) {
+      return { valid: false, error: 'checkDigit' };
+    }
+
+    return value.endsWith('0000')
+      ? { valid: false, error: 'establishment' }
+      : { valid: true, documentType: 'ruc_public' };
+  }
+
+  if (thirdDigit === 9) {
+    if (!isValidModulo11CheckDigit(digits, PRIVATE_RUC_COEFFICIENTS)) {
+      return { valid: false, error: 'checkDigit' };
+    }
+
+    return value.endsWith('000')
+      ? { valid: false, error: 'establishment' }
+      : { valid: true, documentType: 'ruc_private' };
+  }
+
+  return { valid: false, error: 'thirdDigit' };
+};
+
+/**
+ * Document type of an already validated cédula or RUC
+ */
+export const detectDocumentType = (value: string): DocumentType | null => {
+  const result = validateIdentification(value);
+  return result.valid ? result.documentType : null;
+};
@@ -0,0 +1,35 @@
+import BaseJoi, { CustomHelpers, Root, StringSchema } from 'joi';
+import { validateIdentification } from './identification';
+
+export interface ExtendedJoi extends Root {
+  /** Ecuadorian cédula or RUC, validated with its check digit */
+  cedulaRuc(): StringSchema;
+}
+
+/**
+ * Joi with the project's custom types
+ * Schemas import this instead of 'joi' when they need one of them
+ */
+const Joi: ExtendedJoi = BaseJoi.extend((joi: Root) => ({
+  type: 'cedulaRuc',
+  base: joi.string(),
+  messages: {
+    'cedulaRuc.format':
+      'Cedula/RUC must be a 10 digit cédula or a 13 digit RUC',
+    'cedulaRuc.province': 'Cedula/RUC has an invalid province code',
+    'cedulaRuc.thirdDigit': 'Cedula/RUC has an invalid third digit',
+    'cedulaRuc.checkDigit': 'Cedula/RUC has an invalid check digit',
+    'cedulaRuc.establishment': 'Cedula/RUC has an invalid establishment number',
+  },
+  validate(value: string, helpers: CustomHelpers) {
+    const result = validateIdentification(value);
+
+    if (!result.valid) {
+      return { value, errors: helpers.error(`cedulaRuc.${result.error}`) };
+    }
+
+    return { value };
+  },
+}));
+
+export default Joi;
@@ -0,0 +1,127 @@
+export interface InvitationMailData {
+  inviterName: string;
+  brokerName: string;
+  targetBrokerName: string; // New sub-broker or existing broker the invitee joins
+  roleName: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+export interface WelcomeMailData {
+  firstName: string;
+  brokerName: string;
+  loginUrl: string;
+}
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface MailTemplateDataMap {
+  invitation: InvitationMailData;
+  invitationReminder: InvitationMailData;
+  welcome: WelcomeMailData;
+}
+
+export type MailTemplateName = keyof MailTemplateDataMap;
+export type MailTemplateData<T extends MailTemplateName> =
+  MailTemplateDataMap[T];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'long',
+    timeZone: 'America/Guayaquil',
+  }).format(date);
+
+/**
+ * Wrap paragraphs and an optional call to action in the shared HTML layout
+ * Paragraphs are plain text and escaped here
+ */
+const renderHtml = (
+  paragraphs: string[],
+  action?: { label: string; url: string }
+) => {
+  const body = paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n');
+  const button = action
+    ? `<p><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 18px;background:#1f4e79;color:#ffffff;text-decoration:none;border-radius:4px">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<body style="font-family:Arial,sans-serif;color:#222222;line-height:1.5">
+${body}
+${button}
+<p style="color:#777777;font-size:12px">CotizateAlgo</p>
+</body>
+</html>`;
+};
+
+const renderText = (
+  paragraphs: string[],
+  action?: { label: string; url: string }
+) =>
+  [...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : [])].join(
+    '\n\n'
+  );
+
+const invitationParagraphs = (data: InvitationMailData) => [
+  `${data.inviterName} de ${data.brokerName} te invitó a unirte a ${data.targetBrokerName} en CotizateAlgo con el rol ${data.roleName}.`,
+  `La invitación vence el ${formatDate(data.expiresAt)}.`,
+];
+
+/**
+ * Email templates by name
+ * Each one returns the subject with plain text and HTML bodies
+ */
+export const mailTemplates: {
+  [K in MailTemplateName]: (data: MailTemplateDataMap[K]) => RenderedMail;
+} = {
+  invitation: data => {
+    const action = { label: 'Aceptar invitación', url: data.acceptUrl };
+    const paragraphs = invitationParagraphs(data);
+
+    return {
+      subject: `${data.brokerName} te invitó a CotizateAlgo`,
+      text: renderText(paragraphs, action),
+      html: renderHtml(paragraphs, action),
+    };
+  },
+
+  invitationReminder: data => {
+    const action = { label: 'Aceptar invitación', url: data.acceptUrl };
+    const paragraphs = [
+      'Te recordamos que tienes una invitación pendiente.',
+      ...invitationParagraphs(data),
+    ];
+
+    return {
+      subject: `Recordatorio: tu invitación de ${data.brokerName}`,
+      text: renderText(paragraphs, action),
+      html: renderHtml(paragraphs, action),
+    };
+  },
+
+  welcome: data => {
+    const action = { label: 'Iniciar sesión', url: data.loginUrl };
+    const paragraphs = [
+      `Hola ${data.firstName}, tu cuenta en CotizateAlgo está lista.`,
+      `Ya puedes cotizar y emitir pólizas como parte de ${data.brokerName}.`,
+    ];
+
+    return {
+      subject: 'Bienvenido a CotizateAlgo',
+      text: renderText(paragraphs, action),
+      html: renderHtml(paragraphs, action),
+    };
+  },
+};
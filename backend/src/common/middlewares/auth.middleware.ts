@@ -1,7 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { supabase } from '../../config/supabase';
 import { prisma } from '../../config/database';
+import {
+  cache,
+  CACHE_NAMESPACES,
+  AUTH_CACHE_TTL_SECONDS,
+  tokenCacheKey,
+} from '../../config/cache';
 import { BrokerHierarchyService } from '../../services/brokerHierarchy.service';
+import { TokenVerificationService } from '../../services/tokenVerification.service';
+import { AuditService } from '../../services/audit.service';
+import { setRequestActor } from '../requestContext';
+import { ForbiddenError, UnauthorizedError } from '../errors';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -28,9 +37,95 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+// Module scoped so the JWKS fetched for local verification is reused across requests
+const tokenVerificationService = new TokenVerificationService();
+const auditService = new AuditService();
+
+type CachedUserAccess = {
+  brokerId: string | null;
+  isActive: boolean;
+  roles: NonNullable<AuthenticatedRequest['user']>['roles'];
+};
+
+/**
+ * Tokens are cached no longer than they are valid
+ * The expiry is read from the JWT payload; the signature is checked by the loader
+ */
+const getTokenCacheTtl = (token: string): number => {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token.split('.')[1], 'base64url').toString('utf8')
+    );
+    const secondsLeft = Number(payload.exp) - Math.floor(Date.now() / 1000);
+    return Math.min(AUTH_CACHE_TTL_SECONDS, Math.max(0, secondsLeft));
+  } catch {
+    return 0;
+  }
+};
+
+const loadUserAccess = async (
+  userId: string
+): Promise<CachedUserAccess | null> => {
+  const profile = await prisma.profile.findUnique({
+    where: { id: userId },
+    include: {
+      userRoles: {
+        include: {
+          role: {
+            include: {
+              rolePermissions: {
+                include: {
+                  permission: true
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!profile) {
+    return null;
+  }
+
+  return {
+    brokerId: profile.brokerId,
+    isActive: profile.isActive,
+    roles: profile.userRoles.map(ur => ({
+      id: ur.role.id,
+      name: ur.role.name,
+      permissions: ur.role.rolePermissions.map(rp => ({
+        resource: rp.permission.resource,
+        action: rp.permission.action
+      }))
+    })),
+  };
+};
+
+const loadBrokerContext = async (
+  brokerHierarchyService: BrokerHierarchyService,
+  brokerId: string
+) => {
+  const broker = await prisma.broker.findUnique({
+    where: { id: brokerId },
+    select: { parentId: true, depth: true },
+  });
+
+  if (!broker) {
+    throw new Error(`Broker ${brokerId} not found while loading broker context`);
+  }
+
+  return {
+    accessibleBrokerIds: await brokerHierarchyService.getDescendantBrokerIds(brokerId),
+    hierarchyLevel: broker.depth,
+    isRootBroker: !broker.parentId,
+  };
+};
+
 export const authMiddleware = async (
   req: AuthenticatedRequest,
-  res: Response,
+  _res: Response,
   next: NextFunction
 ): Promise<void> => {
   const brokerHierarchyService = new BrokerHierarchyService();
@@ -39,70 +134,49 @@ export const authMiddleware = async (
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({
-        success: false,
-        message: 'Access token required',
-      });
+      next(new UnauthorizedError('Access token required', 'TOKEN_MISSING'));
       return;
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Verify token with Supabase
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    // Verify token locally, falling back to Supabase (cached per token until it expires)
+    const user = await cache.remember(
+      CACHE_NAMESPACES.tokens,
+      tokenCacheKey(token),
+      getTokenCacheTtl(token),
+      () => tokenVerificationService.verify(token)
+    );
 
-    if (error || !user) {
-      res.status(401).json({
-        success: false,
-        message: 'Invalid or expired token',
-      });
+    if (!user) {
+      next(new UnauthorizedError('Invalid or expired token', 'TOKEN_INVALID'));
       return;
     }
 
-    // Load user profile with roles and permissions, including broker info
-    const profile = await prisma.profile.findUnique({
-      where: { id: user.id },
-      include: {
-        broker: {
-          select: {
-            id: true,
-            name: true,
-            parentId: true,
-          },
-        },
-        userRoles: {
-          include: {
-            role: {
-              include: {
-                rolePermissions: {
-                  include: {
-                    permission: true
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+    // Load roles and permissions (cached per user, invalidated on role changes)
+    const access = await cache.remember(
+      CACHE_NAMESPACES.userAccess,
+      user.id,
+      AUTH_CACHE_TTL_SECONDS,
+      () => loadUserAccess(user.id)
+    );
 
-    if (!profile) {
-      res.status(401).json({
-        success: false,
-        message: 'User profile not found',
-      });
+    if (!access) {
+      next(new UnauthorizedError('User profile not found', 'PROFILE_NOT_FOUND'));
       return;
     }
 
-    // Process roles and permissions
-    const roles = profile.userRoles.map(ur => ({
-      id: ur.role.id,
-      name: ur.role.name,
-      permissions: ur.role.rolePermissions.map(rp => ({
-        resource: rp.permission.resource,
-        action: rp.permission.action
-      }))
-    }));
+    // Deactivation invalidates the cached entry, so this takes effect immediately
+    // (entries cached before isActive was tracked are treated as active)
+    if (access.isActive === false) {
+      next(new ForbiddenError('User account is deactivated', 'ACCOUNT_DEACTIVATED'));
+      return;
+    }
+
+    const { roles, brokerId } = access;
+
+    // Attribute audit entries written during this request to the user
+    setRequestActor(user.id, brokerId);
 
     // Flatten all permissions into string array
     const permissions = roles.flatMap(role => 
@@ -126,40 +200,27 @@ export const authMiddleware = async (
     };
 
     // Add broker context if user has a broker
-    if (profile.brokerId && profile.broker) {
-      try {
-        // Get all brokers this user can access (their own + all descendants)
-        const accessibleBrokerIds = await brokerHierarchyService.getDescendantBrokerIds(profile.brokerId);
-        
-        // Get hierarchy info to determine level and root status
-        const hierarchyInfo = await brokerHierarchyService.getBrokerHierarchyInfo(profile.brokerId);
-        
-        req.brokerContext = {
-          userBrokerId: profile.brokerId,
-          accessibleBrokerIds,
-          hierarchyLevel: hierarchyInfo.hierarchyStats.hierarchyLevel,
-          isRootBroker: !profile.broker.parentId,
-        };
-
-        console.log(`[AUTH] Broker context set for user ${user.id}:`, {
-          brokerId: profile.brokerId,
-          brokerName: profile.broker.name,
-          accessibleBrokerCount: accessibleBrokerIds.length,
-          hierarchyLevel: hierarchyInfo.hierarchyStats.hierarchyLevel,
-          isRootBroker: !profile.broker.parentId,
-        });
-
-      } catch (brokerError) {
-        console.error('[AUTH] Failed to load broker context:', brokerError);
-        
-        // Fallback: provide minimal broker context with just the user's own broker
-        req.brokerContext = {
-          userBrokerId: profile.brokerId,
-          accessibleBrokerIds: [profile.brokerId],
-          hierarchyLevel: 0,
-          isRootBroker: true, // Assume root if we can't determine hierarchy
-        };
-      }
+    if (brokerId) {
+      // Get all brokers this user can access (their own + all descendants)
+      // Errors propagate so access is never silently narrowed or widened
+      const brokerContext = await cache.remember(
+        CACHE_NAMESPACES.brokerContext,
+        brokerId,
+        AUTH_CACHE_TTL_SECONDS,
+        () => loadBrokerContext(brokerHierarchyService, brokerId)
+      );
+
+      req.brokerContext = {
+        userBrokerId: brokerId,
+        ...brokerContext,
+      };
+
+      console.log(`[AUTH] Broker context set for user ${user.id}:`, {
+        brokerId,
+        accessibleBrokerCount: brokerContext.accessibleBrokerIds.length,
+        hierarchyLevel: brokerContext.hierarchyLevel,
+        isRootBroker: brokerContext.isRootBroker,
+      });
     } else {
       // User has no broker (system user, etc.)
       req.brokerContext = {
@@ -174,29 +235,32 @@ export const authMiddleware = async (
 
     next();
   } catch (error) {
-    console.error('Authentication error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Authentication error',
-    });
+    next(error);
   }
 };
 
 export const requirePermission = (permission: string) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required',
-      });
+      next(new UnauthorizedError('Authentication required'));
       return;
     }
 
     if (!req.user.hasPermission(permission)) {
-      res.status(403).json({
-        success: false,
-        message: `Insufficient permissions. Required: ${permission}`,
+      void auditService.record({
+        action: 'permission.denied',
+        resourceType: 'permission',
+        resourceId: permission,
+        outcome: 'denied',
+        metadata: { method: req.method, path: req.originalUrl },
       });
+
+      next(
+        new ForbiddenError(
+          `Insufficient permissions. Required: ${permission}`,
+          'INSUFFICIENT_PERMISSIONS'
+        )
+      );
       return;
     }
 
@@ -205,20 +269,14 @@ export const requirePermission = (permission: string) => {
 };
 
 export const requireRole = (roleName: string) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required',
-      });
+      next(new UnauthorizedError('Authentication required'));
       return;
     }
 
     if (!req.user.hasRole(roleName)) {
-      res.status(403).json({
-        success: false,
-        message: `Insufficient role. Required: ${roleName}`,
-      });
+      next(new ForbiddenError(`Insufficient role. Required: ${roleName}`, 'INSUFFICIENT_ROLE'));
       return;
     }
 
@@ -227,20 +285,27 @@ export const requireRole = (roleName: string) => {
 };
 
 export const requireAnyPermission = (permissions: string[]) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required',
-      });
+      next(new UnauthorizedError('Authentication required'));
       return;
     }
 
     if (!req.user.hasAnyPermission(permissions)) {
-      res.status(403).json({
-        success: false,
-        message: `Insufficient permissions. Required one of: ${permissions.join(', ')}`,
+      void auditService.record({
+        action: 'permission.denied',
+        resourceType: 'permission',
+        resourceId: permissions.join(','),
+        outcome: 'denied',
+        metadata: { method: req.method, path: req.originalUrl },
       });
+
+      next(
+        new ForbiddenError(
+          `Insufficient permissions. Required one of: ${permissions.join(', ')}`,
+          'INSUFFICIENT_PERMISSIONS'
+        )
+      );
       return;
     }
 
@@ -1,6 +1,12 @@
 import { Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from './auth.middleware';
 import { authLogger } from '../../services/logger.service';
+import {
+  AppError,
+  BadRequestError,
+  ForbiddenError,
+  UnauthorizedError,
+} from '../errors';
 
 export type BrokerAccessScope = 'own' | 'hierarchy';
 
@@ -14,7 +20,7 @@ export const requireBrokerAccess = (
   scope: BrokerAccessScope = 'hierarchy',
   skipForSystemUsers: boolean = false
 ) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     const correlationId = (req as any).correlationId;
     const logger = authLogger.withCorrelationId(correlationId);
 
@@ -26,10 +32,7 @@ export const requireBrokerAccess = (
           operation: 'broker_access_check'
         });
         
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required',
-        });
+        next(new UnauthorizedError('Authentication required'));
         return;
       }
 
@@ -41,10 +44,7 @@ export const requireBrokerAccess = (
           operation: 'broker_access_check'
         });
         
-        res.status(500).json({
-          success: false,
-          message: 'Broker context not available',
-        });
+        next(new AppError('Broker context not available'));
         return;
       }
 
@@ -67,10 +67,12 @@ export const requireBrokerAccess = (
             operation: 'broker_access_system_user_denied'
           });
           
-          res.status(403).json({
-            success: false,
-            message: 'Broker access required. System users cannot perform this operation.',
-          });
+          next(
+            new ForbiddenError(
+              'Broker access required. System users cannot perform this operation.',
+              'BROKER_REQUIRED'
+            )
+          );
           return;
         }
       }
@@ -109,10 +111,7 @@ export const requireBrokerAccess = (
             operation: 'broker_access_invalid_scope'
           });
           
-          res.status(500).json({
-            success: false,
-            message: 'Invalid broker access configuration',
-          });
+          next(new AppError('Invalid broker access configuration'));
           return;
       }
 
@@ -136,10 +135,7 @@ export const requireBrokerAccess = (
         operation: 'broker_access_middleware_error'
       });
       
-      res.status(500).json({
-        success: false,
-        message: 'Broker access validation error',
-      });
+      next(new AppError('Broker access validation error'));
     }
   };
 };
@@ -149,16 +145,13 @@ export const requireBrokerAccess = (
  * Validates that the target brokerId is within the user's accessible broker hierarchy
  */
 export const requireSpecificBrokerAccess = (brokerIdParam: string = 'brokerId') => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
     const correlationId = (req as any).correlationId;
     const logger = authLogger.withCorrelationId(correlationId);
 
     try {
       if (!req.user || !req.brokerContext) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required',
-        });
+        next(new UnauthorizedError('Authentication required'));
         return;
       }
 
@@ -174,10 +167,7 @@ export const requireSpecificBrokerAccess = (brokerIdParam: string = 'brokerId')
           operation: 'specific_broker_access_check'
         });
         
-        res.status(400).json({
-          success: false,
-          message: `Missing required parameter: ${brokerIdParam}`,
-        });
+        next(new BadRequestError(`Missing required parameter: ${brokerIdParam}`));
         return;
       }
 
@@ -195,10 +185,11 @@ export const requireSpecificBrokerAccess = (brokerIdParam: string = 'brokerId')
           operation: 'specific_broker_access_denied'
         });
         
-        res.status(403).json({
-          success: false,
-          message: 'Access denied. You do not have permission to access this broker.',
-        });
+        next(
+          new ForbiddenError(
+            'Access denied. You do not have permission to access this broker.'
+          )
+        );
         return;
       }
 
@@ -221,10 +212,7 @@ export const requireSpecificBrokerAccess = (brokerIdParam: string = 'brokerId')
         operation: 'specific_broker_access_error'
       });
       
-      res.status(500).json({
-        success: false,
-        message: 'Broker access validation error',
-      });
+      next(new AppError('Broker access validation error'));
     }
   };
 };
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import Joi from 'joi';
+import { AppError, NotFoundError, ValidationError } from '../errors';
+import { getRequestContext } from '../requestContext';
+import { loggerService } from '../../services/logger.service';
+
+/**
+ * Translate anything thrown by a route into an AppError
+ * Typed errors pass through; Prisma, Joi and body parser errors are mapped to
+ * their client-facing equivalents, everything else becomes a 500
+ */
+const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (Joi.isError(error)) {
+    return new ValidationError(
+      error.details[0]?.message ?? 'Validation failed',
+      error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message,
+      }))
+    );
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    switch (error.code) {
+      case 'P2002': {
+        const target = error.meta?.target;
+        const fields = Array.isArray(target) ? target.join(', ') : target;
+        return new AppError(
+          fields
+            ? `A record with this ${fields} already exists`
+            : 'A record with these values already exists',
+          409,
+          'DUPLICATE_RECORD'
+        );
+      }
+      case 'P2025':
+        return new AppError('Record not found', 404, 'RECORD_NOT_FOUND');
+    }
+  }
+
+  // Errors raised by the body parsers (malformed JSON, oversized payloads)
+  const httpError = error as {
+    status?: number;
+    expose?: boolean;
+    type?: string;
+  };
+  if (
+    httpError?.expose &&
+    typeof httpError.status === 'number' &&
+    httpError.status < 500
+  ) {
+    return httpError.type === 'entity.parse.failed'
+      ? new AppError('Malformed JSON body', 400, 'INVALID_JSON')
+      : new AppError(
+          (error as Error).message,
+          httpError.status,
+          'INVALID_REQUEST'
+        );
+  }
+
+  return new AppError(
+    error instanceof Error ? error.message : 'Internal server error'
+  );
+};
+
+/**
+ * Answer requests that matched no route
+ * Registered after all routers, right before the error handler
+ */
+export const notFoundHandler = (
+  _req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  next(new NotFoundError('Route not found', 'ROUTE_NOT_FOUND'));
+};
+
+/**
+ * Central error handler, registered last
+ * Every error response has the same shape:
+ * { success: false, message, code, details?, correlationId }
+ * Messages of unexpected server errors are only exposed in development.
+ */
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const appError = toAppError(error);
+  const correlationId =
+    getRequestContext()?.correlationId ?? (req as any).correlationId;
+  const logger = loggerService.withCorrelationId(correlationId);
+  // Typed errors carry messages meant for clients, even with a 5xx status
+  const isUnexpected = !(error instanceof AppError);
+
+  if (appError.statusCode >= 500) {
+    logger.error('Unhandled application error', error as Error, {
+      method: req.method,
+      url: req.url,
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+    });
+  } else {
+    logger.debug('Request failed', {
+      method: req.method,
+      url: req.url,
+      statusCode: appError.statusCode,
+      code: appError.code,
+      message: appError.message,
+    });
+  }
+
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  res.status(appError.statusCode).json({
+    success: false,
+    message:
+      isUnexpected &&
+      appError.statusCode >= 500 &&
+      process.env.NODE_ENV !== 'development'
+        ? 'Internal server error'
+        : appError.message,
+    code: appError.code,
+    ...(appError.details ? { details: appError.details } : {}),
+    correlationId,
+  });
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../services/logger.service';
+import { requestContext } from '../requestContext';
 
 // Generate correlation ID for request tracing
 const generateCorrelationId = () => uuidv4();
@@ -65,6 +66,19 @@ export const correlationIdMiddleware = (req: Request, res: Response, next: NextF
   next();
 };
 
+// Request context middleware
+// Registered after the body parsers, which do not preserve async context
+export const requestContextMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  requestContext.run(
+    {
+      correlationId: (req as any).correlationId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    },
+    next
+  );
+};
+
 // Performance monitoring middleware
 export const performanceMiddleware = (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
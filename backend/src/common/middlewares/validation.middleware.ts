@@ -1,23 +1,89 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { ErrorDetail, ValidationError } from '../errors';
 
-export const validateRequest = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const { error } = schema.validate(req.body, { abortEarly: false });
-
-    if (error) {
-      const errorMessages = error.details.map((detail: Joi.ValidationErrorItem) => ({
-        field: detail.path.join('.'),
-        message: detail.message,
-      }));
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: errorMessages,
-      });
+export type RequestLocation = 'params' | 'query' | 'headers' | 'body';
+
+export type RequestSchemas = Partial<Record<RequestLocation, Joi.ObjectSchema>>;
+
+// Checked in this order so details list path problems before payload problems
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'headers', 'body'];
+
+const VALIDATION_OPTIONS: Record<RequestLocation, Joi.ValidationOptions> = {
+  params: { abortEarly: false },
+  query: { abortEarly: false },
+  // Clients and proxies send many headers, only the ones in the schema matter
+  headers: { abortEarly: false, allowUnknown: true },
+  body: { abortEarly: false },
+};
+
+const writeBack = (req: Request, location: RequestLocation, value: unknown) => {
+  if (location === 'query') {
+    // Express 5 exposes req.query through a getter, so it is redefined instead
+    Object.defineProperty(req, 'query', {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+    return;
+  }
+
+  (req as any)[location] = value;
+};
+
+/**
+ * Validate any part of the request against Joi schemas
+ * Every location is checked and all failing fields are reported together,
+ * each with the location it came from. On success the validated values,
+ * with Joi defaults and conversions applied, replace the originals.
+ */
+export const validate = (schemas: RequestSchemas) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const details: ErrorDetail[] = [];
+    const values: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      // A request without a JSON payload leaves req.body undefined
+      const { error, value } = schema.validate(
+        req[location] ?? {},
+        VALIDATION_OPTIONS[location]
+      );
+
+      if (error) {
+        details.push(
+          ...error.details.map((detail: Joi.ValidationErrorItem) => ({
+            field: detail.path.join('.'),
+            location,
+            message: detail.message,
+          }))
+        );
+        continue;
+      }
+
+      values[location] = value;
+    }
+
+    if (details.length > 0) {
+      next(new ValidationError('Validation failed', details));
       return; // Explicit return for error path
     }
 
+    for (const [location, value] of Object.entries(values)) {
+      writeBack(req, location as RequestLocation, value);
+    }
+
     next();
   };
-}; 
\ No newline at end of file
+};
+
+/**
+ * Validate the request body only
+ */
+export const validateRequest = (schema: Joi.ObjectSchema) =>
+  validate({ body: schema });
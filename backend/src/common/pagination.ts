@@ -0,0 +1,156 @@
+import Joi from 'joi';
+
+/**
+ * Shared query convention for list endpoints
+ * - limit: page size, bounded per endpoint
+ * - offset: rows to skip, for numbered pages
+ * - cursor: opaque value from a previous page's nextCursor, stable while rows
+ *   are inserted or deleted. Cannot be combined with offset.
+ * - sort: comma separated fields, prefixed with '-' for descending order,
+ *   e.g. sort=-createdAt,name. Only the fields allowed by the endpoint.
+ * Filters are plain query keys declared next to these in each list schema.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+export interface PageQuery {
+  limit: number;
+  offset: number;
+  cursor?: string;
+  sort: SortField[];
+}
+
+export interface PageMeta {
+  total: number;
+  limit: number;
+  offset: number | null; // null when the page was requested by cursor
+  nextCursor: string | null;
+}
+
+export interface PaginationOptions {
+  sortFields: string[];
+  defaultSort: string; // In the sort query format, e.g. 'lastName,firstName'
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export const encodeCursor = (id: string): string =>
+  Buffer.from(JSON.stringify({ id })).toString('base64url');
+
+export const decodeCursor = (cursor: string): string | null => {
+  try {
+    const { id } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return typeof id === 'string' && id ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseSort = (sort: string): SortField[] =>
+  sort
+    .split(',')
+    .map(field =>
+      field.startsWith('-')
+        ? { field: field.slice(1), direction: 'desc' }
+        : { field, direction: 'asc' }
+    );
+
+/**
+ * Joi keys for limit, offset, cursor and sort
+ * Spread them into an endpoint's query schema next to its filters
+ * Sort is converted to SortField[], so the validated query is a PageQuery.
+ */
+export const paginationQueryKeys = ({
+  sortFields,
+  defaultSort,
+  defaultLimit = DEFAULT_PAGE_LIMIT,
+  maxLimit = MAX_PAGE_LIMIT,
+}: PaginationOptions) => {
+  const sortField = `-?(${sortFields.join('|')})`;
+
+  return {
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(maxLimit)
+      .default(defaultLimit)
+      .messages({
+        'number.max': `Limit cannot exceed ${maxLimit}`,
+      }),
+    offset: Joi.number().integer().min(0).default(0),
+    cursor: Joi.string()
+      .custom((value: string, helpers) =>
+        decodeCursor(value) ? value : helpers.error('any.invalid')
+      )
+      .messages({
+        'any.invalid': 'Cursor is invalid',
+      })
+      .when('offset', {
+        is: Joi.number().greater(0),
+        then: Joi.forbidden().messages({
+          'any.unknown': 'Use either cursor or offset, not both',
+        }),
+      }),
+    sort: Joi.string()
+      .pattern(new RegExp(`^${sortField}(,${sortField})*$`))
+      .custom(parseSort)
+      .default(parseSort(defaultSort))
+      .messages({
+        'string.pattern.base': `Sort must be a comma separated list of: ${sortFields.join(', ')}, optionally prefixed with -`,
+      }),
+  };
+};
+
+/**
+ * Prisma findMany arguments for a page
+ * One row more than the limit is fetched to know whether a next page exists.
+ * The id is always the last sort key so rows with equal values keep a stable
+ * order and cursors point at a single row.
+ */
+export const toPageArgs = <OrderBy>(query: PageQuery) => {
+  const orderBy = [
+    ...query.sort
+      .filter(({ field }) => field !== 'id')
+      .map(({ field, direction }) => ({ [field]: direction })),
+    { id: 'asc' },
+  ] as OrderBy[];
+  const cursorId = query.cursor ? decodeCursor(query.cursor) : null;
+
+  return {
+    orderBy,
+    take: query.limit + 1,
+    ...(cursorId
+      ? { cursor: { id: cursorId }, skip: 1 }
+      : { skip: query.offset }),
+  };
+};
+
+/**
+ * Trim the extra row fetched by toPageArgs() and build the page metadata
+ */
+export const toPage = <T extends { id: string }>(
+  rows: T[],
+  total: number,
+  query: PageQuery
+): { items: T[]; meta: PageMeta } => {
+  const hasMore = rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    items,
+    meta: {
+      total,
+      limit: query.limit,
+      offset: query.cursor ? null : query.offset,
+      nextCursor: hasMore ? encodeCursor(items[items.length - 1].id) : null,
+    },
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Ecuadorian provinces keyed by their official two-digit code
+ * The same codes prefix every cédula issued in the province
+ */
+export const ECUADOR_PROVINCES: Record<string, string> = {
+  '01': 'Azuay',
+  '02': 'Bolívar',
+  '03': 'Cañar',
+  '04': 'Carchi',
+  '05': 'Cotopaxi',
+  '06': 'Chimborazo',
+  '07': 'El Oro',
+  '08': 'Esmeraldas',
+  '09': 'Guayas',
+  '10': 'Imbabura',
+  '11': 'Loja',
+  '12': 'Los Ríos',
+  '13': 'Manabí',
+  '14': 'Morona Santiago',
+  '15': 'Napo',
+  '16': 'Pastaza',
+  '17': 'Pichincha',
+  '18': 'Tungurahua',
+  '19': 'Zamora Chinchipe',
+  '20': 'Galápagos',
+  '21': 'Sucumbíos',
+  '22': 'Orellana',
+  '23': 'Santo Domingo de los Tsáchilas',
+  '24': 'Santa Elena',
+};
+
+export const PROVINCE_CODES = Object.keys(ECUADOR_PROVINCES);
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  correlationId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  actorId?: string; // Set by authMiddleware once the token is verified
+  actorBrokerId?: string | null;
+}
+
+/**
+ * Per-request values that services need without receiving the request,
+ * such as the correlation id and the authenticated user written to the audit log
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestContext = (): RequestContext | undefined =>
+  requestContext.getStore();
+
+/**
+ * Record the authenticated user on the current request context
+ */
+export const setRequestActor = (
+  actorId: string,
+  actorBrokerId: string | null
+) => {
+  const context = requestContext.getStore();
+
+  if (context) {
+    context.actorId = actorId;
+    context.actorBrokerId = actorBrokerId;
+  }
+};
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import dotenv from 'dotenv';
+import {
+  CacheService,
+  CacheStore,
+  MemoryCacheStore,
+  RedisCacheStore,
+} from '../services/cache.service';
+import { cacheLogger } from '../services/logger.service';
+
+dotenv.config();
+
+// How long verified tokens, permission sets and broker contexts are reused
+export const AUTH_CACHE_TTL_SECONDS =
+  Number(process.env.AUTH_CACHE_TTL_SECONDS) || 60;
+
+export const CACHE_NAMESPACES = {
+  tokens: 'auth-tokens',
+  userAccess: 'user-access',
+  brokerContext: 'broker-context',
+} as const;
+
+// Raw tokens never end up in the cache, only their hash
+export const tokenCacheKey = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const createStore = (): CacheStore => {
+  if (process.env.CACHE_DRIVER === 'redis') {
+    const client = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: Number(process.env.REDIS_PORT) || 6379,
+      password: process.env.REDIS_PASSWORD || undefined,
+      // Fail fast while disconnected so requests fall back to the database
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+
+    client.on('error', error => {
+      cacheLogger.warn('Redis cache connection error', {
+        error: error.message,
+        operation: 'redis_connection',
+      });
+    });
+
+    cacheLogger.info('Using Redis cache store', {
+      host: process.env.REDIS_HOST || 'localhost',
+    });
+    return new RedisCacheStore(client);
+  }
+
+  return new MemoryCacheStore(Number(process.env.CACHE_MAX_ENTRIES) || 10000);
+};
+
+export const cache = new CacheService(createStore());
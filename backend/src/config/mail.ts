@@ -0,0 +1,66 @@
+import nodemailer from 'nodemailer';
+import dotenv from 'dotenv';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  MailService,
+  MailTransport,
+  SmtpMailTransport,
+} from '../services/mail.service';
+import { mailLogger } from '../services/logger.service';
+
+dotenv.config();
+
+/**
+ * Absolute link into the frontend, e.g. clientUrl('/accept-invitation', { token })
+ */
+export const clientUrl = (pathname: string, query?: Record<string, string>) => {
+  const baseUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+  const url = new URL(`${baseUrl.replace(/\/$/, '')}${pathname}`);
+
+  Object.entries(query ?? {}).forEach(([key, value]) =>
+    url.searchParams.set(key, value)
+  );
+
+  return url.toString();
+};
+
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      mailLogger.info('Using SMTP mail transport', {
+        host: process.env.SMTP_HOST,
+      });
+      return new SmtpMailTransport(
+        nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: Number(process.env.SMTP_PORT) || 587,
+          secure: process.env.SMTP_SECURE === 'true',
+          auth: process.env.SMTP_USER
+            ? {
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASSWORD,
+              }
+            : undefined,
+        })
+      );
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_FILE_DIR || 'tmp/mail');
+    default:
+      // The console transport logs message bodies, invitation links included
+      if (process.env.NODE_ENV === 'production') {
+        mailLogger.error(
+          'FATAL: MAIL_TRANSPORT must be smtp or file in production',
+          undefined,
+          { mailTransport: process.env.MAIL_TRANSPORT ?? null }
+        );
+        process.exit(1);
+      }
+      return new ConsoleMailTransport();
+  }
+};
+
+export const mailService = new MailService(
+  createTransport(),
+  process.env.MAIL_FROM || 'CotizateAlgo <no-reply@cotizatealgo.com>'
+);
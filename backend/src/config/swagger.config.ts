@@ -62,8 +62,9 @@ const options: Options = {
             },
             cedulaRuc: {
               type: 'string',
-              example: '1234567890',
-              description: 'Ecuador cedula or RUC number',
+              example: '1710034065',
+              description:
+                'Ecuadorian cedula (10 digits) or RUC (13 digits), validated with its check digit',
             },
             phone: {
               type: 'string',
@@ -208,7 +209,7 @@ const options: Options = {
                 },
                 cedulaRuc: {
                   type: 'string',
-                  example: '1234567890',
+                  example: '1710034065',
                 },
                 phone: {
                   type: 'string',
@@ -296,24 +297,44 @@ const options: Options = {
         Error: {
           type: 'object',
           properties: {
+            success: {
+              type: 'boolean',
+              example: false,
+            },
             message: {
               type: 'string',
               example: 'Error message',
             },
-            error: {
+            code: {
+              type: 'string',
+              example: 'NOT_FOUND',
+            },
+            correlationId: {
               type: 'string',
-              example: 'Detailed error information',
+              example: '3f2b8c1e-4d5a-4f6b-9c7d-8e9f0a1b2c3d',
             },
           },
         },
         ValidationError: {
           type: 'object',
           properties: {
+            success: {
+              type: 'boolean',
+              example: false,
+            },
             message: {
               type: 'string',
               example: 'Validation failed',
             },
-            errors: {
+            code: {
+              type: 'string',
+              example: 'VALIDATION_ERROR',
+            },
+            correlationId: {
+              type: 'string',
+              example: '3f2b8c1e-4d5a-4f6b-9c7d-8e9f0a1b2c3d',
+            },
+            details: {
               type: 'array',
               items: {
                 type: 'object',
@@ -322,6 +343,11 @@ const options: Options = {
                     type: 'string',
                     example: 'email',
                   },
+                  location: {
+                    type: 'string',
+                    enum: ['params', 'query', 'headers', 'body'],
+                    example: 'body',
+                  },
                   message: {
                     type: 'string',
                     example: 'Invalid email format',
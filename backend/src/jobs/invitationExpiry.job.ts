@@ -0,0 +1,52 @@
+import { InvitationService } from '../modules/invitations/invitation.service';
+import { authLogger } from '../services/logger.service';
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+// Anything but a positive whole number of minutes falls back to the default
+const getIntervalMinutes = (): number => {
+  const minutes = Number(process.env.INVITATION_EXPIRY_INTERVAL_MINUTES);
+  return Number.isInteger(minutes) && minutes > 0
+    ? minutes
+    : DEFAULT_INTERVAL_MINUTES;
+};
+
+/**
+ * Periodically mark pending invitations past their expiry as expired
+ * Runs once at startup and then every INVITATION_EXPIRY_INTERVAL_MINUTES.
+ * The update is idempotent, so several API instances may run it side by side.
+ */
+export const startInvitationExpiryJob = () => {
+  const invitationService = new InvitationService();
+  const intervalMinutes = getIntervalMinutes();
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await invitationService.expireInvitations();
+    } catch (error) {
+      authLogger.error('Invitation expiry job failed', error as Error, {
+        operation: 'invitation_expiry_job',
+      });
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  // Do not keep the process alive just for this job
+  timer.unref();
+
+  authLogger.info('Invitation expiry job scheduled', {
+    intervalMinutes,
+    operation: 'invitation_expiry_job',
+  });
+
+  return () => clearInterval(timer);
+};
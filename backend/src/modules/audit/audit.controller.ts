@@ -0,0 +1,45 @@
+import { Response } from 'express';
+import { AuditService, AuditLogFilters } from '../../services/audit.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  getAuditLogs = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const filters = req.query as unknown as AuditLogFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view audit logs for this broker.'
+      );
+    }
+
+    const { entries, total } = await this.auditService.getAuditLogs(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Audit logs retrieved successfully',
+      data: {
+        entries,
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+      },
+    });
+  };
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { AuditController } from './audit.controller';
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { validate } from '../../common/middlewares/validation.middleware';
+import { auditLogQuerySchema } from './validation/audit.schemas';
+
+const router = Router();
+const auditController = new AuditController();
+
+// Audit Log Routes (Broker Isolation Required)
+// Entries are scoped to the caller's broker and its descendants
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('audit:read'),
+  validate({ query: auditLogQuerySchema }),
+  auditController.getAuditLogs
+);
+
+export default router;
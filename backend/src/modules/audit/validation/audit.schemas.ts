@@ -0,0 +1,30 @@
+import Joi from 'joi';
+
+export const MAX_AUDIT_LOG_LIMIT = 500;
+
+// Query parameters of GET /api/audit
+export const auditLogQuerySchema = Joi.object({
+  actorId: Joi.string().optional(),
+  action: Joi.string().max(100).optional(),
+  resourceType: Joi.string().max(100).optional(),
+  resourceId: Joi.string().optional(),
+  brokerId: Joi.string().optional(),
+  outcome: Joi.string().valid('success', 'denied', 'failure').optional(),
+  correlationId: Joi.string().optional(),
+  from: Joi.date().iso().optional().messages({
+    'date.format': 'From must be an ISO date',
+  }),
+  to: Joi.date().iso().min(Joi.ref('from')).optional().messages({
+    'date.format': 'To must be an ISO date',
+    'date.min': 'To must be after from',
+  }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_AUDIT_LOG_LIMIT)
+    .default(100)
+    .messages({
+      'number.max': `Limit cannot exceed ${MAX_AUDIT_LOG_LIMIT}`,
+    }),
+  offset: Joi.number().integer().min(0).default(0),
+});
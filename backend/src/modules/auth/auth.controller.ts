@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { AuthService } from './auth.service';
 import { authLogger } from '../../services/logger.service';
+import { UnauthorizedError } from '../../common/errors';
 import { 
   RegisterDto, 
   LoginDto, 
@@ -50,29 +51,19 @@ export class AuthController {
         success: false,
         reason: (error as Error).message
       });
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Registration failed',
-      });
+      throw error;
     }
   };
 
   login = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const loginData: LoginDto = req.body;
-      const result = await this.authService.login(loginData);
-
-      res.status(200).json({
-        success: true,
-        message: 'Login successful',
-        data: result,
-      });
-    } catch (error) {
-      res.status(401).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Login failed',
-      });
-    }
+    const loginData: LoginDto = req.body;
+    const result = await this.authService.login(loginData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: result,
+    });
   };
 
   logout = async (req: Request, res: Response): Promise<void> => {
@@ -85,11 +76,7 @@ export class AuthController {
       const accessToken = req.headers.authorization?.replace('Bearer ', '') || '';
       
       if (!user) {
-        res.status(401).json({
-          success: false,
-          message: 'User not authenticated',
-        });
-        return;
+        throw new UnauthorizedError('User not authenticated');
       }
 
       logger.info('User logout attempt', {
@@ -121,10 +108,7 @@ export class AuthController {
         operation: 'logout'
       });
       
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Logout failed',
-      });
+      throw error;
     }
   };
 
@@ -137,11 +121,7 @@ export class AuthController {
       const userId = (req as any).user?.id;
 
       if (!userId) {
-        res.status(401).json({
-          success: false,
-          message: 'User not authenticated',
-        });
-        return;
+        throw new UnauthorizedError('User not authenticated');
       }
 
       logger.debug('Getting user context', {
@@ -169,45 +149,28 @@ export class AuthController {
         operation: 'get_me_context'
       });
       
-      res.status(404).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'User not found',
-      });
+      throw error;
     }
   };
 
   forgotPassword = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const forgotPasswordData: ForgotPasswordDto = req.body;
-      await this.authService.forgotPassword(forgotPasswordData);
+    const forgotPasswordData: ForgotPasswordDto = req.body;
+    await this.authService.forgotPassword(forgotPasswordData);
 
-      res.status(200).json({
-        success: true,
-        message: 'Password reset email sent successfully',
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to send password reset email',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: 'Password reset email sent successfully',
+    });
   };
 
   resetPassword = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const resetPasswordData: ResetPasswordDto = req.body;
-      await this.authService.resetPassword(resetPasswordData);
+    const resetPasswordData: ResetPasswordDto = req.body;
+    await this.authService.resetPassword(resetPasswordData);
 
-      res.status(200).json({
-        success: true,
-        message: 'Password reset successfully',
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to reset password',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully',
+    });
   };
 
   changePassword = async (req: Request, res: Response): Promise<void> => {
@@ -225,11 +188,7 @@ export class AuthController {
           operation: 'change_password'
         });
         
-        res.status(401).json({
-          success: false,
-          message: 'User not authenticated',
-        });
-        return;
+        throw new UnauthorizedError('User not authenticated');
       }
 
       logger.info('Password change attempt initiated', {
@@ -276,15 +235,7 @@ export class AuthController {
         reason: error instanceof Error ? error.message : 'unknown_error'
       });
       
-      // Provide specific error status codes based on error type
-      const isAuthError = error instanceof Error && 
-        (error.message.includes('Current password is incorrect') || 
-         error.message.includes('User not found'));
-      
-      res.status(isAuthError ? 401 : 400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to change password',
-      });
+      throw error;
     }
   };
 
@@ -303,11 +254,7 @@ export class AuthController {
           operation: 'update_profile'
         });
         
-        res.status(401).json({
-          success: false,
-          message: 'User not authenticated',
-        });
-        return;
+        throw new UnauthorizedError('User not authenticated');
       }
 
       const updateProfileData: UpdateProfileDto = req.body;
@@ -358,33 +305,19 @@ export class AuthController {
         reason: error instanceof Error ? error.message : 'unknown_error'
       });
       
-      // Provide specific error status codes based on error type
-      const isNotFoundError = error instanceof Error && 
-        error.message.includes('not found');
-      
-      res.status(isNotFoundError ? 404 : 400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to update profile',
-      });
+      throw error;
     }
   };
 
   refreshToken = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const refreshTokenData: RefreshTokenDto = req.body;
-      const result = await this.authService.refreshToken(refreshTokenData);
-
-      res.status(200).json({
-        success: true,
-        message: 'Token refreshed successfully',
-        data: result,
-      });
-    } catch (error) {
-      res.status(401).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to refresh token',
-      });
-    }
+    const refreshTokenData: RefreshTokenDto = req.body;
+    const result = await this.authService.refreshToken(refreshTokenData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: result,
+    });
   };
 
   changeEmail = async (req: Request, res: Response): Promise<void> => {
@@ -402,11 +335,7 @@ export class AuthController {
           operation: 'change_email'
         });
         
-        res.status(401).json({
-          success: false,
-          message: 'User not authenticated',
-        });
-        return;
+        throw new UnauthorizedError('User not authenticated');
       }
 
       const changeEmailData: ChangeEmailDto = req.body;
@@ -457,22 +386,7 @@ export class AuthController {
         reason: error instanceof Error ? error.message : 'unknown_error'
       });
       
-      // Provide specific error status codes based on error type
-      const isAuthError = error instanceof Error && 
-        (error.message.includes('Current password is incorrect') || 
-         error.message.includes('User not found'));
-      
-      const isConflictError = error instanceof Error && 
-        error.message.includes('already in use');
-      
-      let statusCode = 400;
-      if (isAuthError) statusCode = 401;
-      else if (isConflictError) statusCode = 409;
-      
-      res.status(statusCode).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to update email address',
-      });
+      throw error;
     }
   };
 }
\ No newline at end of file
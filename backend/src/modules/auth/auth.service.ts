@@ -1,8 +1,12 @@
+import { Prisma } from '@prisma/client';
 import { supabase, supabaseAdmin } from '../../config/supabase';
 import { prisma } from '../../config/database';
+import { cache, CACHE_NAMESPACES, tokenCacheKey } from '../../config/cache';
 import { authLogger } from '../../services/logger.service';
 import { UserRoleService } from '../../services/userRole.service';
 import { PermissionService } from '../../services/permission.service';
+import { BrokerHierarchyService } from '../../services/brokerHierarchy.service';
+import { AuditService } from '../../services/audit.service';
 import { 
   RegisterDto, 
   LoginDto, 
@@ -14,14 +18,26 @@ import {
   RefreshTokenDto,
   ChangeEmailDto
 } from './dto/auth.dto';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../../common/errors';
 
 export class AuthService {
   private userRoleService: UserRoleService;
   private permissionService: PermissionService;
+  private brokerHierarchyService: BrokerHierarchyService;
+  private auditService: AuditService;
 
   constructor() {
     this.userRoleService = new UserRoleService();
     this.permissionService = new PermissionService();
+    this.brokerHierarchyService = new BrokerHierarchyService();
+    this.auditService = new AuditService();
   }
 
   async register(data: RegisterDto): Promise<AuthResponse> {
@@ -34,7 +50,7 @@ export class AuthService {
     });
 
     if (authError || !authData.user) {
-      throw new Error(authError?.message || 'Failed to create user');
+      throw new BadRequestError(authError?.message || 'Failed to create user', 'REGISTRATION_FAILED');
     }
 
     // CRITICAL: Validate JWT token integrity to prevent corruption bugs
@@ -56,7 +72,7 @@ export class AuthService {
           
           // Clean up the corrupted user immediately
           await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-          throw new Error('Registration failed due to authentication system error. Please try again.');
+          throw new AppError('Registration failed due to authentication system error. Please try again.');
         }
         
         authLogger.debug('JWT token validation passed', {
@@ -74,7 +90,7 @@ export class AuthService {
         
         // Clean up the user if validation fails
         await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-        throw new Error('Registration failed due to authentication system error. Please try again.');
+        throw new AppError('Registration failed due to authentication system error. Please try again.');
       }
     }
 
@@ -92,8 +108,10 @@ export class AuthService {
         });
         
         // Create new broker
+        const placement = await this.brokerHierarchyService.getBrokerPlacement(null, tx);
         const newBroker = await tx.broker.create({
           data: { 
+            ...placement,
             name: brokerName,
             description: brokerDescription || null,
           },
@@ -215,6 +233,14 @@ export class AuthService {
       // If profile creation fails, delete the auth user
       await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
       
+      // Typed errors and duplicates (cedula/RUC, broker name) are reported as is
+      if (
+        dbError instanceof AppError ||
+        dbError instanceof Prisma.PrismaClientKnownRequestError
+      ) {
+        throw dbError;
+      }
+
       // Re-throw with more specific error info
       if (dbError instanceof Error) {
         throw new Error(`Failed to create user profile: ${dbError.message}`);
@@ -233,7 +259,15 @@ export class AuthService {
     });
 
     if (authError || !authData.user || !authData.session) {
-      throw new Error(authError?.message || 'Invalid credentials');
+      await this.auditService.record({
+        action: 'auth.login',
+        resourceType: 'session',
+        outcome: 'failure',
+        actorId: null,
+        brokerId: null,
+        metadata: { email, reason: authError?.message || 'Invalid credentials' },
+      });
+      throw new UnauthorizedError(authError?.message || 'Invalid credentials', 'INVALID_CREDENTIALS');
     }
 
     // Get user profile with broker information
@@ -245,11 +279,19 @@ export class AuthService {
     });
 
     if (!profile) {
-      throw new Error('User profile not found');
+      throw new UnauthorizedError('User profile not found', 'PROFILE_NOT_FOUND');
     }
 
     if (!profile.isActive) {
-      throw new Error('User account is deactivated');
+      await this.auditService.record({
+        action: 'auth.login',
+        resourceType: 'session',
+        outcome: 'denied',
+        actorId: profile.id,
+        brokerId: profile.brokerId,
+        metadata: { email, reason: 'User account is deactivated' },
+      });
+      throw new ForbiddenError('User account is deactivated', 'ACCOUNT_DEACTIVATED');
     }
 
     // Get user roles and permissions for complete auth context
@@ -264,6 +306,14 @@ export class AuthService {
       permissionsCount: userPermissionsResult.permissions.length
     });
 
+    await this.auditService.record({
+      action: 'auth.login',
+      resourceType: 'session',
+      actorId: profile.id,
+      brokerId: profile.brokerId,
+      metadata: { email },
+    });
+
     return {
       user: {
         id: profile.id,
@@ -311,12 +361,14 @@ export class AuthService {
           userId,
           operation: 'supabase_signout'
         });
-        throw new Error('Failed to logout from authentication service');
+        throw new AppError('Failed to logout from authentication service');
       }
       
+      // Stop accepting the cached verification of this token
+      await cache.invalidate(CACHE_NAMESPACES.tokens, tokenCacheKey(accessToken));
+      
       // Additional cleanup could be added here:
       // - Invalidate refresh tokens in database
-      // - Clear session-related data
       // - Notify other services of logout
       
       authLogger.debug('Logout completed successfully', {
@@ -339,7 +391,7 @@ export class AuthService {
     });
 
     if (!profile) {
-      throw new Error('User profile not found');
+      throw new NotFoundError('User profile not found');
     }
 
     return {
@@ -363,11 +415,11 @@ export class AuthService {
     });
 
     if (!profile) {
-      throw new Error('User profile not found');
+      throw new NotFoundError('User profile not found');
     }
 
     if (!profile.isActive) {
-      throw new Error('User account is deactivated');
+      throw new ForbiddenError('User account is deactivated', 'ACCOUNT_DEACTIVATED');
     }
 
     // Get user roles and permissions for complete auth context
@@ -413,7 +465,7 @@ export class AuthService {
     });
 
     if (error) {
-      throw new Error('Failed to send password reset email');
+      throw new AppError('Failed to send password reset email');
     }
   }
 
@@ -437,7 +489,7 @@ export class AuthService {
           hasTokenHash: !!token_hash,
           operation: 'token_verification'
         });
-        throw new Error('Invalid or expired reset token');
+        throw new BadRequestError('Invalid or expired reset token', 'INVALID_RESET_TOKEN');
       }
 
       authLogger.debug('Token verified successfully', {
@@ -456,7 +508,7 @@ export class AuthService {
           userId: verifyData.user.id,
           operation: 'password_update'
         });
-        throw new Error('Failed to update password');
+        throw new AppError('Failed to update password');
       }
 
       authLogger.info('Password reset completed successfully', {
@@ -506,7 +558,7 @@ export class AuthService {
           userId,
           operation: 'profile_lookup'
         });
-        throw new Error('User not found');
+        throw new NotFoundError('User not found');
       }
 
       authLogger.debug('User profile retrieved for password change', {
@@ -523,7 +575,7 @@ export class AuthService {
           userId,
           operation: 'supabase_user_lookup'
         });
-        throw new Error('User not found in authentication system');
+        throw new NotFoundError('User not found in authentication system');
       }
 
       authLogger.debug('Supabase user data retrieved', {
@@ -551,7 +603,7 @@ export class AuthService {
           errorCode: signInError.message,
           operation: 'password_verification_failed'
         });
-        throw new Error('Current password is incorrect');
+        throw new UnauthorizedError('Current password is incorrect', 'INVALID_PASSWORD');
       }
 
       authLogger.debug('Current password verified successfully', {
@@ -566,7 +618,7 @@ export class AuthService {
           passwordLength: newPassword.length,
           operation: 'password_strength_check'
         });
-        throw new Error('New password must be at least 8 characters long');
+        throw new BadRequestError('New password must be at least 8 characters long');
       }
 
       // Update password using Supabase admin
@@ -584,7 +636,7 @@ export class AuthService {
           userId,
           operation: 'password_update_failed'
         });
-        throw new Error('Failed to update password');
+        throw new AppError('Failed to update password');
       }
 
       authLogger.info('Password change completed successfully', {
@@ -629,7 +681,7 @@ export class AuthService {
           userId,
           operation: 'profile_lookup'
         });
-        throw new Error('User profile not found');
+        throw new NotFoundError('User profile not found');
       }
 
       if (!existingProfile.isActive) {
@@ -637,7 +689,7 @@ export class AuthService {
           userId,
           operation: 'profile_active_check'
         });
-        throw new Error('Cannot update profile for inactive user');
+        throw new ForbiddenError('Cannot update profile for inactive user', 'ACCOUNT_DEACTIVATED');
       }
 
       authLogger.debug('Existing profile retrieved for update', {
@@ -664,13 +716,13 @@ export class AuthService {
 
       // Additional validation
       if (firstName && firstName.trim().length === 0) {
-        throw new Error('First name cannot be empty');
+        throw new BadRequestError('First name cannot be empty');
       }
       if (lastName && lastName.trim().length === 0) {
-        throw new Error('Last name cannot be empty');
+        throw new BadRequestError('Last name cannot be empty');
       }
       if (phone && phone.trim().length > 0 && phone.trim().length < 8) {
-        throw new Error('Phone number must be at least 8 characters');
+        throw new BadRequestError('Phone number must be at least 8 characters');
       }
 
       // Update the profile
@@ -724,7 +776,7 @@ export class AuthService {
     });
 
     if (error || !refreshData.session || !refreshData.user) {
-      throw new Error('Invalid or expired refresh token');
+      throw new UnauthorizedError('Invalid or expired refresh token', 'TOKEN_INVALID');
     }
 
     // Get user profile with broker information
@@ -736,7 +788,7 @@ export class AuthService {
     });
 
     if (!profile) {
-      throw new Error('User profile not found');
+      throw new UnauthorizedError('User profile not found', 'PROFILE_NOT_FOUND');
     }
 
     // Get user roles and permissions for complete auth context
@@ -794,7 +846,7 @@ export class AuthService {
           userId,
           operation: 'profile_lookup'
         });
-        throw new Error('User profile not found');
+        throw new NotFoundError('User profile not found');
       }
 
       if (!existingProfile.isActive) {
@@ -802,7 +854,7 @@ export class AuthService {
           userId,
           operation: 'profile_active_check'
         });
-        throw new Error('Cannot change email for inactive user');
+        throw new ForbiddenError('Cannot change email for inactive user', 'ACCOUNT_DEACTIVATED');
       }
 
       authLogger.debug('User profile verified for email change', {
@@ -824,7 +876,7 @@ export class AuthService {
           userId,
           operation: 'supabase_user_lookup'
         });
-        throw new Error('User not found in authentication system');
+        throw new NotFoundError('User not found in authentication system');
       }
 
       const currentEmail = userData.user.email;
@@ -843,7 +895,7 @@ export class AuthService {
           email: currentEmail,
           operation: 'same_email_check'
         });
-        throw new Error('New email must be different from current email');
+        throw new BadRequestError('New email must be different from current email');
       }
 
       // Check if new email is already in use by another user
@@ -861,7 +913,7 @@ export class AuthService {
           newEmail,
           operation: 'email_conflict_check'
         });
-        throw new Error('Failed to verify email availability');
+        throw new AppError('Failed to verify email availability');
       }
 
       const emailExists = existingUser.users.some(
@@ -874,7 +926,7 @@ export class AuthService {
           newEmail,
           operation: 'email_conflict_detected'
         });
-        throw new Error('Email address is already in use by another account');
+        throw new ConflictError('Email address is already in use by another account', 'EMAIL_IN_USE');
       }
 
       authLogger.debug('Email availability verified', {
@@ -902,7 +954,7 @@ export class AuthService {
           errorCode: signInError.message,
           operation: 'password_verification_failed'
         });
-        throw new Error('Current password is incorrect');
+        throw new UnauthorizedError('Current password is incorrect', 'INVALID_PASSWORD');
       }
 
       authLogger.debug('Password verified successfully for email change', {
@@ -929,7 +981,7 @@ export class AuthService {
           newEmail,
           operation: 'email_update_failed'
         });
-        throw new Error('Failed to update email address');
+        throw new AppError('Failed to update email address');
       }
 
       authLogger.info('Email change completed successfully', {
@@ -945,6 +997,15 @@ export class AuthService {
         success: true
       });
 
+      await this.auditService.record({
+        action: 'user.email_change',
+        resourceType: 'user',
+        resourceId: userId,
+        actorId: userId,
+        brokerId: existingProfile.brokerId,
+        metadata: { oldEmail: currentEmail, newEmail },
+      });
+
     } catch (error) {
       authLogger.error('Email change process failed', error as Error, {
         userId,
@@ -1,4 +1,4 @@
-import Joi from 'joi';
+import Joi from '../../../common/joi';
 
 // Schema for RegisterDto
 export const registerSchema = Joi.object({
@@ -16,7 +16,7 @@ export const registerSchema = Joi.object({
   lastName: Joi.string().required().messages({
     'any.required': 'Last name is required',
   }),
-  cedulaRuc: Joi.string().required().messages({
+  cedulaRuc: Joi.cedulaRuc().required().messages({
     'any.required': 'Cedula/RUC is required',
   }),
   phone: Joi.string().optional().allow(''),
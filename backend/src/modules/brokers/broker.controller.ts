@@ -0,0 +1,130 @@
+import { Response } from 'express';
+import { BrokerService } from './broker.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import { validateBrokerAccess } from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import {
+  CreateBrokerDto,
+  MoveBrokerDto,
+  UpdateBrokerDto,
+} from './dto/broker.dto';
+
+export class BrokerController {
+  private brokerService: BrokerService;
+
+  constructor() {
+    this.brokerService = new BrokerService();
+  }
+
+  getBrokerTree = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const rootId =
+      (req.query.rootId as string | undefined) ??
+      req.brokerContext!.userBrokerId!;
+
+    if (!validateBrokerAccess(req, rootId)) {
+      throw new ForbiddenError('Access denied. You cannot view this broker.');
+    }
+
+    const tree = await this.brokerService.getBrokerTree(rootId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Broker tree retrieved successfully',
+      data: { tree },
+    });
+  };
+
+  getBrokerById = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as
+      | string[]
+      | undefined;
+
+    const broker = await this.brokerService.getBrokerById(
+      id,
+      allowedBrokerIds ?? []
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Broker retrieved successfully',
+      data: { broker },
+    });
+  };
+
+  createBroker = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const brokerData: CreateBrokerDto = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as
+      | string[]
+      | undefined;
+
+    const broker = await this.brokerService.createBroker(
+      brokerData,
+      brokerData.parentId ?? req.brokerContext!.userBrokerId!,
+      allowedBrokerIds ?? []
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Broker created successfully',
+      data: { broker },
+    });
+  };
+
+  updateBroker = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateBrokerDto = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as
+      | string[]
+      | undefined;
+
+    const broker = await this.brokerService.updateBroker(
+      id,
+      updateData,
+      req.brokerContext!.userBrokerId!,
+      allowedBrokerIds ?? []
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Broker updated successfully',
+      data: { broker },
+    });
+  };
+
+  moveBroker = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const moveData: MoveBrokerDto = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as
+      | string[]
+      | undefined;
+
+    const broker = await this.brokerService.moveBroker(
+      id,
+      moveData,
+      req.brokerContext!.userBrokerId!,
+      allowedBrokerIds ?? []
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Broker moved successfully',
+      data: { broker },
+    });
+  };
+}
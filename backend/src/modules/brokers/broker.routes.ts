@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { BrokerController } from './broker.controller';
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../common/middlewares/auth.middleware';
+import { requireBrokerAccess } from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createBrokerSchema,
+  updateBrokerSchema,
+  moveBrokerSchema,
+  brokerTreeQuerySchema,
+  brokerIdParamSchema,
+} from './validation/broker.schemas';
+
+const router = Router();
+const brokerController = new BrokerController();
+
+const validateUuidParam = validate({ params: brokerIdParamSchema });
+
+// Broker Routes (Broker Isolation Required)
+// Callers manage their own broker and the sub-brokers below it
+router.get(
+  '/tree',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  requirePermission('brokers:read'),
+  validate({ query: brokerTreeQuerySchema }),
+  brokerController.getBrokerTree
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  requirePermission('brokers:read'),
+  validateUuidParam,
+  brokerController.getBrokerById
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  requirePermission('brokers:create'),
+  validateRequest(createBrokerSchema),
+  brokerController.createBroker
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  requirePermission('brokers:update'),
+  validateUuidParam,
+  validateRequest(updateBrokerSchema),
+  brokerController.updateBroker
+);
+
+router.patch(
+  '/:id/parent',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  requirePermission('brokers:update'),
+  validateUuidParam,
+  validateRequest(moveBrokerSchema),
+  brokerController.moveBroker
+);
+
+export default router;
@@ -0,0 +1,282 @@
+import { prisma } from '../../config/database';
+import { brokerLogger } from '../../services/logger.service';
+import { BrokerHierarchyService } from '../../services/brokerHierarchy.service';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../common/errors';
+import {
+  BrokerTreeNode,
+  CreateBrokerDto,
+  MoveBrokerDto,
+  UpdateBrokerDto,
+} from './dto/broker.dto';
+
+const brokerSelect = {
+  id: true,
+  name: true,
+  description: true,
+  parentId: true,
+  logoUrl: true,
+  invitationQuota: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export class BrokerService {
+  private brokerHierarchyService: BrokerHierarchyService;
+
+  constructor() {
+    this.brokerHierarchyService = new BrokerHierarchyService();
+  }
+
+  /**
+   * Nested view of a broker and all of its descendants
+   */
+  async getBrokerTree(rootBrokerId: string): Promise<BrokerTreeNode> {
+    const brokerIds =
+      await this.brokerHierarchyService.getDescendantBrokerIds(rootBrokerId);
+
+    const brokers = await prisma.broker.findMany({
+      where: { id: { in: brokerIds } },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        parentId: true,
+        logoUrl: true,
+        _count: {
+          select: { profiles: true, clients: true, policies: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const nodes = new Map<string, BrokerTreeNode>(
+      brokers.map(({ _count, ...broker }) => [
+        broker.id,
+        { ...broker, counts: _count, children: [] },
+      ])
+    );
+
+    nodes.forEach(node => {
+      if (node.id !== rootBrokerId && node.parentId) {
+        nodes.get(node.parentId)?.children.push(node);
+      }
+    });
+
+    const root = nodes.get(rootBrokerId);
+    if (!root) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    brokerLogger.debug('Broker tree retrieved', {
+      rootBrokerId,
+      brokerCount: nodes.size,
+      operation: 'get_broker_tree',
+    });
+
+    return root;
+  }
+
+  /**
+   * Broker details with its position in the hierarchy
+   * Brokers outside the caller's hierarchy are reported as not found
+   */
+  async getBrokerById(id: string, allowedBrokerIds: string[]) {
+    this.ensureAccessible(id, allowedBrokerIds);
+
+    const broker = await prisma.broker.findUnique({
+      where: { id },
+      select: brokerSelect,
+    });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    const hierarchyInfo =
+      await this.brokerHierarchyService.getBrokerHierarchyInfo(id);
+
+    return {
+      ...broker,
+      parent: hierarchyInfo.parent,
+      children: hierarchyInfo.directChildren,
+      hierarchyStats: hierarchyInfo.hierarchyStats,
+    };
+  }
+
+  /**
+   * Create a sub-broker under one of the caller's brokers
+   */
+  async createBroker(
+    data: CreateBrokerDto,
+    parentId: string,
+    allowedBrokerIds: string[]
+  ) {
+    const { name, description, logoUrl } = data;
+
+    if (!allowedBrokerIds.includes(parentId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot create brokers under this broker.'
+      );
+    }
+
+    await this.ensureUniqueName(name);
+
+    const broker = await prisma.$transaction(async tx => {
+      const placement = await this.brokerHierarchyService.getBrokerPlacement(
+        parentId,
+        tx
+      );
+
+      return tx.broker.create({
+        data: {
+          ...placement,
+          name,
+          description: description || null,
+          logoUrl: logoUrl || null,
+        },
+        select: brokerSelect,
+      });
+    });
+
+    await this.brokerHierarchyService.invalidateBrokerContexts();
+
+    brokerLogger.info('Broker created successfully', {
+      brokerId: broker.id,
+      parentId,
+      operation: 'create_broker_success',
+    });
+
+    return broker;
+  }
+
+  /**
+   * Update a broker's details
+   * The invitation quota can only be set on sub-brokers, not the caller's own
+   */
+  async updateBroker(
+    id: string,
+    data: UpdateBrokerDto,
+    userBrokerId: string,
+    allowedBrokerIds: string[]
+  ) {
+    this.ensureAccessible(id, allowedBrokerIds);
+    const { name, description, logoUrl, invitationQuota } = data;
+
+    if (invitationQuota !== undefined && id === userBrokerId) {
+      throw new ForbiddenError(
+        'You cannot change the invitation quota of your own broker'
+      );
+    }
+
+    const broker = await prisma.broker.findUnique({ where: { id } });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    if (name && name !== broker.name) {
+      await this.ensureUniqueName(name);
+    }
+
+    const updatedBroker = await prisma.broker.update({
+      where: { id },
+      data: {
+        name,
+        description:
+          description !== undefined ? description || null : undefined,
+        logoUrl: logoUrl !== undefined ? logoUrl || null : undefined,
+        invitationQuota,
+      },
+      select: brokerSelect,
+    });
+
+    brokerLogger.info('Broker updated successfully', {
+      brokerId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_broker_success',
+    });
+
+    return updatedBroker;
+  }
+
+  /**
+   * Re-parent a sub-broker within the caller's hierarchy
+   * The caller's own broker cannot be moved, and cycles are rejected
+   */
+  async moveBroker(
+    id: string,
+    data: MoveBrokerDto,
+    userBrokerId: string,
+    allowedBrokerIds: string[]
+  ) {
+    const { parentId } = data;
+    this.ensureAccessible(id, allowedBrokerIds);
+
+    if (id === userBrokerId) {
+      throw new ForbiddenError('You cannot move your own broker');
+    }
+
+    if (!allowedBrokerIds.includes(parentId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot move brokers under this broker.'
+      );
+    }
+
+    const broker = await prisma.broker.findUnique({ where: { id } });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    if (broker.parentId === parentId) {
+      throw new BadRequestError('The broker is already under this parent');
+    }
+
+    const isValid = await this.brokerHierarchyService.validateNoCycles(
+      parentId,
+      id
+    );
+
+    if (!isValid) {
+      throw new ConflictError(
+        'A broker cannot be moved under itself or one of its sub-brokers'
+      );
+    }
+
+    await this.brokerHierarchyService.moveBroker(id, parentId);
+    const movedBroker = await prisma.broker.findUniqueOrThrow({
+      where: { id },
+      select: brokerSelect,
+    });
+
+    brokerLogger.info('Broker moved successfully', {
+      brokerId: id,
+      fromParentId: broker.parentId,
+      toParentId: parentId,
+      operation: 'move_broker_success',
+    });
+
+    return movedBroker;
+  }
+
+  private ensureAccessible(id: string, allowedBrokerIds: string[]) {
+    if (!allowedBrokerIds.includes(id)) {
+      throw new NotFoundError('Broker not found');
+    }
+  }
+
+  private async ensureUniqueName(name: string) {
+    const existingBroker = await prisma.broker.findUnique({
+      where: { name },
+    });
+
+    if (existingBroker) {
+      throw new ConflictError('A broker with this name already exists');
+    }
+  }
+}
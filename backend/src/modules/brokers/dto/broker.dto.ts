@@ -0,0 +1,31 @@
+export interface CreateBrokerDto {
+  name: string;
+  description?: string;
+  parentId?: string; // Defaults to the caller's broker
+  logoUrl?: string;
+}
+
+export interface UpdateBrokerDto {
+  name?: string;
+  description?: string;
+  logoUrl?: string;
+  invitationQuota?: number | null; // null falls back to the default quota
+}
+
+export interface MoveBrokerDto {
+  parentId: string;
+}
+
+export interface BrokerTreeNode {
+  id: string;
+  name: string;
+  description: string | null;
+  parentId: string | null;
+  logoUrl: string | null;
+  counts: {
+    profiles: number;
+    clients: number;
+    policies: number;
+  };
+  children: BrokerTreeNode[];
+}
@@ -0,0 +1,79 @@
+import Joi from 'joi';
+
+// PNG/JPEG data URIs or file names in the PDF logo directory only
+const logoUrlSchema = Joi.string()
+  .allow('')
+  .max(100000)
+  .pattern(
+    /^(data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}|[\w-]+\.(png|jpe?g))$/
+  )
+  .messages({
+    'string.max': 'Logo cannot exceed 100000 characters',
+    'string.pattern.base':
+      'Logo must be a PNG/JPEG data URI or a logo file name such as logo.png',
+  });
+
+export const createBrokerSchema = Joi.object({
+  name: Joi.string().trim().required().min(2).max(100).messages({
+    'any.required': 'Broker name is required',
+    'string.empty': 'Broker name cannot be empty',
+    'string.min': 'Broker name must be at least 2 characters',
+    'string.max': 'Broker name cannot exceed 100 characters',
+  }),
+  description: Joi.string().optional().allow('').max(500).messages({
+    'string.max': 'Description cannot exceed 500 characters',
+  }),
+  parentId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Parent broker ID must be a valid UUID',
+  }),
+  logoUrl: logoUrlSchema.optional(),
+});
+
+export const updateBrokerSchema = Joi.object({
+  name: Joi.string().trim().optional().min(2).max(100).messages({
+    'string.empty': 'Broker name cannot be empty',
+    'string.min': 'Broker name must be at least 2 characters',
+    'string.max': 'Broker name cannot exceed 100 characters',
+  }),
+  description: Joi.string().optional().allow('').max(500).messages({
+    'string.max': 'Description cannot exceed 500 characters',
+  }),
+  logoUrl: logoUrlSchema.optional(),
+  invitationQuota: Joi.number()
+    .integer()
+    .min(0)
+    .max(10000)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.base': 'Invitation quota must be a number',
+      'number.integer': 'Invitation quota must be a whole number',
+      'number.min': 'Invitation quota cannot be negative',
+      'number.max': 'Invitation quota cannot exceed 10000',
+    }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const moveBrokerSchema = Joi.object({
+  parentId: Joi.string().uuid().required().messages({
+    'any.required': 'Parent broker ID is required',
+    'string.guid': 'Parent broker ID must be a valid UUID',
+  }),
+});
+
+export const brokerIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+    'any.required': 'Broker ID is required',
+  }),
+});
+
+// Query parameters of GET /api/brokers/tree, rooted at the caller's broker by default
+export const brokerTreeQuerySchema = Joi.object({
+  rootId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Root broker ID must be a valid UUID',
+  }),
+});
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { ClientService } from './client.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import {
+  ClientListFilters,
+  CreateClientDto,
+  UpdateClientDto,
+} from './dto/client.dto';
+
+export class ClientController {
+  private clientService: ClientService;
+
+  constructor() {
+    this.clientService = new ClientService();
+  }
+
+  getClients = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const brokerFilter = getBrokerFilter(req);
+    const filters = req.query as unknown as ClientListFilters;
+
+    const clients = await this.clientService.getClients(brokerFilter, filters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Clients retrieved successfully',
+      data: { clients },
+    });
+  };
+
+  getClientById = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const client = await this.clientService.getClientById(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Client retrieved successfully',
+      data: { client },
+    });
+  };
+
+  createClient = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const clientData: CreateClientDto = req.body;
+    const brokerId =
+      clientData.brokerId || req.brokerContext?.userBrokerId || undefined;
+
+    if (!brokerId || !validateBrokerAccess(req, brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot create clients for this broker.'
+      );
+    }
+
+    const client = await this.clientService.createClient(clientData, brokerId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Client created successfully',
+      data: { client },
+    });
+  };
+
+  updateClient = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateClientDto = req.body;
+
+    // Moving a client is only allowed into a broker the caller can access
+    if (
+      updateData.brokerId &&
+      !validateBrokerAccess(req, updateData.brokerId)
+    ) {
+      throw new ForbiddenError(
+        'Access denied. You cannot move clients to this broker.'
+      );
+    }
+
+    const client = await this.clientService.updateClient(
+      id,
+      updateData,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Client updated successfully',
+      data: { client },
+    });
+  };
+
+  deleteClient = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const result = await this.clientService.deleteClient(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  };
+}
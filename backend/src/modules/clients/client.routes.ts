@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { ClientController } from './client.controller';
+import {
+  authMiddleware,
+  requirePermission,
+  requireAnyPermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createClientSchema,
+  updateClientSchema,
+  listClientsQuerySchema,
+  clientIdParamSchema,
+} from './validation/client.schemas';
+
+const router = Router();
+const clientController = new ClientController();
+
+const validateUuidParam = validate({ params: clientIdParamSchema });
+
+// Client Routes (Broker Isolation Required)
+// Agents are narrowed to their own broker, admins and employees see their hierarchy
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['clients:read', 'clients:read:own']),
+  validate({ query: listClientsQuerySchema }),
+  clientController.getClients
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['clients:read', 'clients:read:own']),
+  validateUuidParam,
+  clientController.getClientById
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('clients:create'),
+  validateRequest(createClientSchema),
+  clientController.createClient
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['clients:update', 'clients:update:own']),
+  validateUuidParam,
+  validateRequest(updateClientSchema),
+  clientController.updateClient
+);
+
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('clients:delete'),
+  validateUuidParam,
+  clientController.deleteClient
+);
+
+export default router;
@@ -0,0 +1,204 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { clientLogger } from '../../services/logger.service';
+import { ConflictError, NotFoundError } from '../../common/errors';
+import { detectDocumentType } from '../../common/identification';
+import {
+  CreateClientDto,
+  UpdateClientDto,
+  ClientListFilters,
+} from './dto/client.dto';
+
+const clientInclude = {
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.ClientInclude;
+
+export class ClientService {
+  /**
+   * List clients visible through the given broker filter
+   * The filter comes from getBrokerFilter() so agents only see their own broker
+   */
+  async getClients(
+    brokerFilter: Prisma.ClientWhereInput,
+    filters: ClientListFilters = {}
+  ) {
+    const { search, brokerId } = filters;
+
+    const where: Prisma.ClientWhereInput = {
+      AND: [
+        brokerFilter,
+        brokerId ? { brokerId } : {},
+        search
+          ? {
+              OR: [
+                { firstName: { contains: search, mode: 'insensitive' } },
+                { lastName: { contains: search, mode: 'insensitive' } },
+                { cedulaRuc: { contains: search } },
+                { email: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const clients = await prisma.client.findMany({
+      where,
+      include: clientInclude,
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+    });
+
+    clientLogger.debug('Clients retrieved', {
+      count: clients.length,
+      hasSearch: !!search,
+      brokerId,
+      operation: 'get_clients',
+    });
+
+    return clients;
+  }
+
+  /**
+   * Get a single client, scoped by broker filter
+   * Clients outside the caller's brokers are reported as not found
+   */
+  async getClientById(id: string, brokerFilter: Prisma.ClientWhereInput) {
+    const client = await prisma.client.findFirst({
+      where: { AND: [{ id }, brokerFilter] },
+      include: clientInclude,
+    });
+
+    if (!client) {
+      throw new NotFoundError('Client not found');
+    }
+
+    return client;
+  }
+
+  /**
+   * Create a client in the given broker
+   * The caller must have already validated access to brokerId
+   */
+  async createClient(data: CreateClientDto, brokerId: string) {
+    const {
+      firstName,
+      lastName,
+      cedulaRuc,
+      email,
+      phone,
+      birthDate,
+      province,
+    } = data;
+
+    const existingClient = await prisma.client.findUnique({
+      where: { cedulaRuc },
+    });
+
+    if (existingClient) {
+      clientLogger.warn('Client creation failed - cedula/RUC already exists', {
+        cedulaRuc,
+        brokerId,
+        operation: 'create_client_validation',
+      });
+      throw new ConflictError('A client with this Cedula/RUC already exists');
+    }
+
+    const client = await prisma.client.create({
+      data: {
+        brokerId,
+        firstName,
+        lastName,
+        cedulaRuc,
+        documentType: detectDocumentType(cedulaRuc),
+        email: email || null,
+        phone: phone || null,
+        birthDate: birthDate ?? null,
+        province: province || null,
+      },
+      include: clientInclude,
+    });
+
+    clientLogger.info('Client created successfully', {
+      clientId: client.id,
+      brokerId,
+      operation: 'create_client_success',
+    });
+
+    return client;
+  }
+
+  async updateClient(
+    id: string,
+    data: UpdateClientDto,
+    brokerFilter: Prisma.ClientWhereInput
+  ) {
+    const client = await this.getClientById(id, brokerFilter);
+    const {
+      firstName,
+      lastName,
+      cedulaRuc,
+      email,
+      phone,
+      birthDate,
+      province,
+      brokerId,
+    } = data;
+
+    // If changing cedula/RUC, make sure it is not taken by another client
+    if (cedulaRuc && cedulaRuc !== client.cedulaRuc) {
+      const existingClient = await prisma.client.findUnique({
+        where: { cedulaRuc },
+      });
+
+      if (existingClient) {
+        throw new ConflictError('A client with this Cedula/RUC already exists');
+      }
+    }
+
+    const updatedClient = await prisma.client.update({
+      where: { id },
+      data: {
+        firstName,
+        lastName,
+        cedulaRuc,
+        documentType: cedulaRuc ? detectDocumentType(cedulaRuc) : undefined,
+        email: email !== undefined ? email || null : undefined,
+        phone: phone !== undefined ? phone || null : undefined,
+        birthDate,
+        province,
+        brokerId,
+      },
+      include: clientInclude,
+    });
+
+    clientLogger.info('Client updated successfully', {
+      clientId: id,
+      changedFields: Object.keys(data),
+      movedToBrokerId:
+        brokerId && brokerId !== client.brokerId ? brokerId : undefined,
+      operation: 'update_client_success',
+    });
+
+    return updatedClient;
+  }
+
+  async deleteClient(id: string, brokerFilter: Prisma.ClientWhereInput) {
+    const client = await this.getClientById(id, brokerFilter);
+
+    await prisma.client.delete({
+      where: { id: client.id },
+    });
+
+    clientLogger.info('Client deleted successfully', {
+      clientId: id,
+      brokerId: client.brokerId,
+      operation: 'delete_client_success',
+    });
+
+    return { message: 'Client deleted successfully' };
+  }
+}
@@ -0,0 +1,47 @@
+import { DocumentType } from '@prisma/client';
+
+export interface CreateClientDto {
+  firstName: string;
+  lastName: string;
+  cedulaRuc: string;
+  email?: string;
+  phone?: string;
+  birthDate?: Date; // Used for age-based rating
+  province?: string; // Province code, see common/provinces
+  brokerId?: string; // Optional: defaults to the caller's own broker
+}
+
+export interface UpdateClientDto {
+  firstName?: string;
+  lastName?: string;
+  cedulaRuc?: string;
+  email?: string;
+  phone?: string;
+  birthDate?: Date;
+  province?: string;
+  brokerId?: string; // Optional: move the client to another accessible broker
+}
+
+export interface ClientListFilters {
+  search?: string;
+  brokerId?: string;
+}
+
+export interface ClientResponseDto {
+  id: string;
+  brokerId: string;
+  firstName: string;
+  lastName: string;
+  cedulaRuc: string;
+  documentType: DocumentType | null;
+  email: string | null;
+  phone: string | null;
+  birthDate: Date | null;
+  province: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  broker: {
+    id: string;
+    name: string;
+  };
+}
@@ -0,0 +1,94 @@
+import Joi from '../../../common/joi';
+import { PROVINCE_CODES } from '../../../common/provinces';
+
+export const createClientSchema = Joi.object({
+  firstName: Joi.string().trim().required().min(1).max(50).messages({
+    'any.required': 'First name is required',
+    'string.empty': 'First name cannot be empty',
+    'string.max': 'First name cannot exceed 50 characters',
+  }),
+  lastName: Joi.string().trim().required().min(1).max(50).messages({
+    'any.required': 'Last name is required',
+    'string.empty': 'Last name cannot be empty',
+    'string.max': 'Last name cannot exceed 50 characters',
+  }),
+  cedulaRuc: Joi.cedulaRuc().required().messages({
+    'any.required': 'Cedula/RUC is required',
+    'string.empty': 'Cedula/RUC cannot be empty',
+  }),
+  email: Joi.string().email().optional().allow('').messages({
+    'string.email': 'Invalid email format',
+  }),
+  phone: Joi.string().optional().allow('').min(8).max(20).messages({
+    'string.min': 'Phone number must be at least 8 characters',
+    'string.max': 'Phone number cannot exceed 20 characters',
+  }),
+  birthDate: Joi.date().iso().less('now').optional().messages({
+    'date.base': 'Birth date must be a valid date',
+    'date.format': 'Birth date must be an ISO date',
+    'date.less': 'Birth date must be in the past',
+  }),
+  province: Joi.string()
+    .valid(...PROVINCE_CODES)
+    .optional()
+    .messages({
+      'any.only': 'Province must be a valid two-digit province code',
+    }),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+});
+
+export const updateClientSchema = Joi.object({
+  firstName: Joi.string().trim().optional().min(1).max(50).messages({
+    'string.empty': 'First name cannot be empty',
+    'string.max': 'First name cannot exceed 50 characters',
+  }),
+  lastName: Joi.string().trim().optional().min(1).max(50).messages({
+    'string.empty': 'Last name cannot be empty',
+    'string.max': 'Last name cannot exceed 50 characters',
+  }),
+  cedulaRuc: Joi.cedulaRuc().optional().messages({
+    'string.empty': 'Cedula/RUC cannot be empty',
+  }),
+  email: Joi.string().email().optional().allow('').messages({
+    'string.email': 'Invalid email format',
+  }),
+  phone: Joi.string().optional().allow('').min(8).max(20).messages({
+    'string.min': 'Phone number must be at least 8 characters',
+    'string.max': 'Phone number cannot exceed 20 characters',
+  }),
+  birthDate: Joi.date().iso().less('now').optional().messages({
+    'date.base': 'Birth date must be a valid date',
+    'date.format': 'Birth date must be an ISO date',
+    'date.less': 'Birth date must be in the past',
+  }),
+  province: Joi.string()
+    .valid(...PROVINCE_CODES)
+    .optional()
+    .messages({
+      'any.only': 'Province must be a valid two-digit province code',
+    }),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const clientIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Client ID must be a valid UUID',
+    'any.required': 'Client ID is required',
+  }),
+});
+
+// Query parameters of GET /api/clients
+export const listClientsQuerySchema = Joi.object({
+  search: Joi.string().trim().max(100).optional().allow(''),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+});
@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { CommissionService } from './commission.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import { validateBrokerAccess } from '../../common/middlewares/brokerIsolation.middleware';
+import { BadRequestError, ForbiddenError } from '../../common/errors';
+import {
+  CreateCommissionRuleDto,
+  UpdateCommissionRuleDto,
+  CommissionRuleListFilters,
+  CommissionStatementQuery,
+} from './dto/commission.dto';
+
+export class CommissionController {
+  private commissionService: CommissionService;
+
+  constructor() {
+    this.commissionService = new CommissionService();
+  }
+
+  getRules = async (req: Request, res: Response): Promise<void> => {
+    const filters = req.query as unknown as CommissionRuleListFilters;
+
+    const rules = await this.commissionService.getRules(filters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission rules retrieved successfully',
+      data: { rules },
+    });
+  };
+
+  getRuleById = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const rule = await this.commissionService.getRuleById(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission rule retrieved successfully',
+      data: { rule },
+    });
+  };
+
+  createRule = async (req: Request, res: Response): Promise<void> => {
+    const ruleData: CreateCommissionRuleDto = req.body;
+    const rule = await this.commissionService.createRule(ruleData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Commission rule created successfully',
+      data: { rule },
+    });
+  };
+
+  updateRule = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateCommissionRuleDto = req.body;
+    const rule = await this.commissionService.updateRule(id, updateData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission rule updated successfully',
+      data: { rule },
+    });
+  };
+
+  deleteRule = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    await this.commissionService.deleteRule(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission rule deleted successfully',
+    });
+  };
+
+  getStatement = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const query = req.query as unknown as CommissionStatementQuery;
+    const brokerId = query.brokerId ?? req.brokerContext?.userBrokerId;
+
+    if (!brokerId) {
+      throw new BadRequestError('Broker ID is required');
+    }
+
+    if (!validateBrokerAccess(req, brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view commissions for this broker.'
+      );
+    }
+
+    const statement = await this.commissionService.getStatement({
+      brokerId,
+      from: query.from,
+      to: query.to,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Commission statement retrieved successfully',
+      data: { statement },
+    });
+  };
+}
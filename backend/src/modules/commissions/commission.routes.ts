@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { CommissionController } from './commission.controller';
+import {
+  authMiddleware,
+  requirePermission,
+  requireAnyPermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createCommissionRuleSchema,
+  updateCommissionRuleSchema,
+  listCommissionRulesQuerySchema,
+  commissionStatementQuerySchema,
+  commissionRuleIdParamSchema,
+} from './validation/commission.schemas';
+
+const router = Router();
+const commissionController = new CommissionController();
+
+const validateUuidParam = validate({ params: commissionRuleIdParamSchema });
+
+// Commission Statement (Broker Isolation Required)
+// Brokers see their own statement and those of their descendants
+router.get(
+  '/statement',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['commissions:read', 'commissions:read:own']),
+  validate({ query: commissionStatementQuerySchema }),
+  commissionController.getStatement
+);
+
+// Commission Rule Routes
+// Rules are agreed with insurers and shared by all brokers
+router.get(
+  '/rules',
+  authMiddleware,
+  requirePermission('commissions:read'),
+  validate({ query: listCommissionRulesQuerySchema }),
+  commissionController.getRules
+);
+
+router.get(
+  '/rules/:id',
+  authMiddleware,
+  requirePermission('commissions:read'),
+  validateUuidParam,
+  commissionController.getRuleById
+);
+
+router.post(
+  '/rules',
+  authMiddleware,
+  requirePermission('commissions:create'),
+  validateRequest(createCommissionRuleSchema),
+  commissionController.createRule
+);
+
+router.put(
+  '/rules/:id',
+  authMiddleware,
+  requirePermission('commissions:update'),
+  validateUuidParam,
+  validateRequest(updateCommissionRuleSchema),
+  commissionController.updateRule
+);
+
+router.delete(
+  '/rules/:id',
+  authMiddleware,
+  requirePermission('commissions:delete'),
+  validateUuidParam,
+  commissionController.deleteRule
+);
+
+export default router;
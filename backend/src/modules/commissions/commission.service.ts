@@ -0,0 +1,297 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { commissionLogger } from '../../services/logger.service';
+import { CommissionEngineService } from '../../services/commissionEngine.service';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../../common/errors';
+import {
+  CreateCommissionRuleDto,
+  UpdateCommissionRuleDto,
+  CommissionRuleListFilters,
+  CommissionStatementFilters,
+} from './dto/commission.dto';
+
+const commissionRuleInclude = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  product: {
+    select: {
+      id: true,
+      name: true,
+      lineOfBusiness: true,
+    },
+  },
+} satisfies Prisma.CommissionRuleInclude;
+
+const statementEntryInclude = {
+  policy: {
+    select: {
+      id: true,
+      policyNumber: true,
+      brokerId: true,
+      status: true,
+      client: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+      insurer: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      product: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.CommissionEntryInclude;
+
+export class CommissionService {
+  private commissionEngine: CommissionEngineService;
+
+  constructor() {
+    this.commissionEngine = new CommissionEngineService();
+  }
+
+  async getRules(filters: CommissionRuleListFilters = {}) {
+    const { insurerId, productId, isActive } = filters;
+
+    const rules = await prisma.commissionRule.findMany({
+      where: {
+        AND: [
+          insurerId ? { insurerId } : {},
+          productId ? { productId } : {},
+          isActive !== undefined ? { isActive } : {},
+        ],
+      },
+      include: commissionRuleInclude,
+      orderBy: [{ insurer: { name: 'asc' } }, { effectiveFrom: 'desc' }],
+    });
+
+    commissionLogger.debug('Commission rules retrieved', {
+      count: rules.length,
+      insurerId,
+      productId,
+      isActive,
+      operation: 'get_commission_rules',
+    });
+
+    return rules;
+  }
+
+  async getRuleById(id: string) {
+    const rule = await prisma.commissionRule.findUnique({
+      where: { id },
+      include: commissionRuleInclude,
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Commission rule not found');
+    }
+
+    return rule;
+  }
+
+  async createRule(data: CreateCommissionRuleDto) {
+    const { insurerId, productId, rate, effectiveFrom, notes } = data;
+    const hierarchySplit = data.hierarchySplit ?? [];
+
+    this.ensureValidHierarchySplit(hierarchySplit);
+
+    const insurer = await prisma.insurer.findUnique({
+      where: { id: insurerId },
+    });
+
+    if (!insurer) {
+      throw new NotFoundError('Insurer not found');
+    }
+
+    if (productId) {
+      const product = await prisma.insuranceProduct.findUnique({
+        where: { id: productId },
+      });
+
+      if (!product) {
+        throw new NotFoundError('Product not found');
+      }
+
+      if (product.insurerId !== insurerId) {
+        throw new BadRequestError(
+          'The product does not belong to the selected insurer'
+        );
+      }
+    }
+
+    // Copied so truncating to the day leaves the request body untouched
+    const start = new Date(effectiveFrom ?? Date.now());
+    start.setUTCHours(0, 0, 0, 0);
+
+    const rule = await prisma.commissionRule.create({
+      data: {
+        insurerId,
+        productId: productId || null,
+        rate,
+        hierarchySplit,
+        effectiveFrom: start,
+        notes: notes || null,
+      },
+      include: commissionRuleInclude,
+    });
+
+    commissionLogger.info('Commission rule created successfully', {
+      ruleId: rule.id,
+      insurerId,
+      productId,
+      rate,
+      operation: 'create_commission_rule_success',
+    });
+
+    return rule;
+  }
+
+  /**
+   * Rule changes only affect policies issued afterwards
+   * Recorded commission entries keep the amounts they were created with
+   */
+  async updateRule(id: string, data: UpdateCommissionRuleDto) {
+    await this.getRuleById(id);
+    const { rate, hierarchySplit, effectiveFrom, isActive, notes } = data;
+
+    if (hierarchySplit) {
+      this.ensureValidHierarchySplit(hierarchySplit);
+    }
+
+    const start = effectiveFrom ? new Date(effectiveFrom) : undefined;
+    start?.setUTCHours(0, 0, 0, 0);
+
+    const rule = await prisma.commissionRule.update({
+      where: { id },
+      data: {
+        rate,
+        hierarchySplit,
+        effectiveFrom: start,
+        isActive,
+        notes: notes !== undefined ? notes || null : undefined,
+      },
+      include: commissionRuleInclude,
+    });
+
+    commissionLogger.info('Commission rule updated successfully', {
+      ruleId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_commission_rule_success',
+    });
+
+    return rule;
+  }
+
+  async deleteRule(id: string) {
+    await this.getRuleById(id);
+
+    const entryCount = await prisma.commissionEntry.count({
+      where: { ruleId: id },
+    });
+
+    if (entryCount > 0) {
+      throw new ConflictError(
+        'This rule has recorded commissions and cannot be deleted. Deactivate it instead.'
+      );
+    }
+
+    await prisma.commissionRule.delete({ where: { id } });
+
+    commissionLogger.info('Commission rule deleted successfully', {
+      ruleId: id,
+      operation: 'delete_commission_rule_success',
+    });
+  }
+
+  /**
+   * Commission statement of one broker for a period
+   * Includes the broker's own sales and overrides earned from its descendants
+   */
+  async getStatement(filters: CommissionStatementFilters) {
+    const { brokerId, from, to } = filters;
+
+    const broker = await prisma.broker.findUnique({
+      where: { id: brokerId },
+      select: { id: true, name: true },
+    });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    const entries = await prisma.commissionEntry.findMany({
+      where: {
+        brokerId,
+        earnedAt: { gte: from, lte: to },
+      },
+      include: statementEntryInclude,
+      orderBy: [{ earnedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const totals = new Map<
+      string,
+      { currency: string; earned: number; voided: number; entryCount: number }
+    >();
+
+    entries.forEach(entry => {
+      const total = totals.get(entry.currency) ?? {
+        currency: entry.currency,
+        earned: 0,
+        voided: 0,
+        entryCount: 0,
+      };
+      const amount = entry.amount.toNumber();
+
+      if (entry.status === 'earned') {
+        total.earned += amount;
+      } else {
+        total.voided += amount;
+      }
+      total.entryCount += 1;
+      totals.set(entry.currency, total);
+    });
+
+    commissionLogger.debug('Commission statement generated', {
+      brokerId,
+      from,
+      to,
+      entryCount: entries.length,
+      operation: 'get_commission_statement',
+    });
+
+    return {
+      broker,
+      period: { from, to },
+      entries,
+      totals: [...totals.values()].map(total => ({
+        ...total,
+        earned: Math.round(total.earned * 100) / 100,
+        voided: Math.round(total.voided * 100) / 100,
+      })),
+    };
+  }
+
+  private ensureValidHierarchySplit(hierarchySplit: number[]) {
+    const error = this.commissionEngine.validateHierarchySplit(hierarchySplit);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+}
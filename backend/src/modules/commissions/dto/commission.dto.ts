@@ -0,0 +1,36 @@
+// Rules without a product apply to every product of the insurer
+export interface CreateCommissionRuleDto {
+  insurerId: string;
+  productId?: string;
+  rate: number; // Share of the net premium, e.g. 0.15
+  hierarchySplit?: number[]; // Ancestor shares of the commission, parent first
+  effectiveFrom?: Date; // Defaults to today
+  notes?: string;
+}
+
+// The insurer and product of a rule cannot be changed
+export interface UpdateCommissionRuleDto {
+  rate?: number;
+  hierarchySplit?: number[];
+  effectiveFrom?: Date;
+  isActive?: boolean;
+  notes?: string;
+}
+
+export interface CommissionRuleListFilters {
+  insurerId?: string;
+  productId?: string;
+  isActive?: boolean;
+}
+
+export interface CommissionStatementFilters {
+  brokerId: string;
+  from: Date;
+  to: Date;
+}
+
+// Without a broker the statement of the caller's own broker is returned
+export interface CommissionStatementQuery
+  extends Omit<CommissionStatementFilters, 'brokerId'> {
+  brokerId?: string;
+}
@@ -0,0 +1,90 @@
+import Joi from 'joi';
+
+const hierarchySplitSchema = Joi.array()
+  .items(Joi.number().min(0).max(1))
+  .max(10)
+  .messages({
+    'array.base': 'Hierarchy split must be a list of shares',
+    'array.max': 'Hierarchy split cannot cover more than 10 levels',
+    'number.min': 'Hierarchy split shares cannot be negative',
+    'number.max': 'Hierarchy split shares cannot exceed 1',
+  });
+
+export const createCommissionRuleSchema = Joi.object({
+  insurerId: Joi.string().uuid().required().messages({
+    'any.required': 'Insurer ID is required',
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+  productId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Product ID must be a valid UUID',
+  }),
+  rate: Joi.number().greater(0).max(1).precision(4).required().messages({
+    'any.required': 'Commission rate is required',
+    'number.greater': 'Commission rate must be greater than 0',
+    'number.max': 'Commission rate cannot exceed 1',
+  }),
+  hierarchySplit: hierarchySplitSchema.optional(),
+  effectiveFrom: Joi.date().iso().optional().messages({
+    'date.base': 'Effective from must be a valid date',
+    'date.format': 'Effective from must be an ISO date',
+  }),
+  notes: Joi.string().optional().allow('').max(500).messages({
+    'string.max': 'Notes cannot exceed 500 characters',
+  }),
+});
+
+export const updateCommissionRuleSchema = Joi.object({
+  rate: Joi.number().greater(0).max(1).precision(4).optional().messages({
+    'number.greater': 'Commission rate must be greater than 0',
+    'number.max': 'Commission rate cannot exceed 1',
+  }),
+  hierarchySplit: hierarchySplitSchema.optional(),
+  effectiveFrom: Joi.date().iso().optional().messages({
+    'date.base': 'Effective from must be a valid date',
+    'date.format': 'Effective from must be an ISO date',
+  }),
+  isActive: Joi.boolean().optional(),
+  notes: Joi.string().optional().allow('').max(500).messages({
+    'string.max': 'Notes cannot exceed 500 characters',
+  }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const commissionRuleIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Commission rule ID must be a valid UUID',
+    'any.required': 'Commission rule ID is required',
+  }),
+});
+
+// Query parameters of GET /api/commissions/rules
+export const listCommissionRulesQuerySchema = Joi.object({
+  insurerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+  productId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Product ID must be a valid UUID',
+  }),
+  isActive: Joi.boolean().optional(),
+});
+
+// Query parameters of GET /api/commissions/statement
+export const commissionStatementQuerySchema = Joi.object({
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+  from: Joi.date().iso().required().messages({
+    'any.required': 'Period start (from) is required',
+    'date.base': 'Period start must be a valid date',
+    'date.format': 'Period start must be an ISO date',
+  }),
+  to: Joi.date().iso().min(Joi.ref('from')).required().messages({
+    'any.required': 'Period end (to) is required',
+    'date.base': 'Period end must be a valid date',
+    'date.format': 'Period end must be an ISO date',
+    'date.min': 'The period start must be before its end',
+  }),
+});
@@ -0,0 +1,23 @@
+export interface CreateInsurerDto {
+  name: string;
+  legalName?: string;
+  ruc?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+}
+
+export interface UpdateInsurerDto {
+  name?: string;
+  legalName?: string;
+  ruc?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  isActive?: boolean;
+}
+
+export interface InsurerListFilters {
+  search?: string;
+  isActive?: boolean;
+}
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { InsurerService } from './insurer.service';
+import {
+  CreateInsurerDto,
+  InsurerListFilters,
+  UpdateInsurerDto,
+} from './dto/insurer.dto';
+
+export class InsurerController {
+  private insurerService: InsurerService;
+
+  constructor() {
+    this.insurerService = new InsurerService();
+  }
+
+  getInsurers = async (req: Request, res: Response): Promise<void> => {
+    const filters = req.query as unknown as InsurerListFilters;
+
+    const insurers = await this.insurerService.getInsurers(filters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Insurers retrieved successfully',
+      data: { insurers },
+    });
+  };
+
+  getInsurerById = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const insurer = await this.insurerService.getInsurerById(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Insurer retrieved successfully',
+      data: { insurer },
+    });
+  };
+
+  createInsurer = async (req: Request, res: Response): Promise<void> => {
+    const insurerData: CreateInsurerDto = req.body;
+    const insurer = await this.insurerService.createInsurer(insurerData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Insurer created successfully',
+      data: { insurer },
+    });
+  };
+
+  updateInsurer = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateInsurerDto = req.body;
+    const insurer = await this.insurerService.updateInsurer(id, updateData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Insurer updated successfully',
+      data: { insurer },
+    });
+  };
+
+  deleteInsurer = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const result = await this.insurerService.deleteInsurer(id);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  };
+}
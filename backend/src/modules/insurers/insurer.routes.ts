@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { InsurerController } from './insurer.controller';
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createInsurerSchema,
+  updateInsurerSchema,
+  listInsurersQuerySchema,
+  insurerIdParamSchema,
+} from './validation/insurer.schemas';
+
+const router = Router();
+const insurerController = new InsurerController();
+
+const validateUuidParam = validate({ params: insurerIdParamSchema });
+
+// Insurer Catalog Routes
+// The catalog is shared by all brokers, so only permissions apply
+router.get(
+  '/',
+  authMiddleware,
+  requirePermission('insurers:read'),
+  validate({ query: listInsurersQuerySchema }),
+  insurerController.getInsurers
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requirePermission('insurers:read'),
+  validateUuidParam,
+  insurerController.getInsurerById
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requirePermission('insurers:create'),
+  validateRequest(createInsurerSchema),
+  insurerController.createInsurer
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requirePermission('insurers:update'),
+  validateUuidParam,
+  validateRequest(updateInsurerSchema),
+  insurerController.updateInsurer
+);
+
+router.delete(
+  '/:id',
+  authMiddleware,
+  requirePermission('insurers:delete'),
+  validateUuidParam,
+  insurerController.deleteInsurer
+);
+
+export default router;
@@ -0,0 +1,181 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { catalogLogger } from '../../services/logger.service';
+import { ConflictError, NotFoundError } from '../../common/errors';
+import {
+  CreateInsurerDto,
+  UpdateInsurerDto,
+  InsurerListFilters,
+} from './dto/insurer.dto';
+
+export class InsurerService {
+  async getInsurers(filters: InsurerListFilters = {}) {
+    const { search, isActive } = filters;
+
+    const where: Prisma.InsurerWhereInput = {
+      AND: [
+        isActive !== undefined ? { isActive } : {},
+        search
+          ? {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { legalName: { contains: search, mode: 'insensitive' } },
+                { ruc: { contains: search } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const insurers = await prisma.insurer.findMany({
+      where,
+      include: {
+        _count: {
+          select: { products: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    catalogLogger.debug('Insurers retrieved', {
+      count: insurers.length,
+      hasSearch: !!search,
+      isActive,
+      operation: 'get_insurers',
+    });
+
+    return insurers;
+  }
+
+  async getInsurerById(id: string) {
+    const insurer = await prisma.insurer.findUnique({
+      where: { id },
+      include: {
+        products: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+            lineOfBusiness: true,
+            isActive: true,
+          },
+          orderBy: { name: 'asc' },
+        },
+      },
+    });
+
+    if (!insurer) {
+      throw new NotFoundError('Insurer not found');
+    }
+
+    return insurer;
+  }
+
+  async createInsurer(data: CreateInsurerDto) {
+    const { name, legalName, ruc, email, phone, website } = data;
+
+    await this.ensureUnique(name, ruc);
+
+    const insurer = await prisma.insurer.create({
+      data: {
+        name,
+        legalName: legalName || null,
+        ruc: ruc || null,
+        email: email || null,
+        phone: phone || null,
+        website: website || null,
+      },
+    });
+
+    catalogLogger.info('Insurer created successfully', {
+      insurerId: insurer.id,
+      name,
+      operation: 'create_insurer_success',
+    });
+
+    return insurer;
+  }
+
+  async updateInsurer(id: string, data: UpdateInsurerDto) {
+    const insurer = await this.getInsurerById(id);
+    const { name, legalName, ruc, email, phone, website, isActive } = data;
+
+    await this.ensureUnique(
+      name !== insurer.name ? name : undefined,
+      ruc !== insurer.ruc ? ruc : undefined,
+      id
+    );
+
+    const updatedInsurer = await prisma.insurer.update({
+      where: { id },
+      data: {
+        name,
+        legalName: legalName !== undefined ? legalName || null : undefined,
+        ruc: ruc !== undefined ? ruc || null : undefined,
+        email: email !== undefined ? email || null : undefined,
+        phone: phone !== undefined ? phone || null : undefined,
+        website: website !== undefined ? website || null : undefined,
+        isActive,
+      },
+    });
+
+    catalogLogger.info('Insurer updated successfully', {
+      insurerId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_insurer_success',
+    });
+
+    return updatedInsurer;
+  }
+
+  /**
+   * Delete an insurer
+   * Insurers with products must be deactivated instead so quotes keep their history
+   */
+  async deleteInsurer(id: string) {
+    const insurer = await this.getInsurerById(id);
+
+    if (insurer.products.length > 0) {
+      throw new ConflictError(
+        'Cannot delete insurer with products. Deactivate it instead.'
+      );
+    }
+
+    await prisma.insurer.delete({
+      where: { id },
+    });
+
+    catalogLogger.info('Insurer deleted successfully', {
+      insurerId: id,
+      name: insurer.name,
+      operation: 'delete_insurer_success',
+    });
+
+    return { message: 'Insurer deleted successfully' };
+  }
+
+  private async ensureUnique(name?: string, ruc?: string, excludeId?: string) {
+    const conditions: Prisma.InsurerWhereInput[] = [];
+    if (name) conditions.push({ name });
+    if (ruc) conditions.push({ ruc });
+
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const existingInsurer = await prisma.insurer.findFirst({
+      where: {
+        OR: conditions,
+        ...(excludeId && { NOT: { id: excludeId } }),
+      },
+    });
+
+    if (existingInsurer) {
+      throw new ConflictError(
+        existingInsurer.name === name
+          ? 'An insurer with this name already exists'
+          : 'An insurer with this RUC already exists'
+      );
+    }
+  }
+}
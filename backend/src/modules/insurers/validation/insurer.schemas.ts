@@ -0,0 +1,68 @@
+import Joi from 'joi';
+
+export const createInsurerSchema = Joi.object({
+  name: Joi.string().trim().required().min(2).max(100).messages({
+    'any.required': 'Insurer name is required',
+    'string.empty': 'Insurer name cannot be empty',
+    'string.min': 'Insurer name must be at least 2 characters',
+    'string.max': 'Insurer name cannot exceed 100 characters',
+  }),
+  legalName: Joi.string().trim().optional().allow('').max(200).messages({
+    'string.max': 'Legal name cannot exceed 200 characters',
+  }),
+  ruc: Joi.string().optional().allow('').length(13).messages({
+    'string.length': 'RUC must be 13 characters',
+  }),
+  email: Joi.string().email().optional().allow('').messages({
+    'string.email': 'Invalid email format',
+  }),
+  phone: Joi.string().optional().allow('').min(8).max(20).messages({
+    'string.min': 'Phone number must be at least 8 characters',
+    'string.max': 'Phone number cannot exceed 20 characters',
+  }),
+  website: Joi.string().uri().optional().allow('').messages({
+    'string.uri': 'Website must be a valid URL',
+  }),
+});
+
+export const updateInsurerSchema = Joi.object({
+  name: Joi.string().trim().optional().min(2).max(100).messages({
+    'string.empty': 'Insurer name cannot be empty',
+    'string.min': 'Insurer name must be at least 2 characters',
+    'string.max': 'Insurer name cannot exceed 100 characters',
+  }),
+  legalName: Joi.string().trim().optional().allow('').max(200).messages({
+    'string.max': 'Legal name cannot exceed 200 characters',
+  }),
+  ruc: Joi.string().optional().allow('').length(13).messages({
+    'string.length': 'RUC must be 13 characters',
+  }),
+  email: Joi.string().email().optional().allow('').messages({
+    'string.email': 'Invalid email format',
+  }),
+  phone: Joi.string().optional().allow('').min(8).max(20).messages({
+    'string.min': 'Phone number must be at least 8 characters',
+    'string.max': 'Phone number cannot exceed 20 characters',
+  }),
+  website: Joi.string().uri().optional().allow('').messages({
+    'string.uri': 'Website must be a valid URL',
+  }),
+  isActive: Joi.boolean().optional(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const insurerIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Insurer ID must be a valid UUID',
+    'any.required': 'Insurer ID is required',
+  }),
+});
+
+// Query parameters of GET /api/insurers
+export const listInsurersQuerySchema = Joi.object({
+  search: Joi.string().trim().max(100).optional().allow(''),
+  isActive: Joi.boolean().optional(),
+});
@@ -1,7 +1,12 @@
+import { InvitationStatus, InvitationTargetMode } from '@prisma/client';
+
 export interface SendInvitationDto {
   email: string; // Invitee email
-  childBrokerName: string; // Name for the new child broker to be created
+  targetMode?: InvitationTargetMode; // Defaults to new_child_broker
+  childBrokerName?: string; // Name for the new child broker (new_child_broker mode)
   childBrokerDescription?: string; // Optional description for the new child broker
+  brokerId?: string; // Broker to join (existing_broker mode), defaults to the sender's
+  roleId?: string; // Role assigned on acceptance, defaults to agent
 }
 
 export interface AcceptInvitationDto {
@@ -11,4 +16,12 @@ export interface AcceptInvitationDto {
   lastName: string;
   cedulaRuc: string;
   phone?: string;
-} 
\ No newline at end of file
+} 
+
+// "expired" also covers pending invitations the expiry job has not reached yet
+export type InvitationListStatus = InvitationStatus;
+
+export interface InvitationListFilters {
+  status?: InvitationListStatus;
+  brokerId?: string; // Only invitations sent from this broker
+}
@@ -1,34 +1,87 @@
 import { Request, Response } from 'express';
 import { InvitationService } from './invitation.service';
-import { SendInvitationDto, AcceptInvitationDto } from './dto/invitation.dto';
+import {
+  SendInvitationDto,
+  AcceptInvitationDto,
+  InvitationListFilters,
+} from './dto/invitation.dto';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
 
 export class InvitationController {
   private service: InvitationService = new InvitationService();
 
   send = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const data: SendInvitationDto = req.body;
-      const invitedBy = (req as any).user.id; // From auth middleware
-      const result = await this.service.sendInvitation(data, invitedBy);
-      res.status(200).json(result);
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to send invitation',
-      });
-    }
+    const data: SendInvitationDto = req.body;
+    const invitedBy = (req as any).user.id; // From auth middleware
+    const result = await this.service.sendInvitation(data, invitedBy);
+    res.status(200).json(result);
   };
 
   accept = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const data: AcceptInvitationDto = req.body;
-      const result = await this.service.acceptInvitation(data);
-      res.status(201).json(result);
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to accept invitation',
-      });
+    const data: AcceptInvitationDto = req.body;
+    const result = await this.service.acceptInvitation(data);
+    res.status(201).json(result);
+  };
+
+  list = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const filters = req.query as unknown as InvitationListFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError('Access denied. You cannot view invitations for this broker.');
     }
+
+    const invitations = await this.service.getInvitations(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitations retrieved successfully',
+      data: { invitations },
+    });
+  };
+
+  preview = async (req: Request, res: Response): Promise<void> => {
+    const invitation = await this.service.getInvitationPreview(req.params.token);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation retrieved successfully',
+      data: { invitation },
+    });
+  };
+
+  resend = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await this.service.resendInvitation(
+      req.params.id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.emailSent
+        ? 'Invitation resent successfully'
+        : 'Invitation renewed but the email could not be delivered',
+      data: result,
+    });
+  };
+
+  revoke = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const invitation = await this.service.revokeInvitation(
+      req.params.id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked successfully',
+      data: { invitation },
+    });
   };
-} 
\ No newline at end of file
+}
@@ -1,23 +1,70 @@
 import { Router } from 'express';
 import { InvitationController } from './invitation.controller';
-import { authMiddleware } from '../../common/middlewares/auth.middleware';
-import { requireBrokerAccess } from '../../common/middlewares/brokerIsolation.middleware';
-import { validateRequest } from '../../common/middlewares/validation.middleware';
-import { sendInvitationSchema, acceptInvitationSchema } from './validation/invitation.schemas';
+import { authMiddleware, requirePermission } from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { validate, validateRequest } from '../../common/middlewares/validation.middleware';
+import {
+  sendInvitationSchema,
+  acceptInvitationSchema,
+  listInvitationsQuerySchema,
+  invitationIdParamSchema,
+} from './validation/invitation.schemas';
 
 const router = Router();
 const controller = new InvitationController();
 
-// Protected: Only authenticated users from a valid broker hierarchy can send invites
+const validateUuidParam = validate({ params: invitationIdParamSchema });
+
+// Protected: Senders need invitations:create; the target broker is checked by the service
 router.post(
   '/send',
   authMiddleware,
   requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('invitations:create'),
   validateRequest(sendInvitationSchema),
   controller.send
 );
 
+// Protected: Manage invitations sent from the caller's broker subtree
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('invitations:read'),
+  validate({ query: listInvitationsQuerySchema }),
+  controller.list
+);
+
+router.post(
+  '/:id/resend',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('invitations:update'),
+  validateUuidParam,
+  controller.resend
+);
+
+// Revoking keeps the invitation record, only its token stops working
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('invitations:delete'),
+  validateUuidParam,
+  controller.revoke
+);
+
 // Public: Accept invite
 router.post('/accept', validateRequest(acceptInvitationSchema), controller.accept);
 
+// Public: Preview an invite before accepting it
+router.get('/:token', controller.preview);
+
 export default router; 
\ No newline at end of file
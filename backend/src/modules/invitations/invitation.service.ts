@@ -1,21 +1,99 @@
+import { InvitationStatus, Prisma } from '@prisma/client';
 import { prisma } from '../../config/database';
 import { supabase } from '../../config/supabase';
 import { v4 as uuidv4 } from 'uuid';
-import { SendInvitationDto, AcceptInvitationDto } from './dto/invitation.dto';
+import {
+  SendInvitationDto,
+  AcceptInvitationDto,
+  InvitationListFilters,
+  InvitationListStatus,
+} from './dto/invitation.dto';
 import { authLogger } from '../../services/logger.service';
+import { BrokerHierarchyService } from '../../services/brokerHierarchy.service';
+import { AuditService } from '../../services/audit.service';
+import { mailService, clientUrl } from '../../config/mail';
+import { MailTemplateName } from '../../common/mailTemplates';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../common/errors';
+import { UserRoleService } from '../../services/userRole.service';
+import { PermissionService } from '../../services/permission.service';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Pending invitations a broker may have open when it has no quota of its own
+const DEFAULT_INVITATION_QUOTA = 50;
+
+// Role given to invitees when the invitation does not name one
+const DEFAULT_INVITATION_ROLE = 'agent';
+
+const invitationListInclude = {
+  invitedByUser: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      broker: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  role: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+    },
+  },
+} satisfies Prisma.InvitationInclude;
+
+type InvitationWithSender = Prisma.InvitationGetPayload<{
+  include: typeof invitationListInclude;
+}>;
 
 export class InvitationService {
+  private brokerHierarchyService: BrokerHierarchyService;
+  private auditService: AuditService;
+  private userRoleService: UserRoleService;
+  private permissionService: PermissionService;
+
   constructor() {
-    // Reserved for future use
+    this.brokerHierarchyService = new BrokerHierarchyService();
+    this.auditService = new AuditService();
+    this.userRoleService = new UserRoleService();
+    this.permissionService = new PermissionService();
   }
 
   async sendInvitation(data: SendInvitationDto, invitedBy: string) {
-    const { email, childBrokerName, childBrokerDescription } = data;
+    const {
+      email,
+      targetMode = 'new_child_broker',
+      childBrokerName,
+      childBrokerDescription,
+      brokerId,
+      roleId,
+    } = data;
 
     authLogger.debug('Invitation send process initiated', {
       invitedBy,
       email,
+      targetMode,
       childBrokerName,
+      brokerId,
+      roleId,
       hasDescription: !!childBrokerDescription,
       operation: 'send_invitation_start'
     });
@@ -37,7 +115,7 @@ export class InvitationService {
           invitedBy,
           operation: 'send_invitation_validation'
         });
-        throw new Error('Sender profile not found');
+        throw new NotFoundError('Sender profile not found');
       }
 
       // Validate sender has a broker (cannot invite without broker context)
@@ -46,50 +124,71 @@ export class InvitationService {
           invitedBy,
           operation: 'send_invitation_validation'
         });
-        throw new Error('Cannot send invitations without broker context');
+        throw new ForbiddenError('Cannot send invitations without broker context', 'BROKER_REQUIRED');
       }
 
-      // Check RBAC permissions - sender must be able to invite
-      const canInvite = sender.userRoles.some(ur => 
-        ur.role.name === 'broker_admin' || 
-        ur.role.name === 'employee'
+      // Existing-broker invitations default to the sender's own broker
+      // and may target any broker in the sender's hierarchy
+      const targetBrokerId =
+        targetMode === 'existing_broker' ? brokerId ?? sender.brokerId : null;
+
+      // New sub-brokers are created under the sender's broker, so that is
+      // where the sender needs the permission
+      const canInvite = await this.permissionService.userHasPermissionInBroker(
+        invitedBy,
+        'invitations:create',
+        targetBrokerId ?? sender.brokerId
       );
 
       if (!canInvite) {
         authLogger.warn('Invitation send failed - insufficient permissions', {
           invitedBy,
-          senderRoles: sender.userRoles.map(ur => ur.role.name),
+          targetBrokerId: targetBrokerId ?? sender.brokerId,
           operation: 'send_invitation_validation'
         });
-        throw new Error('Unauthorized to send invitations');
+        throw new ForbiddenError(
+          targetBrokerId
+            ? 'Cannot invite users into this broker'
+            : 'Unauthorized to send invitations'
+        );
       }
 
-      // Check for duplicate pending invitations to the same email
-      const existingInvitation = await prisma.invitation.findFirst({
-        where: {
-          email,
-          status: 'pending',
-          expiresAt: { gt: new Date() },
-        },
+      if (targetMode === 'new_child_broker' && !childBrokerName) {
+        throw new BadRequestError('Child broker name is required for new broker invitations');
+      }
+
+      // Invitees cannot be granted a role above the sender's own
+      const role = await prisma.role.findUnique({
+        where: roleId ? { id: roleId } : { name: DEFAULT_INVITATION_ROLE },
       });
 
-      if (existingInvitation) {
-        authLogger.warn('Invitation send failed - duplicate pending invitation', {
+      if (!role) {
+        throw new NotFoundError('Role not found');
+      }
+
+      const senderLevel = Math.min(...sender.userRoles.map(ur => ur.role.level));
+      if (role.level < senderLevel) {
+        authLogger.warn('Invitation send failed - role above sender', {
           invitedBy,
-          email,
-          existingInvitationId: existingInvitation.id,
+          roleId: role.id,
+          roleLevel: role.level,
+          senderLevel,
           operation: 'send_invitation_validation'
         });
-        throw new Error('A pending invitation for this email already exists');
+        throw new ForbiddenError('Cannot invite users with a role above your own');
       }
 
+      // Expired and revoked invitations do not block a new one
+      await this.assertEmailCanBeInvited(email);
+      await this.assertInvitationQuota(sender.brokerId);
+
       // TODO: Check if email is already registered in Supabase
       // For now, we'll skip this check to test the core functionality
       // This validation will be added back once we confirm the core flow works
 
       // Generate invitation token and expiry
       const token = uuidv4();
-      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+      const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
 
       // Create invitation record
       const invitation = await prisma.invitation.create({
@@ -97,35 +196,56 @@ export class InvitationService {
           token,
           email,
           invitedBy,
-          childBrokerName,
-          childBrokerDescription: childBrokerDescription || null,
+          targetMode,
+          brokerId: targetBrokerId,
+          roleId: role.id,
+          childBrokerName: targetMode === 'new_child_broker' ? childBrokerName : null,
+          childBrokerDescription:
+            targetMode === 'new_child_broker' ? childBrokerDescription || null : null,
           expiresAt,
         },
+        include: invitationListInclude,
       });
 
       authLogger.info('Invitation sent successfully', {
         invitationId: invitation.id,
         invitedBy,
         email,
+        targetMode,
         childBrokerName,
+        targetBrokerId,
+        roleName: role.name,
         parentBrokerName: sender.broker.name,
         expiresAt,
         operation: 'send_invitation_success'
       });
 
-      // TODO: Implement email sending (e.g., via Supabase or Nodemailer)
-      // await sendEmail(email, 'Invitation to join as Agent', {
-      //   inviterName: `${sender.firstName} ${sender.lastName}`,
-      //   brokerName: sender.broker.name,
-      //   childBrokerName,
-      //   acceptUrl: `${process.env.CLIENT_URL}/accept-invitation?token=${token}`,
-      //   expiresAt
-      // });
+      await this.auditService.record({
+        action: 'invitation.send',
+        resourceType: 'invitation',
+        resourceId: invitation.id,
+        actorId: invitedBy,
+        brokerId: sender.brokerId,
+        metadata: {
+          email,
+          targetMode,
+          childBrokerName: invitation.childBrokerName,
+          targetBrokerId,
+          roleName: role.name,
+          expiresAt: expiresAt.toISOString(),
+        },
+      });
+
+      // The invitation stays valid if delivery fails, so it can be sent again
+      const emailSent = await this.deliverInvitation('invitation', invitation);
 
       return { 
-        message: 'Invitation sent successfully',
+        message: emailSent
+          ? 'Invitation sent successfully'
+          : 'Invitation created but the email could not be delivered',
         invitationId: invitation.id,
-        expiresAt 
+        expiresAt,
+        emailSent
       };
 
     } catch (error) {
@@ -160,7 +280,9 @@ export class InvitationService {
             include: { 
               broker: true 
             } 
-          } 
+          },
+          broker: true,
+          role: true
         }
       });
 
@@ -170,25 +292,30 @@ export class InvitationService {
           token,
           operation: 'accept_invitation_validation'
         });
-        throw new Error('Invitation not found');
+        throw new NotFoundError('Invitation not found');
       }
 
-      if (invite.status !== 'pending') {
-        authLogger.warn('Invitation acceptance failed - invitation not pending', {
-          token,
-          status: invite.status,
-          operation: 'accept_invitation_validation'
+      // Expired before the expiry job got to it
+      if (invite.status === 'pending' && invite.expiresAt <= new Date()) {
+        await prisma.invitation.updateMany({
+          where: { id: invite.id, status: 'pending' },
+          data: { status: 'expired' }
         });
-        throw new Error('Invitation has already been processed');
+        invite.status = 'expired';
       }
 
-      if (invite.expiresAt < new Date()) {
-        authLogger.warn('Invitation acceptance failed - invitation expired', {
+      if (invite.status !== 'pending') {
+        authLogger.warn('Invitation acceptance failed - invitation not pending', {
           token,
+          status: invite.status,
           expiresAt: invite.expiresAt,
           operation: 'accept_invitation_validation'
         });
-        throw new Error('Invitation has expired');
+        throw invite.status === 'expired'
+          ? new ConflictError('Invitation has expired', 'INVITATION_EXPIRED')
+          : invite.status === 'revoked'
+            ? new ConflictError('Invitation has been revoked', 'INVITATION_REVOKED')
+            : new ConflictError('Invitation has already been processed', 'INVITATION_ALREADY_ACCEPTED');
       }
 
       // Validate sender has broker context (edge case)
@@ -198,7 +325,7 @@ export class InvitationService {
           invitedBy: invite.invitedBy,
           operation: 'accept_invitation_validation'
         });
-        throw new Error('Invitation sender has no broker context');
+        throw new ConflictError('Invitation sender has no broker context');
       }
 
       authLogger.debug('Invitation validation passed', {
@@ -206,7 +333,9 @@ export class InvitationService {
         invitedBy: invite.invitedBy,
         parentBrokerId: invite.invitedByUser.brokerId,
         parentBrokerName: invite.invitedByUser.broker.name,
+        targetMode: invite.targetMode,
         childBrokerName: invite.childBrokerName,
+        targetBrokerId: invite.brokerId,
         operation: 'accept_invitation_validation_success'
       });
 
@@ -221,7 +350,7 @@ export class InvitationService {
           cedulaRuc,
           operation: 'accept_invitation_validation'
         });
-        throw new Error('Cedula/RUC is already registered');
+        throw new ConflictError('Cedula/RUC is already registered', 'CEDULA_IN_USE');
       }
 
       // Perform everything in a database transaction
@@ -243,7 +372,7 @@ export class InvitationService {
             email: invite.email,
             operation: 'accept_invitation_supabase_signup'
           });
-          throw new Error('Failed to create user account');
+          throw new BadRequestError('Failed to create user account', 'REGISTRATION_FAILED');
         }
 
         authLogger.debug('Supabase user created successfully', {
@@ -253,24 +382,42 @@ export class InvitationService {
           operation: 'accept_invitation_supabase_success'
         });
 
-        // 2. Create child broker with parentId = sender's brokerId
-        const childBroker = await tx.broker.create({
-          data: {
-            name: invite.childBrokerName,
-            description: invite.childBrokerDescription,
-            parentId: invite.invitedByUser.brokerId,
-          },
-        });
+        // 2. Create the child broker under the sender's broker, or join the target broker
+        let childBroker: Awaited<ReturnType<typeof tx.broker.create>> | null = null;
+
+        if (invite.targetMode === 'new_child_broker') {
+          if (!invite.childBrokerName) {
+            throw new AppError('Invitation has no child broker name');
+          }
+
+          const placement = await this.brokerHierarchyService.getBrokerPlacement(
+            invite.invitedByUser.brokerId,
+            tx
+          );
+          childBroker = await tx.broker.create({
+            data: {
+              ...placement,
+              name: invite.childBrokerName,
+              description: invite.childBrokerDescription,
+            },
+          });
 
-        authLogger.debug('Child broker created successfully', {
-          token,
-          childBrokerId: childBroker.id,
-          childBrokerName: childBroker.name,
-          parentBrokerId: invite.invitedByUser.brokerId,
-          operation: 'accept_invitation_broker_creation'
-        });
+          authLogger.debug('Child broker created successfully', {
+            token,
+            childBrokerId: childBroker.id,
+            childBrokerName: childBroker.name,
+            parentBrokerId: invite.invitedByUser.brokerId,
+            operation: 'accept_invitation_broker_creation'
+          });
+        }
 
-        // 3. Create user profile with new child broker
+        const broker = childBroker ?? invite.broker;
+
+        if (!broker) {
+          throw new AppError('Invitation has no target broker');
+        }
+
+        // 3. Create user profile in the new or existing broker
         const profile = await tx.profile.create({
           data: {
             id: authData.user.id,
@@ -278,7 +425,7 @@ export class InvitationService {
             lastName,
             cedulaRuc,
             phone: phone || null,
-            brokerId: childBroker.id, // Attach to NEW child broker
+            brokerId: broker.id,
           },
         });
 
@@ -289,32 +436,33 @@ export class InvitationService {
           operation: 'accept_invitation_profile_creation'
         });
 
-        // 4. Get "agent" role
-        const agentRole = await tx.role.findUnique({ 
-          where: { name: 'agent' } 
+        // 4. Get the invited role (agent for invitations that predate roles)
+        const role = invite.role ?? await tx.role.findUnique({ 
+          where: { name: DEFAULT_INVITATION_ROLE } 
         });
 
-        if (!agentRole) {
-          authLogger.error('Agent role not found in database', null, {
+        if (!role) {
+          authLogger.error('Invitation role not found in database', null, {
             token,
+            roleId: invite.roleId,
             operation: 'accept_invitation_role_lookup'
           });
-          throw new Error('Agent role not found in system');
+          throw new AppError('Invitation role not found in system');
         }
 
-        // 5. Assign "agent" role to new user
-        await tx.userRole.create({
-          data: {
-            userId: authData.user.id,
-            roleId: agentRole.id,
-            assignedBy: invite.invitedBy, // Assigned by invitation sender
-          },
-        });
+        // 5. Assign the role to the new user, on behalf of the invitation sender
+        await this.userRoleService.assignRoleToUser(
+          authData.user.id,
+          role.id,
+          invite.invitedBy,
+          undefined,
+          tx
+        );
 
-        authLogger.debug('Agent role assigned successfully', {
+        authLogger.debug('Invitation role assigned successfully', {
           token,
           userId: authData.user.id,
-          roleId: agentRole.id,
+          roleId: role.id,
           assignedBy: invite.invitedBy,
           operation: 'accept_invitation_role_assignment'
         });
@@ -341,38 +489,77 @@ export class InvitationService {
             phone: profile.phone || undefined,
             isActive: profile.isActive,
           },
-          childBroker: {
-            id: childBroker.id,
-            name: childBroker.name,
-            description: childBroker.description || undefined,
-            parentId: childBroker.parentId,
+          broker: {
+            id: broker.id,
+            name: broker.name,
+            description: broker.description || undefined,
+            parentId: broker.parentId,
           },
+          childBroker: childBroker
+            ? {
+                id: childBroker.id,
+                name: childBroker.name,
+                description: childBroker.description || undefined,
+                parentId: childBroker.parentId,
+              }
+            : null,
           parentBroker: {
             id: invite.invitedByUser.broker?.id || '',
             name: invite.invitedByUser.broker?.name || '',
           },
           role: {
-            id: agentRole.id,
-            name: agentRole.name,
-            description: agentRole.description || undefined,
+            id: role.id,
+            name: role.name,
+            description: role.description || undefined,
           },
         };
       });
 
+      // A new child broker widens the accessible brokers of its ancestors
+      if (result.childBroker) {
+        await this.brokerHierarchyService.invalidateBrokerContexts();
+      }
+
+      await this.auditService.record({
+        action: 'invitation.accept',
+        resourceType: 'invitation',
+        resourceId: invite.id,
+        actorId: result.user.id,
+        brokerId: result.broker.id,
+        metadata: {
+          email: result.user.email,
+          invitedBy: invite.invitedBy,
+          targetMode: invite.targetMode,
+          roleName: result.role.name,
+        },
+      });
+
       authLogger.info('Invitation acceptance completed successfully', {
         token,
         userId: result.user.id,
         email: result.user.email,
-        childBrokerId: result.childBroker.id,
-        childBrokerName: result.childBroker.name,
+        targetMode: invite.targetMode,
+        brokerId: result.broker.id,
+        brokerName: result.broker.name,
         parentBrokerId: result.parentBroker.id,
         parentBrokerName: result.parentBroker.name,
         roleName: result.role.name,
         operation: 'accept_invitation_success'
       });
 
+      // The account already exists, a missing welcome email is only logged
+      await mailService
+        .sendTemplate('welcome', result.user.email, {
+          firstName: result.user.firstName,
+          brokerName: result.broker.name,
+          loginUrl: clientUrl('/login')
+        })
+        .catch(() => undefined);
+
       return {
-        message: 'Invitation accepted successfully. Child broker created and agent role assigned.',
+        message: result.childBroker
+          ? `Invitation accepted successfully. Child broker created and ${result.role.name} role assigned.`
+          : `Invitation accepted successfully. Joined ${result.broker.name} with the ${result.role.name} role.`,
         data: result,
       };
 
@@ -387,4 +574,403 @@ export class InvitationService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Invitations sent by users of the given brokers, newest first
+   * Pending invitations past their expiry are reported as expired
+   */
+  async getInvitations(
+    brokerFilter: Prisma.ProfileWhereInput,
+    filters: InvitationListFilters
+  ) {
+    const now = new Date();
+    const statusFilters: Record<InvitationListStatus, Prisma.InvitationWhereInput> = {
+      pending: { status: 'pending', expiresAt: { gt: now } },
+      expired: {
+        OR: [
+          { status: 'expired' },
+          { status: 'pending', expiresAt: { lte: now } },
+        ],
+      },
+      accepted: { status: 'accepted' },
+      revoked: { status: 'revoked' },
+    };
+
+    const invitations = await prisma.invitation.findMany({
+      where: {
+        AND: [
+          { invitedByUser: brokerFilter },
+          filters.brokerId
+            ? { invitedByUser: { brokerId: filters.brokerId } }
+            : {},
+          filters.status ? statusFilters[filters.status] : {},
+        ],
+      },
+      include: invitationListInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(invitation => this.toInvitationSummary(invitation));
+  }
+
+  /**
+   * Public details of an invitation, shown before it is accepted
+   * Only what the invitee needs to recognize the invitation is exposed
+   */
+  async getInvitationPreview(token: string) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { token },
+      include: invitationListInclude,
+    });
+
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    return {
+      email: invitation.email,
+      status: this.getEffectiveStatus(invitation),
+      expiresAt: invitation.expiresAt,
+      targetMode: invitation.targetMode,
+      childBrokerName: invitation.childBrokerName,
+      childBrokerDescription: invitation.childBrokerDescription,
+      targetBroker:
+        invitation.targetMode === 'existing_broker' && invitation.broker
+          ? { name: invitation.broker.name }
+          : null,
+      role: { name: invitation.role?.name ?? DEFAULT_INVITATION_ROLE },
+      invitedBy: {
+        firstName: invitation.invitedByUser.firstName,
+        lastName: invitation.invitedByUser.lastName,
+      },
+      invitingBroker: invitation.invitedByUser.broker
+        ? { name: invitation.invitedByUser.broker.name }
+        : null,
+    };
+  }
+
+  /**
+   * Send a pending or expired invitation again
+   * The token is rotated so earlier links stop working, and the expiry restarts
+   */
+  async resendInvitation(
+    invitationId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const invitation = await this.findAccessibleInvitation(
+      invitationId,
+      brokerFilter
+    );
+
+    if (invitation.status !== 'pending' && invitation.status !== 'expired') {
+      throw new ConflictError('Only pending or expired invitations can be resent');
+    }
+
+    // Pending invitations past their expiry count as expired, even before the
+    // expiry job has updated them
+    if (this.getEffectiveStatus(invitation) === 'expired') {
+      // Another invitation may have been sent to the same email in the meantime
+      await this.assertEmailCanBeInvited(invitation.email, invitation.id);
+
+      // Reopening an expired invitation takes up a slot of the sender's quota
+      if (invitation.invitedByUser.brokerId) {
+        await this.assertInvitationQuota(invitation.invitedByUser.brokerId);
+      }
+    }
+
+    const updated = await prisma.invitation.update({
+      where: { id: invitation.id },
+      data: {
+        status: 'pending',
+        token: uuidv4(),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      include: invitationListInclude,
+    });
+
+    const emailSent = await this.deliverInvitation(
+      'invitationReminder',
+      updated
+    );
+
+    authLogger.info('Invitation resent', {
+      invitationId: updated.id,
+      email: updated.email,
+      expiresAt: updated.expiresAt,
+      emailSent,
+      operation: 'resend_invitation_success'
+    });
+
+    await this.auditService.record({
+      action: 'invitation.resend',
+      resourceType: 'invitation',
+      resourceId: updated.id,
+      brokerId: updated.invitedByUser.broker?.id,
+      metadata: { email: updated.email, emailSent },
+    });
+
+    return {
+      invitation: this.toInvitationSummary(updated),
+      emailSent,
+    };
+  }
+
+  /**
+   * Revoke a pending invitation so its token can no longer be accepted
+   * The record is kept for the audit trail
+   */
+  async revokeInvitation(
+    invitationId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const invitation = await this.findAccessibleInvitation(
+      invitationId,
+      brokerFilter
+    );
+
+    if (invitation.status !== 'pending') {
+      throw new ConflictError('Only pending invitations can be revoked');
+    }
+
+    const updated = await prisma.invitation.update({
+      where: { id: invitation.id },
+      data: { status: 'revoked' },
+      include: invitationListInclude,
+    });
+
+    authLogger.info('Invitation revoked', {
+      invitationId: updated.id,
+      email: updated.email,
+      operation: 'revoke_invitation_success'
+    });
+
+    await this.auditService.record({
+      action: 'invitation.revoke',
+      resourceType: 'invitation',
+      resourceId: updated.id,
+      brokerId: updated.invitedByUser.broker?.id,
+      metadata: { email: updated.email },
+    });
+
+    return this.toInvitationSummary(updated);
+  }
+
+  /**
+   * Move pending invitations past their expiry to expired
+   * Run periodically by the invitation expiry job; returns how many were expired
+   */
+  async expireInvitations(): Promise<number> {
+    const now = new Date();
+    const stale = await prisma.invitation.findMany({
+      where: { status: 'pending', expiresAt: { lte: now } },
+      select: {
+        id: true,
+        email: true,
+        expiresAt: true,
+        invitedByUser: { select: { brokerId: true } },
+      },
+    });
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    let count = 0;
+
+    // Row by row, so only the instance whose update wins audits the expiry and
+    // invitations accepted, revoked or resent since the read are left alone
+    for (const invitation of stale) {
+      const { count: updated } = await prisma.invitation.updateMany({
+        where: { id: invitation.id, status: 'pending', expiresAt: { lte: now } },
+        data: { status: 'expired' },
+      });
+
+      if (updated !== 1) {
+        continue;
+      }
+
+      count++;
+      await this.auditService.record({
+        action: 'invitation.expire',
+        resourceType: 'invitation',
+        resourceId: invitation.id,
+        actorId: null,
+        brokerId: invitation.invitedByUser.brokerId,
+        metadata: {
+          email: invitation.email,
+          expiresAt: invitation.expiresAt.toISOString(),
+        },
+      });
+    }
+
+    authLogger.info('Expired invitations updated', {
+      expiredCount: count,
+      operation: 'expire_invitations'
+    });
+
+    return count;
+  }
+
+  /**
+   * An email can be invited unless it has a live pending invitation or
+   * already accepted one; expired and revoked invitations do not count
+   */
+  private async assertEmailCanBeInvited(email: string, excludeId?: string) {
+    const existingInvitation = await prisma.invitation.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        id: excludeId ? { not: excludeId } : undefined,
+        OR: [
+          { status: 'pending', expiresAt: { gt: new Date() } },
+          { status: 'accepted' },
+        ],
+      },
+    });
+
+    if (!existingInvitation) {
+      return;
+    }
+
+    authLogger.warn('Invitation rejected - email already invited', {
+      email,
+      existingInvitationId: existingInvitation.id,
+      existingStatus: existingInvitation.status,
+      operation: 'invitation_duplicate_check'
+    });
+
+    throw new ConflictError(
+      existingInvitation.status === 'accepted'
+        ? 'An invitation for this email has already been accepted'
+        : 'A pending invitation for this email already exists',
+      'INVITATION_EXISTS'
+    );
+  }
+
+  /**
+   * A broker can have at most its quota of live pending invitations open
+   * Brokers without a quota of their own use INVITATION_QUOTA_DEFAULT
+   */
+  private async assertInvitationQuota(brokerId: string) {
+    const broker = await prisma.broker.findUnique({
+      where: { id: brokerId },
+      select: { invitationQuota: true },
+    });
+
+    const envQuota = process.env.INVITATION_QUOTA_DEFAULT
+      ? Number(process.env.INVITATION_QUOTA_DEFAULT)
+      : NaN;
+    const quota =
+      broker?.invitationQuota ??
+      (Number.isInteger(envQuota) && envQuota >= 0
+        ? envQuota
+        : DEFAULT_INVITATION_QUOTA);
+
+    const pendingCount = await prisma.invitation.count({
+      where: {
+        status: 'pending',
+        expiresAt: { gt: new Date() },
+        invitedByUser: { brokerId },
+      },
+    });
+
+    if (pendingCount < quota) {
+      return;
+    }
+
+    authLogger.warn('Invitation rejected - broker quota reached', {
+      brokerId,
+      quota,
+      pendingCount,
+      operation: 'invitation_quota_check'
+    });
+
+    await this.auditService.record({
+      action: 'invitation.quota_exceeded',
+      resourceType: 'broker',
+      resourceId: brokerId,
+      outcome: 'denied',
+      brokerId,
+      metadata: { quota, pendingCount },
+    });
+
+    throw new ForbiddenError(
+      `Invitation quota reached: this broker can have at most ${quota} pending invitations`,
+      'INVITATION_QUOTA_EXCEEDED'
+    );
+  }
+
+  private async findAccessibleInvitation(
+    invitationId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const invitation = await prisma.invitation.findFirst({
+      where: {
+        AND: [{ id: invitationId }, { invitedByUser: brokerFilter }],
+      },
+      include: { invitedByUser: { select: { brokerId: true } } },
+    });
+
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Email the accept link; returns false instead of throwing when delivery fails
+   */
+  private async deliverInvitation(
+    template: Extract<MailTemplateName, 'invitation' | 'invitationReminder'>,
+    invitation: InvitationWithSender
+  ): Promise<boolean> {
+    try {
+      await mailService.sendTemplate(template, invitation.email, {
+        inviterName: `${invitation.invitedByUser.firstName} ${invitation.invitedByUser.lastName}`,
+        brokerName: invitation.invitedByUser.broker?.name ?? '',
+        targetBrokerName: this.getTargetBrokerName(invitation),
+        roleName: invitation.role?.name ?? DEFAULT_INVITATION_ROLE,
+        acceptUrl: clientUrl('/accept-invitation', { token: invitation.token }),
+        expiresAt: invitation.expiresAt,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getTargetBrokerName(invitation: InvitationWithSender): string {
+    return invitation.targetMode === 'existing_broker'
+      ? invitation.broker?.name ?? ''
+      : invitation.childBrokerName ?? '';
+  }
+
+  private getEffectiveStatus(invitation: {
+    status: InvitationStatus;
+    expiresAt: Date;
+  }): InvitationStatus {
+    return invitation.status === 'pending' && invitation.expiresAt <= new Date()
+      ? 'expired'
+      : invitation.status;
+  }
+
+  // The token is never listed; it is only delivered by email
+  private toInvitationSummary(invitation: InvitationWithSender) {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      invitedBy: invitation.invitedBy,
+      status: this.getEffectiveStatus(invitation),
+      expiresAt: invitation.expiresAt,
+      targetMode: invitation.targetMode,
+      brokerId: invitation.brokerId,
+      roleId: invitation.roleId,
+      childBrokerName: invitation.childBrokerName,
+      childBrokerDescription: invitation.childBrokerDescription,
+      createdAt: invitation.createdAt,
+      invitedByUser: invitation.invitedByUser,
+      broker: invitation.broker,
+      role: invitation.role,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import Joi from 'joi';
+import Joi from '../../../common/joi';
 
 export const sendInvitationSchema = Joi.object({
   email: Joi.string().email().required().messages({
@@ -6,15 +6,37 @@ export const sendInvitationSchema = Joi.object({
     'any.required': 'Email is required',
     'string.empty': 'Email cannot be empty',
   }),
-  childBrokerName: Joi.string().required().min(2).max(100).messages({
+  targetMode: Joi.string()
+    .valid('new_child_broker', 'existing_broker')
+    .default('new_child_broker')
+    .messages({
+      'any.only': 'Target mode must be new_child_broker or existing_broker',
+    }),
+  childBrokerName: Joi.string().min(2).max(100).when('targetMode', {
+    is: 'existing_broker',
+    then: Joi.forbidden(),
+    otherwise: Joi.required(),
+  }).messages({
     'any.required': 'Child broker name is required',
+    'any.unknown': 'Child broker name is only allowed when creating a new broker',
     'string.empty': 'Child broker name cannot be empty',
     'string.min': 'Child broker name must be at least 2 characters',
     'string.max': 'Child broker name cannot exceed 100 characters',
   }),
-  childBrokerDescription: Joi.string().optional().allow('').max(500).messages({
+  childBrokerDescription: Joi.string().optional().allow('').max(500).when('targetMode', {
+    is: 'existing_broker',
+    then: Joi.forbidden(),
+  }).messages({
+    'any.unknown': 'Child broker description is only allowed when creating a new broker',
     'string.max': 'Child broker description cannot exceed 500 characters',
   }),
+  brokerId: Joi.string().optional().when('targetMode', {
+    is: 'existing_broker',
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'any.unknown': 'Broker ID is only allowed when joining an existing broker',
+  }),
+  roleId: Joi.string().optional(),
 });
 
 export const acceptInvitationSchema = Joi.object({
@@ -39,14 +61,31 @@ export const acceptInvitationSchema = Joi.object({
     'string.min': 'Last name cannot be empty',
     'string.max': 'Last name cannot exceed 50 characters',
   }),
-  cedulaRuc: Joi.string().required().min(10).max(13).messages({
+  cedulaRuc: Joi.cedulaRuc().required().messages({
     'any.required': 'Cedula/RUC is required',
     'string.empty': 'Cedula/RUC cannot be empty',
-    'string.min': 'Cedula/RUC must be at least 10 characters',
-    'string.max': 'Cedula/RUC cannot exceed 13 characters',
   }),
   phone: Joi.string().optional().allow('').min(8).max(20).messages({
     'string.min': 'Phone number must be at least 8 characters',
     'string.max': 'Phone number cannot exceed 20 characters',
   }),
-}); 
\ No newline at end of file
+}); 
+
+// Query parameters of GET /api/invitations
+export const listInvitationsQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid('pending', 'accepted', 'revoked', 'expired')
+    .optional()
+    .messages({
+      'any.only': 'Status must be one of pending, accepted, revoked or expired',
+    }),
+  brokerId: Joi.string().optional(),
+});
+
+// Route params of the invitation management routes
+export const invitationIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Invitation ID must be a valid UUID',
+    'any.required': 'Invitation ID is required',
+  }),
+});
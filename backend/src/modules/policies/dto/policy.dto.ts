@@ -0,0 +1,30 @@
+import { PaymentFrequency, PolicyStatus } from '@prisma/client';
+
+export interface IssuePolicyDto {
+  quoteId: string;
+  policyNumber: string; // Number assigned by the insurer
+  startDate: Date;
+  endDate?: Date; // Defaults to one year after startDate
+  paymentFrequency: PaymentFrequency;
+  notes?: string;
+}
+
+// Coverage dates and premium come from the quote and are not editable
+export interface UpdatePolicyDto {
+  policyNumber?: string;
+  paymentFrequency?: PaymentFrequency;
+  notes?: string;
+}
+
+export interface CancelPolicyDto {
+  reason: string;
+  cancelledAt?: Date; // Defaults to now
+}
+
+export interface PolicyListFilters {
+  status?: PolicyStatus;
+  clientId?: string;
+  insurerId?: string;
+  brokerId?: string;
+  search?: string;
+}
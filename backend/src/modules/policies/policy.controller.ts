@@ -0,0 +1,119 @@
+import { Response } from 'express';
+import { PolicyService } from './policy.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import {
+  IssuePolicyDto,
+  UpdatePolicyDto,
+  CancelPolicyDto,
+  PolicyListFilters,
+} from './dto/policy.dto';
+
+export class PolicyController {
+  private policyService: PolicyService;
+
+  constructor() {
+    this.policyService = new PolicyService();
+  }
+
+  getPolicies = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const filters = req.query as unknown as PolicyListFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view policies for this broker.'
+      );
+    }
+
+    const policies = await this.policyService.getPolicies(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Policies retrieved successfully',
+      data: { policies },
+    });
+  };
+
+  getPolicyById = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const policy = await this.policyService.getPolicyById(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Policy retrieved successfully',
+      data: { policy },
+    });
+  };
+
+  issuePolicy = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const policyData: IssuePolicyDto = req.body;
+    const policy = await this.policyService.issuePolicy(
+      policyData,
+      getBrokerFilter(req),
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Policy issued successfully',
+      data: { policy },
+    });
+  };
+
+  updatePolicy = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdatePolicyDto = req.body;
+    const policy = await this.policyService.updatePolicy(
+      id,
+      updateData,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Policy updated successfully',
+      data: { policy },
+    });
+  };
+
+  cancelPolicy = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const cancelData: CancelPolicyDto = req.body;
+    const policy = await this.policyService.cancelPolicy(
+      id,
+      cancelData,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Policy cancelled successfully',
+      data: { policy },
+    });
+  };
+}
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { PolicyController } from './policy.controller';
+import {
+  authMiddleware,
+  requirePermission,
+  requireAnyPermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  issuePolicySchema,
+  updatePolicySchema,
+  cancelPolicySchema,
+  listPoliciesQuerySchema,
+  policyIdParamSchema,
+} from './validation/policy.schemas';
+
+const router = Router();
+const policyController = new PolicyController();
+
+const validateUuidParam = validate({ params: policyIdParamSchema });
+
+// Policy Routes (Broker Isolation Required)
+// Policies are issued from accepted quotes and are cancelled, never deleted
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['policies:read', 'policies:read:own']),
+  validate({ query: listPoliciesQuerySchema }),
+  policyController.getPolicies
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['policies:read', 'policies:read:own']),
+  validateUuidParam,
+  policyController.getPolicyById
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('policies:create'),
+  validateRequest(issuePolicySchema),
+  policyController.issuePolicy
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['policies:update', 'policies:update:own']),
+  validateUuidParam,
+  validateRequest(updatePolicySchema),
+  policyController.updatePolicy
+);
+
+router.patch(
+  '/:id/cancel',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['policies:update', 'policies:update:own']),
+  validateUuidParam,
+  validateRequest(cancelPolicySchema),
+  policyController.cancelPolicy
+);
+
+export default router;
@@ -0,0 +1,338 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { policyLogger } from '../../services/logger.service';
+import { CommissionEngineService } from '../../services/commissionEngine.service';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../../common/errors';
+import {
+  IssuePolicyDto,
+  UpdatePolicyDto,
+  CancelPolicyDto,
+  PolicyListFilters,
+} from './dto/policy.dto';
+
+const policyInclude = {
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  client: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      cedulaRuc: true,
+    },
+  },
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  product: {
+    select: {
+      id: true,
+      name: true,
+      lineOfBusiness: true,
+    },
+  },
+  quote: {
+    select: {
+      id: true,
+      quoteNumber: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.PolicyInclude;
+
+export class PolicyService {
+  private commissionEngine: CommissionEngineService;
+
+  constructor() {
+    this.commissionEngine = new CommissionEngineService();
+  }
+
+  /**
+   * List policies visible through the given broker filter
+   * Active policies past their end date are expired before being returned
+   */
+  async getPolicies(
+    brokerFilter: Prisma.PolicyWhereInput,
+    filters: PolicyListFilters = {}
+  ) {
+    const { status, clientId, insurerId, brokerId, search } = filters;
+
+    await this.expireEndedPolicies(brokerFilter);
+
+    const where: Prisma.PolicyWhereInput = {
+      AND: [
+        brokerFilter,
+        brokerId ? { brokerId } : {},
+        status ? { status } : {},
+        clientId ? { clientId } : {},
+        insurerId ? { insurerId } : {},
+        search
+          ? { policyNumber: { contains: search, mode: 'insensitive' } }
+          : {},
+      ],
+    };
+
+    const policies = await prisma.policy.findMany({
+      where,
+      include: policyInclude,
+      orderBy: { startDate: 'desc' },
+    });
+
+    policyLogger.debug('Policies retrieved', {
+      count: policies.length,
+      status,
+      clientId,
+      insurerId,
+      brokerId,
+      hasSearch: !!search,
+      operation: 'get_policies',
+    });
+
+    return policies;
+  }
+
+  /**
+   * Get a single policy, scoped by broker filter
+   * Policies outside the caller's brokers are reported as not found
+   */
+  async getPolicyById(id: string, brokerFilter: Prisma.PolicyWhereInput) {
+    await this.expireEndedPolicies({ AND: [{ id }, brokerFilter] });
+
+    const policy = await prisma.policy.findFirst({
+      where: { AND: [{ id }, brokerFilter] },
+      include: policyInclude,
+    });
+
+    if (!policy) {
+      throw new NotFoundError('Policy not found');
+    }
+
+    return policy;
+  }
+
+  /**
+   * Issue a policy from an accepted quote
+   * The policy inherits the quote's broker, client, product and premium
+   * Commissions are recorded for the selling broker and its ancestors
+   */
+  async issuePolicy(
+    data: IssuePolicyDto,
+    quoteBrokerFilter: Prisma.QuoteWhereInput,
+    createdById: string
+  ) {
+    const {
+      quoteId,
+      policyNumber,
+      startDate,
+      endDate,
+      paymentFrequency,
+      notes,
+    } = data;
+
+    const quote = await prisma.quote.findFirst({
+      where: { AND: [{ id: quoteId }, quoteBrokerFilter] },
+      include: {
+        product: { select: { id: true, insurerId: true } },
+        policy: { select: { id: true, policyNumber: true } },
+      },
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    if (quote.status !== 'accepted') {
+      throw new ConflictError(
+        `Only accepted quotes can be issued (current status: ${quote.status})`
+      );
+    }
+
+    if (quote.policy) {
+      throw new ConflictError(
+        `This quote was already issued as policy ${quote.policy.policyNumber}`
+      );
+    }
+
+    if (!quote.product || quote.premium === null) {
+      throw new BadRequestError(
+        'The quote needs a product and a premium before it can be issued'
+      );
+    }
+
+    await this.ensureUniquePolicyNumber(quote.product.insurerId, policyNumber);
+
+    const end = endDate ?? new Date(startDate);
+    if (!endDate) {
+      end.setUTCFullYear(end.getUTCFullYear() + 1);
+    }
+
+    const policyData: Prisma.PolicyUncheckedCreateInput = {
+      policyNumber,
+      brokerId: quote.brokerId,
+      clientId: quote.clientId,
+      quoteId: quote.id,
+      productId: quote.product.id,
+      insurerId: quote.product.insurerId,
+      createdById,
+      startDate,
+      endDate: end,
+      premium: quote.premium,
+      currency: quote.currency,
+      paymentFrequency,
+      notes: notes || null,
+    };
+
+    const policy = await prisma.$transaction(async tx => {
+      const createdPolicy = await tx.policy.create({
+        data: policyData,
+        include: policyInclude,
+      });
+
+      await this.commissionEngine.recordPolicyCommissions(
+        {
+          ...createdPolicy,
+          quote: { premiumBreakdown: quote.premiumBreakdown },
+        },
+        tx
+      );
+
+      return createdPolicy;
+    });
+
+    policyLogger.info('Policy issued successfully', {
+      policyId: policy.id,
+      policyNumber,
+      quoteId,
+      brokerId: quote.brokerId,
+      createdById,
+      operation: 'issue_policy_success',
+    });
+
+    return policy;
+  }
+
+  async updatePolicy(
+    id: string,
+    data: UpdatePolicyDto,
+    brokerFilter: Prisma.PolicyWhereInput
+  ) {
+    const policy = await this.getPolicyById(id, brokerFilter);
+    const { policyNumber, paymentFrequency, notes } = data;
+
+    if (policy.status === 'cancelled') {
+      throw new ConflictError('Cancelled policies cannot be edited');
+    }
+
+    if (policyNumber && policyNumber !== policy.policyNumber) {
+      await this.ensureUniquePolicyNumber(policy.insurerId, policyNumber);
+    }
+
+    const updatedPolicy = await prisma.policy.update({
+      where: { id },
+      data: {
+        policyNumber,
+        paymentFrequency,
+        notes: notes !== undefined ? notes || null : undefined,
+      },
+      include: policyInclude,
+    });
+
+    policyLogger.info('Policy updated successfully', {
+      policyId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_policy_success',
+    });
+
+    return updatedPolicy;
+  }
+
+  async cancelPolicy(
+    id: string,
+    data: CancelPolicyDto,
+    brokerFilter: Prisma.PolicyWhereInput
+  ) {
+    const policy = await this.getPolicyById(id, brokerFilter);
+
+    if (policy.status !== 'active') {
+      throw new ConflictError(
+        `Only active policies can be cancelled (current status: ${policy.status})`
+      );
+    }
+
+    const cancelledPolicy = await prisma.$transaction(async tx => {
+      await this.commissionEngine.voidPolicyCommissions(id, tx);
+
+      return tx.policy.update({
+        where: { id },
+        data: {
+          status: 'cancelled',
+          cancelledAt: data.cancelledAt ?? new Date(),
+          cancellationReason: data.reason,
+        },
+        include: policyInclude,
+      });
+    });
+
+    policyLogger.info('Policy cancelled', {
+      policyId: id,
+      policyNumber: policy.policyNumber,
+      operation: 'cancel_policy_success',
+    });
+
+    return cancelledPolicy;
+  }
+
+  private async ensureUniquePolicyNumber(
+    insurerId: string,
+    policyNumber: string
+  ) {
+    const existingPolicy = await prisma.policy.findUnique({
+      where: { insurerId_policyNumber: { insurerId, policyNumber } },
+    });
+
+    if (existingPolicy) {
+      throw new ConflictError(
+        'A policy with this number already exists for this insurer'
+      );
+    }
+  }
+
+  /**
+   * Mark active policies whose coverage has ended as expired
+   */
+  private async expireEndedPolicies(scope: Prisma.PolicyWhereInput) {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    const result = await prisma.policy.updateMany({
+      where: {
+        AND: [scope, { status: 'active' }, { endDate: { lt: today } }],
+      },
+      data: { status: 'expired' },
+    });
+
+    if (result.count > 0) {
+      policyLogger.info('Ended policies expired', {
+        count: result.count,
+        operation: 'expire_ended_policies',
+      });
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import Joi from 'joi';
+import { PolicyStatus } from '@prisma/client';
+
+export const paymentFrequencies = [
+  'single',
+  'annual',
+  'semiannual',
+  'quarterly',
+  'monthly',
+];
+
+const policyStatuses = Object.values(PolicyStatus);
+
+export const issuePolicySchema = Joi.object({
+  quoteId: Joi.string().uuid().required().messages({
+    'any.required': 'Quote ID is required',
+    'string.guid': 'Quote ID must be a valid UUID',
+  }),
+  policyNumber: Joi.string().trim().required().min(1).max(50).messages({
+    'any.required': 'Policy number is required',
+    'string.empty': 'Policy number cannot be empty',
+    'string.max': 'Policy number cannot exceed 50 characters',
+  }),
+  startDate: Joi.date().iso().required().messages({
+    'any.required': 'Start date is required',
+    'date.base': 'Start date must be a valid date',
+    'date.format': 'Start date must be an ISO date',
+  }),
+  endDate: Joi.date().iso().greater(Joi.ref('startDate')).optional().messages({
+    'date.base': 'End date must be a valid date',
+    'date.format': 'End date must be an ISO date',
+    'date.greater': 'End date must be after the start date',
+  }),
+  paymentFrequency: Joi.string()
+    .valid(...paymentFrequencies)
+    .required()
+    .messages({
+      'any.required': 'Payment frequency is required',
+      'any.only': `Payment frequency must be one of: ${paymentFrequencies.join(', ')}`,
+    }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+});
+
+export const updatePolicySchema = Joi.object({
+  policyNumber: Joi.string().trim().optional().min(1).max(50).messages({
+    'string.empty': 'Policy number cannot be empty',
+    'string.max': 'Policy number cannot exceed 50 characters',
+  }),
+  paymentFrequency: Joi.string()
+    .valid(...paymentFrequencies)
+    .optional()
+    .messages({
+      'any.only': `Payment frequency must be one of: ${paymentFrequencies.join(', ')}`,
+    }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const cancelPolicySchema = Joi.object({
+  reason: Joi.string().trim().required().min(3).max(500).messages({
+    'any.required': 'Cancellation reason is required',
+    'string.empty': 'Cancellation reason cannot be empty',
+    'string.min': 'Cancellation reason must be at least 3 characters',
+    'string.max': 'Cancellation reason cannot exceed 500 characters',
+  }),
+  cancelledAt: Joi.date().iso().optional().messages({
+    'date.base': 'Cancellation date must be a valid date',
+    'date.format': 'Cancellation date must be an ISO date',
+  }),
+});
+
+export const policyIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Policy ID must be a valid UUID',
+    'any.required': 'Policy ID is required',
+  }),
+});
+
+// Query parameters of GET /api/policies
+export const listPoliciesQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...policyStatuses)
+    .optional()
+    .messages({
+      'any.only': `Status must be one of: ${policyStatuses.join(', ')}`,
+    }),
+  clientId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Client ID must be a valid UUID',
+  }),
+  insurerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+  search: Joi.string().trim().max(100).optional().allow(''),
+});
@@ -0,0 +1,56 @@
+import { LineOfBusiness } from '@prisma/client';
+import { RatingFactorRule } from '../../../services/ratingEngine.service';
+
+export interface ProductCoverageDto {
+  name: string;
+  description?: string;
+  limitAmount?: number;
+  isOptional?: boolean;
+  additionalPremium?: number;
+}
+
+// A deductible is either a fixed amount, a percentage of the loss, or both
+export interface ProductDeductibleDto {
+  name: string;
+  amount?: number;
+  percentage?: number;
+  isDefault?: boolean;
+}
+
+export interface CreateProductDto {
+  insurerId: string;
+  name: string;
+  code?: string;
+  lineOfBusiness: LineOfBusiness;
+  description?: string;
+  coverages?: ProductCoverageDto[];
+  deductibles?: ProductDeductibleDto[];
+}
+
+// Coverages and deductibles, when provided, replace the existing ones
+export interface UpdateProductDto {
+  name?: string;
+  code?: string;
+  lineOfBusiness?: LineOfBusiness;
+  description?: string;
+  isActive?: boolean;
+  coverages?: ProductCoverageDto[];
+  deductibles?: ProductDeductibleDto[];
+}
+
+export interface ProductListFilters {
+  insurerId?: string;
+  lineOfBusiness?: LineOfBusiness;
+  isActive?: boolean;
+  search?: string;
+}
+
+// Premium = (basePremium + baseRate * insured value) adjusted by each factor
+export interface CreateRatingVersionDto {
+  basePremium?: number;
+  baseRate?: number;
+  minimumPremium?: number;
+  factors: RatingFactorRule[];
+  effectiveFrom?: Date; // Defaults to now
+  notes?: string;
+}
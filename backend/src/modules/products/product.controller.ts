@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { ProductService } from './product.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  CreateProductDto,
+  UpdateProductDto,
+  CreateRatingVersionDto,
+  ProductListFilters,
+} from './dto/product.dto';
+
+export class ProductController {
+  private productService: ProductService;
+
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  getProducts = async (req: Request, res: Response): Promise<void> => {
+    const filters = req.query as unknown as ProductListFilters;
+
+    const products = await this.productService.getProducts(filters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Products retrieved successfully',
+      data: { products },
+    });
+  };
+
+  getProductById = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const product = await this.productService.getProductById(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Product retrieved successfully',
+      data: { product },
+    });
+  };
+
+  createProduct = async (req: Request, res: Response): Promise<void> => {
+    const productData: CreateProductDto = req.body;
+    const product = await this.productService.createProduct(productData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Product created successfully',
+      data: { product },
+    });
+  };
+
+  updateProduct = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateProductDto = req.body;
+    const product = await this.productService.updateProduct(id, updateData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Product updated successfully',
+      data: { product },
+    });
+  };
+
+  deleteProduct = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const result = await this.productService.deleteProduct(id);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  };
+
+  getRatingVersions = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const ratingVersions = await this.productService.getRatingVersions(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Rating versions retrieved successfully',
+      data: { ratingVersions },
+    });
+  };
+
+  createRatingVersion = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const ratingData: CreateRatingVersionDto = req.body;
+    const ratingVersion = await this.productService.createRatingVersion(
+      id,
+      ratingData,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Rating version ${ratingVersion.version} published successfully`,
+      data: { ratingVersion },
+    });
+  };
+}
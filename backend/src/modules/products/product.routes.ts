@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { ProductController } from './product.controller';
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createProductSchema,
+  updateProductSchema,
+  createRatingVersionSchema,
+  listProductsQuerySchema,
+  productIdParamSchema,
+} from './validation/product.schemas';
+
+const router = Router();
+const productController = new ProductController();
+
+const validateUuidParam = validate({ params: productIdParamSchema });
+
+// Product Catalog Routes
+// Products carry their coverages and deductibles as nested resources
+router.get(
+  '/',
+  authMiddleware,
+  requirePermission('products:read'),
+  validate({ query: listProductsQuerySchema }),
+  productController.getProducts
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requirePermission('products:read'),
+  validateUuidParam,
+  productController.getProductById
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requirePermission('products:create'),
+  validateRequest(createProductSchema),
+  productController.createProduct
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requirePermission('products:update'),
+  validateUuidParam,
+  validateRequest(updateProductSchema),
+  productController.updateProduct
+);
+
+router.delete(
+  '/:id',
+  authMiddleware,
+  requirePermission('products:delete'),
+  validateUuidParam,
+  productController.deleteProduct
+);
+
+// Rating versions are append-only; publishing one supersedes the previous
+router.get(
+  '/:id/rating-versions',
+  authMiddleware,
+  requirePermission('products:read'),
+  validateUuidParam,
+  productController.getRatingVersions
+);
+
+router.post(
+  '/:id/rating-versions',
+  authMiddleware,
+  requirePermission('products:update'),
+  validateUuidParam,
+  validateRequest(createRatingVersionSchema),
+  productController.createRatingVersion
+);
+
+export default router;
@@ -0,0 +1,410 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { catalogLogger } from '../../services/logger.service';
+import {
+  CURRENT_RATING_CHARGES,
+  RatingEngineService,
+} from '../../services/ratingEngine.service';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../../common/errors';
+import {
+  CreateProductDto,
+  UpdateProductDto,
+  ProductListFilters,
+  ProductCoverageDto,
+  ProductDeductibleDto,
+  CreateRatingVersionDto,
+} from './dto/product.dto';
+
+const productInclude = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+    },
+  },
+  coverages: {
+    orderBy: { name: 'asc' },
+  },
+  deductibles: {
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.InsuranceProductInclude;
+
+export class ProductService {
+  private ratingEngine: RatingEngineService;
+
+  constructor() {
+    this.ratingEngine = new RatingEngineService();
+  }
+
+  async getProducts(filters: ProductListFilters = {}) {
+    const { insurerId, lineOfBusiness, isActive, search } = filters;
+
+    const where: Prisma.InsuranceProductWhereInput = {
+      AND: [
+        insurerId ? { insurerId } : {},
+        lineOfBusiness ? { lineOfBusiness } : {},
+        isActive !== undefined ? { isActive } : {},
+        search
+          ? {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { code: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const products = await prisma.insuranceProduct.findMany({
+      where,
+      include: productInclude,
+      orderBy: [{ insurer: { name: 'asc' } }, { name: 'asc' }],
+    });
+
+    catalogLogger.debug('Products retrieved', {
+      count: products.length,
+      insurerId,
+      lineOfBusiness,
+      hasSearch: !!search,
+      operation: 'get_products',
+    });
+
+    return products;
+  }
+
+  async getProductById(id: string) {
+    const product = await prisma.insuranceProduct.findUnique({
+      where: { id },
+      include: productInclude,
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    return product;
+  }
+
+  async createProduct(data: CreateProductDto) {
+    const {
+      insurerId,
+      name,
+      code,
+      lineOfBusiness,
+      description,
+      coverages = [],
+      deductibles = [],
+    } = data;
+
+    const insurer = await prisma.insurer.findUnique({
+      where: { id: insurerId },
+    });
+
+    if (!insurer) {
+      throw new NotFoundError('Insurer not found');
+    }
+
+    if (!insurer.isActive) {
+      throw new BadRequestError('Cannot add products to an inactive insurer');
+    }
+
+    await this.ensureUniqueName(insurerId, name);
+    this.validateDeductibles(deductibles);
+
+    const product = await prisma.insuranceProduct.create({
+      data: {
+        insurerId,
+        name,
+        code: code || null,
+        lineOfBusiness,
+        description: description || null,
+        coverages: {
+          create: coverages.map(this.toCoverageData),
+        },
+        deductibles: {
+          create: deductibles.map(this.toDeductibleData),
+        },
+      },
+      include: productInclude,
+    });
+
+    catalogLogger.info('Product created successfully', {
+      productId: product.id,
+      insurerId,
+      lineOfBusiness,
+      coverageCount: coverages.length,
+      deductibleCount: deductibles.length,
+      operation: 'create_product_success',
+    });
+
+    return product;
+  }
+
+  /**
+   * Update a product
+   * Coverages and deductibles are replaced as a whole when provided. Rows are
+   * matched by name and updated in place, so their ids stay valid for rating
+   * version catalogs and stored quote inputs.
+   */
+  async updateProduct(id: string, data: UpdateProductDto) {
+    const product = await this.getProductById(id);
+    const {
+      name,
+      code,
+      lineOfBusiness,
+      description,
+      isActive,
+      coverages,
+      deductibles,
+    } = data;
+
+    if (name && name !== product.name) {
+      await this.ensureUniqueName(product.insurerId, name);
+    }
+
+    if (deductibles) {
+      this.validateDeductibles(deductibles);
+    }
+
+    const updatedProduct = await prisma.$transaction(async tx => {
+      if (coverages) {
+        await this.replaceCoverages(tx, id, product.coverages, coverages);
+      }
+
+      if (deductibles) {
+        await this.replaceDeductibles(tx, id, product.deductibles, deductibles);
+      }
+
+      return tx.insuranceProduct.update({
+        where: { id },
+        data: {
+          name,
+          code: code !== undefined ? code || null : undefined,
+          lineOfBusiness,
+          description:
+            description !== undefined ? description || null : undefined,
+          isActive,
+        },
+        include: productInclude,
+      });
+    });
+
+    catalogLogger.info('Product updated successfully', {
+      productId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_product_success',
+    });
+
+    return updatedProduct;
+  }
+
+  /**
+   * Delete a product
+   * Products that were already quoted must be deactivated instead
+   */
+  async deleteProduct(id: string) {
+    const product = await this.getProductById(id);
+
+    const [quoteCount, optionCount] = await Promise.all([
+      prisma.quote.count({ where: { productId: id } }),
+      prisma.quoteOption.count({ where: { productId: id } }),
+    ]);
+
+    if (quoteCount + optionCount > 0) {
+      throw new ConflictError(
+        'Cannot delete a product that has been quoted. Deactivate it instead.'
+      );
+    }
+
+    await prisma.insuranceProduct.delete({
+      where: { id },
+    });
+
+    catalogLogger.info('Product deleted successfully', {
+      productId: id,
+      insurerId: product.insurerId,
+      operation: 'delete_product_success',
+    });
+
+    return { message: 'Product deleted successfully' };
+  }
+
+  async getRatingVersions(productId: string) {
+    await this.getProductById(productId);
+
+    return prisma.productRatingVersion.findMany({
+      where: { productId },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        _count: {
+          select: { quotes: true },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Publish a new rating version for a product
+   * Versions are never edited so quotes can always be recomputed. The current
+   * charges and the product's coverage premiums and deductibles are stored with
+   * it, so catalog changes apply to quotes from the next version on.
+   */
+  async createRatingVersion(
+    productId: string,
+    data: CreateRatingVersionDto,
+    createdById: string
+  ) {
+    const product = await this.getProductById(productId);
+    const factors = this.ratingEngine.validateFactors(data.factors);
+    const { basePremium, baseRate, minimumPremium, effectiveFrom, notes } =
+      data;
+
+    const ratingVersion = await prisma.$transaction(async tx => {
+      const latest = await tx.productRatingVersion.findFirst({
+        where: { productId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      return tx.productRatingVersion.create({
+        data: {
+          productId,
+          version: (latest?.version ?? 0) + 1,
+          basePremium: basePremium ?? null,
+          baseRate: baseRate ?? null,
+          minimumPremium: minimumPremium ?? null,
+          factors: factors as unknown as Prisma.InputJsonArray,
+          charges: CURRENT_RATING_CHARGES as unknown as Prisma.InputJsonObject,
+          catalog: this.ratingEngine.toRatingCatalog(
+            product
+          ) as unknown as Prisma.InputJsonObject,
+          effectiveFrom,
+          notes: notes || null,
+          createdById,
+        },
+      });
+    });
+
+    catalogLogger.info('Rating version published', {
+      productId,
+      ratingVersionId: ratingVersion.id,
+      version: ratingVersion.version,
+      factorTypes: factors.map(factor => factor.type),
+      createdById,
+      operation: 'create_rating_version_success',
+    });
+
+    return ratingVersion;
+  }
+
+  private async ensureUniqueName(insurerId: string, name: string) {
+    const existingProduct = await prisma.insuranceProduct.findUnique({
+      where: { insurerId_name: { insurerId, name } },
+    });
+
+    if (existingProduct) {
+      throw new ConflictError(
+        'This insurer already has a product with this name'
+      );
+    }
+  }
+
+  private validateDeductibles(deductibles: ProductDeductibleDto[]) {
+    const defaultCount = deductibles.filter(d => d.isDefault).length;
+
+    if (defaultCount > 1) {
+      throw new BadRequestError('Only one deductible can be the default');
+    }
+  }
+
+  private async replaceCoverages(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    existing: { id: string; name: string }[],
+    coverages: ProductCoverageDto[]
+  ) {
+    const idsByName = new Map(existing.map(row => [row.name, row.id]));
+    const keptIds = coverages.flatMap(coverage => {
+      const coverageId = idsByName.get(coverage.name);
+      return coverageId ? [coverageId] : [];
+    });
+
+    await tx.productCoverage.deleteMany({
+      where: { productId, id: { notIn: keptIds } },
+    });
+
+    for (const coverage of coverages) {
+      const coverageId = idsByName.get(coverage.name);
+      const data = this.toCoverageData(coverage);
+
+      if (coverageId) {
+        await tx.productCoverage.update({ where: { id: coverageId }, data });
+      } else {
+        await tx.productCoverage.create({ data: { ...data, productId } });
+      }
+    }
+  }
+
+  private async replaceDeductibles(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    existing: { id: string; name: string }[],
+    deductibles: ProductDeductibleDto[]
+  ) {
+    const idsByName = new Map(existing.map(row => [row.name, row.id]));
+    const keptIds = deductibles.flatMap(deductible => {
+      const deductibleId = idsByName.get(deductible.name);
+      return deductibleId ? [deductibleId] : [];
+    });
+
+    await tx.productDeductible.deleteMany({
+      where: { productId, id: { notIn: keptIds } },
+    });
+
+    for (const deductible of deductibles) {
+      const deductibleId = idsByName.get(deductible.name);
+      const data = this.toDeductibleData(deductible);
+
+      if (deductibleId) {
+        await tx.productDeductible.update({
+          where: { id: deductibleId },
+          data,
+        });
+      } else {
+        await tx.productDeductible.create({ data: { ...data, productId } });
+      }
+    }
+  }
+
+  private toCoverageData(coverage: ProductCoverageDto) {
+    return {
+      name: coverage.name,
+      description: coverage.description || null,
+      limitAmount: coverage.limitAmount ?? null,
+      isOptional: coverage.isOptional ?? false,
+      additionalPremium: coverage.additionalPremium ?? null,
+    };
+  }
+
+  private toDeductibleData(deductible: ProductDeductibleDto) {
+    return {
+      name: deductible.name,
+      amount: deductible.amount ?? null,
+      percentage: deductible.percentage ?? null,
+      isDefault: deductible.isDefault ?? false,
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import Joi from 'joi';
+
+export const linesOfBusiness = [
+  'auto',
+  'health',
+  'life',
+  'home',
+  'travel',
+  'accident',
+  'liability',
+];
+
+const coverageSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100).messages({
+    'any.required': 'Coverage name is required',
+    'string.empty': 'Coverage name cannot be empty',
+    'string.max': 'Coverage name cannot exceed 100 characters',
+  }),
+  description: Joi.string().optional().allow('').max(500).messages({
+    'string.max': 'Coverage description cannot exceed 500 characters',
+  }),
+  limitAmount: Joi.number().positive().precision(2).optional().messages({
+    'number.positive': 'Coverage limit must be greater than zero',
+  }),
+  isOptional: Joi.boolean().optional(),
+  additionalPremium: Joi.number().min(0).precision(2).optional().messages({
+    'number.min': 'Additional premium cannot be negative',
+  }),
+});
+
+const deductibleSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100).messages({
+    'any.required': 'Deductible name is required',
+    'string.empty': 'Deductible name cannot be empty',
+    'string.max': 'Deductible name cannot exceed 100 characters',
+  }),
+  amount: Joi.number().min(0).precision(2).optional().messages({
+    'number.min': 'Deductible amount cannot be negative',
+  }),
+  percentage: Joi.number().min(0).max(100).precision(2).optional().messages({
+    'number.min': 'Deductible percentage cannot be negative',
+    'number.max': 'Deductible percentage cannot exceed 100',
+  }),
+  isDefault: Joi.boolean().optional(),
+})
+  .or('amount', 'percentage')
+  .messages({
+    'object.missing': 'A deductible needs an amount or a percentage',
+  });
+
+// Names identify coverages and deductibles when a product is updated
+const coveragesSchema = Joi.array()
+  .items(coverageSchema)
+  .unique('name')
+  .optional()
+  .messages({
+    'array.unique': 'Coverage names cannot be repeated',
+  });
+
+const deductiblesSchema = Joi.array()
+  .items(deductibleSchema)
+  .unique('name')
+  .optional()
+  .messages({
+    'array.unique': 'Deductible names cannot be repeated',
+  });
+
+export const createProductSchema = Joi.object({
+  insurerId: Joi.string().uuid().required().messages({
+    'any.required': 'Insurer ID is required',
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+  name: Joi.string().trim().required().min(2).max(100).messages({
+    'any.required': 'Product name is required',
+    'string.empty': 'Product name cannot be empty',
+    'string.min': 'Product name must be at least 2 characters',
+    'string.max': 'Product name cannot exceed 100 characters',
+  }),
+  code: Joi.string().trim().optional().allow('').max(30).messages({
+    'string.max': 'Product code cannot exceed 30 characters',
+  }),
+  lineOfBusiness: Joi.string()
+    .valid(...linesOfBusiness)
+    .required()
+    .messages({
+      'any.required': 'Line of business is required',
+      'any.only': `Line of business must be one of: ${linesOfBusiness.join(', ')}`,
+    }),
+  description: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Description cannot exceed 2000 characters',
+  }),
+  coverages: coveragesSchema,
+  deductibles: deductiblesSchema,
+});
+
+export const updateProductSchema = Joi.object({
+  name: Joi.string().trim().optional().min(2).max(100).messages({
+    'string.empty': 'Product name cannot be empty',
+    'string.min': 'Product name must be at least 2 characters',
+    'string.max': 'Product name cannot exceed 100 characters',
+  }),
+  code: Joi.string().trim().optional().allow('').max(30).messages({
+    'string.max': 'Product code cannot exceed 30 characters',
+  }),
+  lineOfBusiness: Joi.string()
+    .valid(...linesOfBusiness)
+    .optional()
+    .messages({
+      'any.only': `Line of business must be one of: ${linesOfBusiness.join(', ')}`,
+    }),
+  description: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Description cannot exceed 2000 characters',
+  }),
+  isActive: Joi.boolean().optional(),
+  coverages: coveragesSchema,
+  deductibles: deductiblesSchema,
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+  });
+
+export const createRatingVersionSchema = Joi.object({
+  basePremium: Joi.number().min(0).precision(2).optional().messages({
+    'number.min': 'Base premium cannot be negative',
+  }),
+  baseRate: Joi.number().min(0).max(1).optional().messages({
+    'number.min': 'Base rate cannot be negative',
+    'number.max': 'Base rate is a fraction of the insured value (0 to 1)',
+  }),
+  minimumPremium: Joi.number().min(0).precision(2).optional().messages({
+    'number.min': 'Minimum premium cannot be negative',
+  }),
+  factors: Joi.array()
+    .items(
+      Joi.object({
+        type: Joi.string().required().messages({
+          'any.required': 'Each factor needs a type',
+        }),
+        label: Joi.string().optional().max(100),
+      }).unknown(true)
+    )
+    .required()
+    .messages({
+      'any.required': 'Factors are required (use an empty list for none)',
+    }),
+  effectiveFrom: Joi.date().iso().optional().messages({
+    'date.base': 'Effective from must be a valid date',
+    'date.format': 'Effective from must be an ISO date',
+  }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+})
+  .or('basePremium', 'baseRate')
+  .messages({
+    'object.missing': 'A rating version needs a base premium or a base rate',
+  });
+
+export const productIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Product ID must be a valid UUID',
+    'any.required': 'Product ID is required',
+  }),
+});
+
+// Query parameters of GET /api/products
+export const listProductsQuerySchema = Joi.object({
+  insurerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+  lineOfBusiness: Joi.string()
+    .valid(...linesOfBusiness)
+    .optional()
+    .messages({
+      'any.only': `Line of business must be one of: ${linesOfBusiness.join(', ')}`,
+    }),
+  isActive: Joi.boolean().optional(),
+  search: Joi.string().trim().max(100).optional().allow(''),
+});
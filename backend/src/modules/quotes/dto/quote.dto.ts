@@ -0,0 +1,100 @@
+import { LineOfBusiness, QuoteStatus, QuoteType } from '@prisma/client';
+
+// What the rating engine needs beyond the client's own data
+export interface QuoteRatingInputDto {
+  vehicleValue?: number;
+  sumInsured?: number;
+  deductibleId?: string;
+  coverageIds?: string[];
+}
+
+export interface CalculatePremiumDto extends QuoteRatingInputDto {
+  clientId: string;
+  productId: string;
+  ratingVersionId?: string; // Optional: defaults to the current version
+}
+
+export interface CreateQuoteDto {
+  clientId: string;
+  productId?: string;
+  title: string;
+  description?: string;
+  premium?: number; // Manual premium, not allowed together with ratingInput
+  currency?: string;
+  validUntil?: Date;
+  notes?: string;
+  ratingInput?: QuoteRatingInputDto; // Premium is computed by the rating engine
+}
+
+// Only draft quotes can be edited; the client cannot be changed
+export interface UpdateQuoteDto {
+  productId?: string;
+  title?: string;
+  description?: string;
+  premium?: number; // Manual premium, not allowed together with ratingInput
+  currency?: string;
+  validUntil?: Date;
+  notes?: string;
+  ratingInput?: QuoteRatingInputDto; // Premium is computed by the rating engine
+}
+
+// Rates every active product in a line of business for the same risk
+export interface CompareQuotesDto {
+  clientId: string;
+  lineOfBusiness: LineOfBusiness;
+  vehicleValue?: number;
+  sumInsured?: number;
+  coverageNames?: string[]; // Optional coverages every compared product must offer
+  save?: boolean; // Store the comparison as a comparative quote
+  title?: string;
+  validUntil?: Date;
+  notes?: string;
+}
+
+export interface UpdateQuoteStatusDto {
+  status: QuoteStatus;
+  notes?: string;
+}
+
+export interface QuoteListFilters {
+  status?: QuoteStatus;
+  type?: QuoteType;
+  clientId?: string;
+  brokerId?: string;
+  search?: string;
+}
+
+export interface QuoteResponseDto {
+  id: string;
+  quoteNumber: string;
+  brokerId: string;
+  clientId: string;
+  productId: string | null;
+  createdById: string;
+  status: QuoteStatus;
+  type: QuoteType;
+  title: string;
+  description: string | null;
+  premium: string | null;
+  currency: string;
+  validUntil: Date | null;
+  sentAt: Date | null;
+  respondedAt: Date | null;
+  notes: string | null;
+  ratingVersionId: string | null;
+  ratingInput: unknown;
+  premiumBreakdown: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  client: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    cedulaRuc: string;
+  };
+  createdBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
@@ -0,0 +1,258 @@
+import { Response } from 'express';
+import { QuoteService } from './quote.service';
+import { QuoteComparisonService } from './quoteComparison.service';
+import { QuotePdfService } from './quotePdf.service';
+import { ClientService } from '../clients/client.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import {
+  CreateQuoteDto,
+  UpdateQuoteDto,
+  UpdateQuoteStatusDto,
+  CalculatePremiumDto,
+  CompareQuotesDto,
+  QuoteListFilters,
+} from './dto/quote.dto';
+
+export class QuoteController {
+  private quoteService: QuoteService;
+  private quoteComparisonService: QuoteComparisonService;
+  private quotePdfService: QuotePdfService;
+  private clientService: ClientService;
+
+  constructor() {
+    this.quoteService = new QuoteService();
+    this.quoteComparisonService = new QuoteComparisonService();
+    this.quotePdfService = new QuotePdfService();
+    this.clientService = new ClientService();
+  }
+
+  getQuotes = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const filters = req.query as unknown as QuoteListFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view quotes for this broker.'
+      );
+    }
+
+    const quotes = await this.quoteService.getQuotes(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Quotes retrieved successfully',
+      data: { quotes },
+    });
+  };
+
+  getQuoteById = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const quote = await this.quoteService.getQuoteById(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Quote retrieved successfully',
+      data: { quote },
+    });
+  };
+
+  getQuotePdf = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { fileName, content } = await this.quotePdfService.renderQuote(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+    res.setHeader('Content-Length', content.length);
+    res.status(200).send(content);
+  };
+
+  createQuote = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const quoteData: CreateQuoteDto = req.body;
+
+    // The quote lives in the client's broker, so the client must be visible
+    const client = await this.clientService.getClientById(
+      quoteData.clientId,
+      getBrokerFilter(req)
+    );
+
+    if (!validateBrokerAccess(req, client.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot create quotes for this client.'
+      );
+    }
+
+    const quote = await this.quoteService.createQuote(
+      quoteData,
+      client,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Quote created successfully',
+      data: { quote },
+    });
+  };
+
+  calculatePremium = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const calculationData: CalculatePremiumDto = req.body;
+
+    const client = await this.clientService.getClientById(
+      calculationData.clientId,
+      getBrokerFilter(req)
+    );
+
+    const breakdown = await this.quoteService.calculatePremium(
+      calculationData,
+      client
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Premium calculated successfully',
+      data: { breakdown },
+    });
+  };
+
+  compareQuotes = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const compareData: CompareQuotesDto = req.body;
+
+    const client = await this.clientService.getClientById(
+      compareData.clientId,
+      getBrokerFilter(req)
+    );
+
+    const comparison = await this.quoteComparisonService.compareProducts(
+      compareData,
+      client
+    );
+
+    if (!compareData.save) {
+      res.status(200).json({
+        success: true,
+        message: 'Comparison calculated successfully',
+        data: { comparison },
+      });
+      return;
+    }
+
+    const quote = await this.quoteService.createComparativeQuote(
+      compareData,
+      comparison,
+      client,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Comparative quote created successfully',
+      data: { comparison, quote },
+    });
+  };
+
+  updateQuote = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const updateData: UpdateQuoteDto = req.body;
+
+    const quote = await this.quoteService.updateQuote(
+      id,
+      updateData,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Quote updated successfully',
+      data: { quote },
+    });
+  };
+
+  updateQuoteStatus = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const statusData: UpdateQuoteStatusDto = req.body;
+
+    const quote = await this.quoteService.updateQuoteStatus(
+      id,
+      statusData,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Quote marked as ${quote.status}`,
+      data: { quote },
+    });
+  };
+
+  selectQuoteOption = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id, optionId } = req.params;
+
+    const quote = await this.quoteService.selectQuoteOption(
+      id,
+      optionId,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Quote option selected successfully',
+      data: { quote },
+    });
+  };
+
+  deleteQuote = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const result = await this.quoteService.deleteQuote(
+      id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
+  };
+}
@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { QuoteController } from './quote.controller';
+import {
+  authMiddleware,
+  requirePermission,
+  requireAnyPermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  createQuoteSchema,
+  updateQuoteSchema,
+  updateQuoteStatusSchema,
+  calculatePremiumSchema,
+  compareQuotesSchema,
+  listQuotesQuerySchema,
+  quoteIdParamSchema,
+  quoteOptionParamSchema,
+} from './validation/quote.schemas';
+
+const router = Router();
+const quoteController = new QuoteController();
+
+const validateUuidParam = validate({ params: quoteIdParamSchema });
+
+// Quote Routes (Broker Isolation Required)
+// Quotes belong to the client's broker and follow the same scoping as clients
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:read', 'quotes:read:own']),
+  validate({ query: listQuotesQuerySchema }),
+  quoteController.getQuotes
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:read', 'quotes:read:own']),
+  validateUuidParam,
+  quoteController.getQuoteById
+);
+
+router.get(
+  '/:id/pdf',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:read', 'quotes:read:own']),
+  validateUuidParam,
+  quoteController.getQuotePdf
+);
+
+router.post(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('quotes:create'),
+  validateRequest(createQuoteSchema),
+  quoteController.createQuote
+);
+
+// Prices a product for a client without saving anything
+router.post(
+  '/calculate',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('quotes:create'),
+  validateRequest(calculatePremiumSchema),
+  quoteController.calculatePremium
+);
+
+// Rates every matching insurer product; with save=true stores a comparative quote
+router.post(
+  '/compare',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('quotes:create'),
+  validateRequest(compareQuotesSchema),
+  quoteController.compareQuotes
+);
+
+router.put(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:update', 'quotes:update:own']),
+  validateUuidParam,
+  validateRequest(updateQuoteSchema),
+  quoteController.updateQuote
+);
+
+router.patch(
+  '/:id/status',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:update', 'quotes:update:own']),
+  validateUuidParam,
+  validateRequest(updateQuoteStatusSchema),
+  quoteController.updateQuoteStatus
+);
+
+router.patch(
+  '/:id/options/:optionId/select',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['quotes:update', 'quotes:update:own']),
+  validate({ params: quoteOptionParamSchema }),
+  quoteController.selectQuoteOption
+);
+
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('quotes:delete'),
+  validateUuidParam,
+  quoteController.deleteQuote
+);
+
+export default router;
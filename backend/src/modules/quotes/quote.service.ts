@@ -0,0 +1,621 @@
+import { Prisma, QuoteStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../../config/database';
+import { quoteLogger } from '../../services/logger.service';
+import {
+  RatingClient,
+  RatingEngineService,
+} from '../../services/ratingEngine.service';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../../common/errors';
+import {
+  CreateQuoteDto,
+  UpdateQuoteDto,
+  UpdateQuoteStatusDto,
+  QuoteListFilters,
+  QuoteRatingInputDto,
+  CalculatePremiumDto,
+  CompareQuotesDto,
+} from './dto/quote.dto';
+import { QuoteComparison } from './quoteComparison.service';
+
+// Allowed lifecycle moves; accepted, rejected and expired are terminal
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent'],
+  sent: ['draft', 'accepted', 'rejected', 'expired'],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+// Validity applied when a quote is sent without an explicit validUntil
+const DEFAULT_VALIDITY_DAYS = 30;
+
+const quoteInclude = {
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  client: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      cedulaRuc: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  product: {
+    select: {
+      id: true,
+      name: true,
+      lineOfBusiness: true,
+      insurer: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  renewalOf: {
+    select: {
+      id: true,
+      policyNumber: true,
+      endDate: true,
+    },
+  },
+  options: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          insurer: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: { rank: 'asc' },
+  },
+} satisfies Prisma.QuoteInclude;
+
+type QuoteClient = RatingClient & { id: string; brokerId: string };
+
+export class QuoteService {
+  private ratingEngine: RatingEngineService;
+
+  constructor() {
+    this.ratingEngine = new RatingEngineService();
+  }
+
+  /**
+   * List quotes visible through the given broker filter
+   * Sent quotes past their validity are expired before being returned
+   */
+  async getQuotes(
+    brokerFilter: Prisma.QuoteWhereInput,
+    filters: QuoteListFilters = {}
+  ) {
+    const { status, type, clientId, brokerId, search } = filters;
+
+    await this.expireOverdueQuotes(brokerFilter);
+
+    const where: Prisma.QuoteWhereInput = {
+      AND: [
+        brokerFilter,
+        brokerId ? { brokerId } : {},
+        status ? { status } : {},
+        type ? { type } : {},
+        clientId ? { clientId } : {},
+        search
+          ? {
+              OR: [
+                { quoteNumber: { contains: search, mode: 'insensitive' } },
+                { title: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const quotes = await prisma.quote.findMany({
+      where,
+      include: quoteInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    quoteLogger.debug('Quotes retrieved', {
+      count: quotes.length,
+      status,
+      type,
+      clientId,
+      brokerId,
+      hasSearch: !!search,
+      operation: 'get_quotes',
+    });
+
+    return quotes;
+  }
+
+  /**
+   * Get a single quote, scoped by broker filter
+   * Quotes outside the caller's brokers are reported as not found
+   */
+  async getQuoteById(id: string, brokerFilter: Prisma.QuoteWhereInput) {
+    await this.expireOverdueQuotes({ AND: [{ id }, brokerFilter] });
+
+    const quote = await prisma.quote.findFirst({
+      where: { AND: [{ id }, brokerFilter] },
+      include: quoteInclude,
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Create a draft quote for a client
+   * The caller must have already validated access to the client's broker
+   * Renewal quotes also record the policy they renew
+   */
+  async createQuote(
+    data: CreateQuoteDto,
+    client: QuoteClient,
+    createdById: string,
+    renewalOfPolicyId?: string
+  ) {
+    const {
+      productId,
+      title,
+      description,
+      premium,
+      currency,
+      validUntil,
+      notes,
+      ratingInput,
+    } = data;
+
+    if (productId) {
+      await this.ensureQuotableProduct(productId);
+    }
+
+    const rating =
+      productId && ratingInput
+        ? await this.rateQuote(productId, client, ratingInput)
+        : null;
+
+    const quote = await prisma.quote.create({
+      data: {
+        quoteNumber: this.generateQuoteNumber(),
+        brokerId: client.brokerId,
+        clientId: client.id,
+        productId: productId || null,
+        renewalOfPolicyId: renewalOfPolicyId || null,
+        createdById,
+        title,
+        description: description || null,
+        premium: rating ? rating.premium : (premium ?? null),
+        currency: currency ? currency.toUpperCase() : undefined,
+        validUntil: validUntil ?? null,
+        notes: notes || null,
+        ratingVersionId: rating?.ratingVersionId,
+        ratingInput: rating?.ratingInput,
+        premiumBreakdown: rating?.premiumBreakdown,
+      },
+      include: quoteInclude,
+    });
+
+    quoteLogger.info('Quote created successfully', {
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      clientId: client.id,
+      brokerId: client.brokerId,
+      createdById,
+      renewalOfPolicyId,
+      operation: 'create_quote_success',
+    });
+
+    return quote;
+  }
+
+  async updateQuote(
+    id: string,
+    data: UpdateQuoteDto,
+    brokerFilter: Prisma.QuoteWhereInput
+  ) {
+    const quote = await this.getQuoteById(id, brokerFilter);
+
+    if (quote.status !== 'draft') {
+      throw new ConflictError(
+        `Only draft quotes can be edited (current status: ${quote.status})`
+      );
+    }
+
+    const {
+      productId,
+      title,
+      description,
+      premium,
+      currency,
+      validUntil,
+      notes,
+      ratingInput,
+    } = data;
+
+    if (
+      quote.type === 'comparative' &&
+      (productId || premium !== undefined || ratingInput)
+    ) {
+      throw new ConflictError(
+        'Comparative quotes are priced by selecting one of their options'
+      );
+    }
+
+    const productChanged = !!productId && productId !== quote.productId;
+    if (productChanged) {
+      await this.ensureQuotableProduct(productId);
+    }
+
+    const ratedProductId = productId ?? quote.productId;
+    if (ratingInput && !ratedProductId) {
+      throw new BadRequestError('A product is required to rate a quote');
+    }
+
+    let ratingData: Prisma.QuoteUncheckedUpdateInput = {};
+    if (ratingInput && ratedProductId) {
+      const client = await prisma.client.findUniqueOrThrow({
+        where: { id: quote.clientId },
+      });
+      ratingData = await this.rateQuote(ratedProductId, client, ratingInput);
+    } else if (productChanged || premium !== undefined) {
+      // A manual premium or another product invalidates the stored rating
+      ratingData = {
+        ratingVersionId: null,
+        ratingInput: Prisma.DbNull,
+        premiumBreakdown: Prisma.DbNull,
+      };
+    }
+
+    const updatedQuote = await prisma.quote.update({
+      where: { id },
+      data: {
+        productId,
+        title,
+        description:
+          description !== undefined ? description || null : undefined,
+        premium,
+        currency: currency ? currency.toUpperCase() : undefined,
+        validUntil,
+        notes: notes !== undefined ? notes || null : undefined,
+        ...ratingData,
+      },
+      include: quoteInclude,
+    });
+
+    quoteLogger.info('Quote updated successfully', {
+      quoteId: id,
+      changedFields: Object.keys(data),
+      operation: 'update_quote_success',
+    });
+
+    return updatedQuote;
+  }
+
+  /**
+   * Move a quote through its lifecycle
+   * Only transitions listed in QUOTE_STATUS_TRANSITIONS are allowed
+   */
+  async updateQuoteStatus(
+    id: string,
+    data: UpdateQuoteStatusDto,
+    brokerFilter: Prisma.QuoteWhereInput
+  ) {
+    const quote = await this.getQuoteById(id, brokerFilter);
+    const { status, notes } = data;
+
+    if (!QUOTE_STATUS_TRANSITIONS[quote.status].includes(status)) {
+      quoteLogger.warn('Quote status change rejected', {
+        quoteId: id,
+        from: quote.status,
+        to: status,
+        operation: 'update_quote_status_validation',
+      });
+      throw new ConflictError(
+        `Cannot change quote status from ${quote.status} to ${status}`
+      );
+    }
+
+    const now = new Date();
+    const statusData: Prisma.QuoteUpdateInput = { status };
+
+    switch (status) {
+      case 'sent':
+        if (quote.type === 'single' && quote.premium === null) {
+          throw new BadRequestError(
+            'A quote needs a premium before it is sent'
+          );
+        }
+        statusData.sentAt = now;
+        statusData.validUntil =
+          quote.validUntil ??
+          new Date(now.getTime() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+        break;
+      case 'draft':
+        // Reopened for revision, so it has to be sent again
+        statusData.sentAt = null;
+        break;
+      case 'accepted':
+        if (
+          quote.type === 'comparative' &&
+          !quote.options.some(option => option.isSelected)
+        ) {
+          throw new BadRequestError(
+            'Select one of the options before accepting a comparative quote'
+          );
+        }
+        statusData.respondedAt = now;
+        break;
+      case 'rejected':
+        statusData.respondedAt = now;
+        break;
+    }
+
+    if (notes !== undefined) {
+      statusData.notes = notes || null;
+    }
+
+    const updatedQuote = await prisma.quote.update({
+      where: { id },
+      data: statusData,
+      include: quoteInclude,
+    });
+
+    quoteLogger.info('Quote status updated', {
+      quoteId: id,
+      from: quote.status,
+      to: status,
+      operation: 'update_quote_status_success',
+    });
+
+    return updatedQuote;
+  }
+
+  /**
+   * Save a comparison as a comparative quote with one option per product
+   * The caller must have already validated access to the client's broker
+   */
+  async createComparativeQuote(
+    data: CompareQuotesDto,
+    comparison: QuoteComparison,
+    client: QuoteClient,
+    createdById: string
+  ) {
+    if (comparison.options.length === 0) {
+      throw new BadRequestError(
+        'No insurer product could be rated for this risk'
+      );
+    }
+
+    const { lineOfBusiness, title, validUntil, notes } = data;
+
+    const quote = await prisma.quote.create({
+      data: {
+        quoteNumber: this.generateQuoteNumber(),
+        type: 'comparative',
+        brokerId: client.brokerId,
+        clientId: client.id,
+        createdById,
+        title: title || `Comparativo ${lineOfBusiness}`,
+        validUntil: validUntil ?? null,
+        notes: notes || null,
+        ratingInput: {
+          lineOfBusiness,
+          vehicleValue: data.vehicleValue,
+          sumInsured: data.sumInsured,
+          coverageNames: data.coverageNames,
+        } as Prisma.InputJsonObject,
+        options: {
+          create: comparison.options.map(option => ({
+            productId: option.productId,
+            ratingVersionId: option.ratingVersionId,
+            rank: option.rank,
+            premium: option.totalPremium,
+            premiumBreakdown:
+              option.breakdown as unknown as Prisma.InputJsonObject,
+          })),
+        },
+      },
+      include: quoteInclude,
+    });
+
+    quoteLogger.info('Comparative quote created successfully', {
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      clientId: client.id,
+      optionCount: comparison.options.length,
+      createdById,
+      operation: 'create_comparative_quote_success',
+    });
+
+    return quote;
+  }
+
+  /**
+   * Pick the option the client chose on a comparative quote
+   * The quote takes over the option's product, premium and breakdown
+   */
+  async selectQuoteOption(
+    id: string,
+    optionId: string,
+    brokerFilter: Prisma.QuoteWhereInput
+  ) {
+    const quote = await this.getQuoteById(id, brokerFilter);
+
+    if (quote.type !== 'comparative') {
+      throw new BadRequestError('Only comparative quotes have options');
+    }
+
+    if (quote.status !== 'draft' && quote.status !== 'sent') {
+      throw new ConflictError(
+        `Cannot change the selected option of a ${quote.status} quote`
+      );
+    }
+
+    const option = quote.options.find(o => o.id === optionId);
+    if (!option) {
+      throw new NotFoundError('Quote option not found');
+    }
+
+    const updatedQuote = await prisma.$transaction(async tx => {
+      await tx.quoteOption.updateMany({
+        where: { quoteId: id },
+        data: { isSelected: false },
+      });
+
+      await tx.quoteOption.update({
+        where: { id: optionId },
+        data: { isSelected: true },
+      });
+
+      return tx.quote.update({
+        where: { id },
+        data: {
+          productId: option.productId,
+          ratingVersionId: option.ratingVersionId,
+          premium: option.premium,
+          premiumBreakdown: option.premiumBreakdown as Prisma.InputJsonValue,
+        },
+        include: quoteInclude,
+      });
+    });
+
+    quoteLogger.info('Quote option selected', {
+      quoteId: id,
+      optionId,
+      productId: option.productId,
+      rank: option.rank,
+      operation: 'select_quote_option_success',
+    });
+
+    return updatedQuote;
+  }
+
+  async deleteQuote(id: string, brokerFilter: Prisma.QuoteWhereInput) {
+    const quote = await this.getQuoteById(id, brokerFilter);
+
+    if (quote.status !== 'draft') {
+      throw new ConflictError('Only draft quotes can be deleted');
+    }
+
+    await prisma.quote.delete({
+      where: { id: quote.id },
+    });
+
+    quoteLogger.info('Quote deleted successfully', {
+      quoteId: id,
+      brokerId: quote.brokerId,
+      operation: 'delete_quote_success',
+    });
+
+    return { message: 'Quote deleted successfully' };
+  }
+
+  /**
+   * Price a product for a client without creating a quote
+   */
+  async calculatePremium(data: CalculatePremiumDto, client: RatingClient) {
+    const { productId, ratingVersionId, ...ratingInput } = data;
+    await this.ensureQuotableProduct(productId);
+
+    return this.ratingEngine.calculatePremium(
+      productId,
+      client,
+      ratingInput,
+      ratingVersionId
+    );
+  }
+
+  /**
+   * Rate a quote with the current rating version
+   * The stored input pins the rating date so the result can be recomputed
+   */
+  private async rateQuote(
+    productId: string,
+    client: RatingClient,
+    ratingInput: QuoteRatingInputDto
+  ) {
+    const input = { ...ratingInput, ratingDate: new Date().toISOString() };
+    const breakdown = await this.ratingEngine.calculatePremium(
+      productId,
+      client,
+      input
+    );
+
+    return {
+      premium: breakdown.totalPremium,
+      ratingVersionId: breakdown.ratingVersionId,
+      ratingInput: input as Prisma.InputJsonObject,
+      premiumBreakdown: breakdown as unknown as Prisma.InputJsonObject,
+    };
+  }
+
+  private async ensureQuotableProduct(productId: string) {
+    const product = await prisma.insuranceProduct.findUnique({
+      where: { id: productId },
+      include: { insurer: { select: { isActive: true } } },
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    if (!product.isActive || !product.insurer.isActive) {
+      throw new BadRequestError('This product is not available for quoting');
+    }
+  }
+
+  /**
+   * Mark sent quotes whose validity has passed as expired
+   */
+  private async expireOverdueQuotes(scope: Prisma.QuoteWhereInput) {
+    const result = await prisma.quote.updateMany({
+      where: {
+        AND: [scope, { status: 'sent' }, { validUntil: { lt: new Date() } }],
+      },
+      data: { status: 'expired' },
+    });
+
+    if (result.count > 0) {
+      quoteLogger.info('Overdue quotes expired', {
+        count: result.count,
+        operation: 'expire_overdue_quotes',
+      });
+    }
+  }
+
+  // e.g. COT-2025-1A2B3C4D
+  private generateQuoteNumber(): string {
+    const year = new Date().getFullYear();
+    const suffix = uuidv4().replace(/-/g, '').slice(0, 8).toUpperCase();
+    return `COT-${year}-${suffix}`;
+  }
+}
@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { quoteLogger } from '../../services/logger.service';
+import { AppError } from '../../common/errors';
+import {
+  PremiumBreakdown,
+  RatingCatalog,
+  RatingClient,
+  RatingEngineService,
+} from '../../services/ratingEngine.service';
+import { CompareQuotesDto } from './dto/quote.dto';
+
+type CoverageStatus = 'included' | 'optional' | 'selected' | 'not_offered';
+
+export interface ComparisonOption {
+  rank: number;
+  productId: string;
+  productName: string;
+  insurer: { id: string; name: string };
+  ratingVersionId: string;
+  netPremium: number;
+  totalPremium: number;
+  deductible: PremiumBreakdown['deductible'];
+  breakdown: PremiumBreakdown;
+}
+
+export interface QuoteComparison {
+  lineOfBusiness: CompareQuotesDto['lineOfBusiness'];
+  options: ComparisonOption[];
+  coverageMatrix: {
+    name: string;
+    products: Record<
+      string,
+      {
+        status: CoverageStatus;
+        limitAmount: number | null;
+        additionalPremium: number | null;
+      }
+    >;
+  }[];
+  excluded: {
+    productId: string;
+    productName: string;
+    insurerName: string;
+    reason: string;
+  }[];
+}
+
+const comparableProductInclude = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  coverages: true,
+  deductibles: true,
+} satisfies Prisma.InsuranceProductInclude;
+
+type CatalogCoverage = RatingCatalog['coverages'][number];
+
+export class QuoteComparisonService {
+  private ratingEngine: RatingEngineService;
+
+  constructor() {
+    this.ratingEngine = new RatingEngineService();
+  }
+
+  /**
+   * Rate every active product of the line of business for the same risk
+   * Products that cannot cover the risk are listed as excluded with a reason
+   */
+  async compareProducts(
+    data: CompareQuotesDto,
+    client: RatingClient
+  ): Promise<QuoteComparison> {
+    const { lineOfBusiness, vehicleValue, sumInsured } = data;
+    const coverageNames = data.coverageNames ?? [];
+
+    const products = await prisma.insuranceProduct.findMany({
+      where: {
+        lineOfBusiness,
+        isActive: true,
+        insurer: { isActive: true },
+        ratingVersions: { some: { effectiveFrom: { lte: new Date() } } },
+      },
+      include: comparableProductInclude,
+      orderBy: [{ insurer: { name: 'asc' } }, { name: 'asc' }],
+    });
+
+    const rated: Omit<ComparisonOption, 'rank'>[] = [];
+    const excluded: QuoteComparison['excluded'] = [];
+
+    // Coverages offered by each rated product in the version it was rated with
+    const catalogs = new Map<string, CatalogCoverage[]>();
+
+    // Rated one at a time to keep the connection pool free for other requests
+    for (const product of products) {
+      try {
+        // Coverage names are resolved in the catalog of the version used
+        const ratingVersion = await this.ratingEngine.getRatingVersion(
+          product.id
+        );
+        const { coverages } = this.ratingEngine.getRatingCatalog(
+          ratingVersion,
+          product
+        );
+
+        const coverageIds: string[] = [];
+        const missing = coverageNames.filter(name => {
+          const coverage = this.findCoverage(coverages, name);
+          if (coverage?.isOptional) {
+            coverageIds.push(coverage.id);
+          }
+          return !coverage;
+        });
+
+        if (missing.length > 0) {
+          excluded.push({
+            productId: product.id,
+            productName: product.name,
+            insurerName: product.insurer.name,
+            reason: `Does not offer: ${missing.join(', ')}`,
+          });
+          continue;
+        }
+
+        const breakdown = await this.ratingEngine.calculatePremium(
+          product.id,
+          client,
+          { vehicleValue, sumInsured, coverageIds },
+          ratingVersion.id
+        );
+
+        catalogs.set(product.id, coverages);
+        rated.push({
+          productId: product.id,
+          productName: product.name,
+          insurer: product.insurer,
+          ratingVersionId: breakdown.ratingVersionId,
+          netPremium: breakdown.netPremium,
+          totalPremium: breakdown.totalPremium,
+          deductible: breakdown.deductible,
+          breakdown,
+        });
+      } catch (error) {
+        // Only application errors carry messages meant for the client
+        if (!(error instanceof AppError)) {
+          quoteLogger.error('Product could not be rated', error, {
+            productId: product.id,
+            operation: 'compare_products',
+          });
+        }
+
+        excluded.push({
+          productId: product.id,
+          productName: product.name,
+          insurerName: product.insurer.name,
+          reason:
+            error instanceof AppError ? error.message : 'Could not be rated',
+        });
+      }
+    }
+
+    const options = rated
+      .sort(
+        (a, b) =>
+          a.totalPremium - b.totalPremium ||
+          a.insurer.name.localeCompare(b.insurer.name)
+      )
+      .map((option, index) => ({ rank: index + 1, ...option }));
+
+    quoteLogger.info('Comparative rating completed', {
+      lineOfBusiness,
+      productCount: products.length,
+      ratedCount: options.length,
+      excludedCount: excluded.length,
+      operation: 'compare_products',
+    });
+
+    return {
+      lineOfBusiness,
+      options,
+      coverageMatrix: this.buildCoverageMatrix(catalogs, coverageNames),
+      excluded,
+    };
+  }
+
+  /**
+   * One row per coverage name across the compared products
+   * Limits and premiums come from the catalog each product was rated with
+   */
+  private buildCoverageMatrix(
+    catalogs: Map<string, CatalogCoverage[]>,
+    selectedNames: string[]
+  ): QuoteComparison['coverageMatrix'] {
+    const names = new Map<string, string>();
+    catalogs.forEach(coverages =>
+      coverages.forEach(coverage =>
+        names.set(coverage.name.toLowerCase(), coverage.name)
+      )
+    );
+
+    return [...names.values()]
+      .sort((a, b) => a.localeCompare(b))
+      .map(name => ({
+        name,
+        products: Object.fromEntries(
+          [...catalogs].map(([productId, coverages]) => {
+            const coverage = this.findCoverage(coverages, name);
+            const isSelected = selectedNames.some(
+              selected => selected.toLowerCase() === name.toLowerCase()
+            );
+            const status: CoverageStatus = !coverage
+              ? 'not_offered'
+              : !coverage.isOptional
+                ? 'included'
+                : isSelected
+                  ? 'selected'
+                  : 'optional';
+
+            return [
+              productId,
+              {
+                status,
+                limitAmount: coverage?.limitAmount ?? null,
+                additionalPremium: coverage?.additionalPremium ?? null,
+              },
+            ];
+          })
+        ),
+      }));
+  }
+
+  private findCoverage(coverages: CatalogCoverage[], name: string) {
+    return coverages.find(
+      coverage => coverage.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+}
@@ -0,0 +1,428 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { quoteLogger } from '../../services/logger.service';
+import { NotFoundError } from '../../common/errors';
+import { ECUADOR_PROVINCES } from '../../common/provinces';
+import { PremiumBreakdown } from '../../services/ratingEngine.service';
+
+const pdfQuoteInclude = {
+  broker: {
+    select: {
+      name: true,
+      logoUrl: true,
+    },
+  },
+  client: true,
+  createdBy: {
+    select: {
+      firstName: true,
+      lastName: true,
+      phone: true,
+    },
+  },
+  product: {
+    select: {
+      name: true,
+      insurer: { select: { name: true } },
+    },
+  },
+  options: {
+    include: {
+      product: {
+        select: {
+          name: true,
+          insurer: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { rank: 'asc' },
+  },
+} satisfies Prisma.QuoteInclude;
+
+type PdfQuote = Prisma.QuoteGetPayload<{ include: typeof pdfQuoteInclude }>;
+
+const STATUS_LABELS: Record<PdfQuote['status'], string> = {
+  draft: 'Borrador',
+  sent: 'Enviada',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada',
+  expired: 'Vencida',
+};
+
+const MARGIN = 50;
+const ACCENT_COLOR = '#1f4e79';
+const MUTED_COLOR = '#555555';
+
+// Broker logos stored as file names are looked up in this directory only
+const LOGO_DIR = path.resolve(process.env.LOGO_DIR || 'assets/logos');
+const LOGO_FILE_NAME = /^[\w-]+\.(png|jpe?g)$/i;
+
+export class QuotePdfService {
+  /**
+   * Render a quote or comparison as a branded PDF
+   * Everything is drawn locally with pdfkit, no external services involved
+   */
+  async renderQuote(
+    id: string,
+    brokerFilter: Prisma.QuoteWhereInput
+  ): Promise<{ fileName: string; content: Buffer }> {
+    const quote = await prisma.quote.findFirst({
+      where: { AND: [{ id }, brokerFilter] },
+      include: pdfQuoteInclude,
+    });
+
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.drawHeader(doc, quote);
+    this.drawParties(doc, quote);
+
+    if (quote.type === 'comparative') {
+      this.drawComparison(doc, quote);
+    } else {
+      this.drawSingleQuote(doc, quote);
+    }
+
+    this.drawFooter(doc, quote);
+    doc.end();
+
+    const content = await finished;
+
+    quoteLogger.info('Quote PDF generated', {
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      type: quote.type,
+      size: content.length,
+      operation: 'render_quote_pdf',
+    });
+
+    return { fileName: `${quote.quoteNumber}.pdf`, content };
+  }
+
+  private drawHeader(doc: PDFKit.PDFDocument, quote: PdfQuote) {
+    const top = doc.y;
+    const logo = this.loadLogo(quote.broker.logoUrl);
+    let textLeft = MARGIN;
+
+    if (logo) {
+      try {
+        doc.image(logo, MARGIN, top, { fit: [120, 60] });
+        textLeft = MARGIN + 135;
+      } catch (error) {
+        quoteLogger.warn('Broker logo could not be drawn', {
+          quoteId: quote.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          operation: 'render_quote_pdf_logo',
+        });
+      }
+    }
+
+    doc
+      .fillColor(ACCENT_COLOR)
+      .fontSize(18)
+      .font('Helvetica-Bold')
+      .text(quote.broker.name, textLeft, top);
+    doc
+      .fillColor(MUTED_COLOR)
+      .fontSize(10)
+      .font('Helvetica')
+      .text(
+        quote.type === 'comparative'
+          ? 'Cuadro comparativo de seguros'
+          : 'Cotización de seguro',
+        textLeft
+      );
+
+    doc.y = Math.max(doc.y, top + 65);
+    doc
+      .moveTo(MARGIN, doc.y)
+      .lineTo(doc.page.width - MARGIN, doc.y)
+      .strokeColor(ACCENT_COLOR)
+      .stroke();
+    doc.moveDown();
+
+    doc.fillColor('black').fontSize(14).font('Helvetica-Bold');
+    doc.text(quote.title, MARGIN);
+    doc.fontSize(10).font('Helvetica');
+    doc.text(`Número: ${quote.quoteNumber}`);
+    doc.text(`Fecha: ${this.formatDate(quote.createdAt)}`);
+    doc.text(`Estado: ${STATUS_LABELS[quote.status]}`);
+    if (quote.validUntil) {
+      doc.text(`Válida hasta: ${this.formatDate(quote.validUntil)}`);
+    }
+    doc.moveDown();
+  }
+
+  private drawParties(doc: PDFKit.PDFDocument, quote: PdfQuote) {
+    const { client, createdBy } = quote;
+
+    this.drawSectionTitle(doc, 'Cliente');
+    doc.text(`${client.firstName} ${client.lastName}`);
+    doc.text(`Cédula/RUC: ${client.cedulaRuc}`);
+    if (client.email) doc.text(`Email: ${client.email}`);
+    if (client.phone) doc.text(`Teléfono: ${client.phone}`);
+    if (client.province) {
+      doc.text(
+        `Provincia: ${ECUADOR_PROVINCES[client.province] ?? client.province}`
+      );
+    }
+    doc.moveDown();
+
+    this.drawSectionTitle(doc, 'Asesor');
+    doc.text(`${createdBy.firstName} ${createdBy.lastName}`);
+    if (createdBy.phone) doc.text(`Teléfono: ${createdBy.phone}`);
+    doc.moveDown();
+  }
+
+  private drawSingleQuote(doc: PDFKit.PDFDocument, quote: PdfQuote) {
+    if (quote.product) {
+      this.drawSectionTitle(doc, 'Producto');
+      doc.text(`${quote.product.insurer.name} - ${quote.product.name}`);
+      doc.moveDown();
+    }
+
+    if (quote.description) {
+      doc.text(quote.description);
+      doc.moveDown();
+    }
+
+    this.drawSectionTitle(doc, 'Detalle de la prima');
+    const breakdown =
+      quote.premiumBreakdown as unknown as PremiumBreakdown | null;
+
+    if (breakdown) {
+      this.drawBreakdown(doc, breakdown, quote.currency);
+    } else if (quote.premium !== null) {
+      this.drawAmountRow(
+        doc,
+        'Prima total',
+        quote.premium.toNumber(),
+        quote.currency,
+        true
+      );
+    } else {
+      doc.text('Prima pendiente de cálculo.');
+    }
+  }
+
+  private drawComparison(doc: PDFKit.PDFDocument, quote: PdfQuote) {
+    this.drawSectionTitle(doc, 'Opciones cotizadas');
+
+    const columns = [
+      { label: '#', width: 25 },
+      { label: 'Aseguradora', width: 150 },
+      { label: 'Producto', width: 150 },
+      { label: 'Prima neta', width: 85, align: 'right' as const },
+      { label: 'Prima total', width: 85, align: 'right' as const },
+    ];
+
+    const drawRow = (values: string[], bold = false) => {
+      const y = doc.y;
+      let x = MARGIN;
+      let bottom = y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      values.forEach((value, index) => {
+        const column = columns[index];
+        doc.text(value, x, y, { width: column.width, align: column.align });
+        bottom = Math.max(bottom, doc.y);
+        x += column.width;
+      });
+      doc.x = MARGIN;
+      doc.y = bottom;
+      doc.moveDown(0.5);
+    };
+
+    drawRow(
+      columns.map(column => column.label),
+      true
+    );
+
+    quote.options.forEach(option => {
+      const breakdown = option.premiumBreakdown as unknown as PremiumBreakdown;
+      drawRow(
+        [
+          `${option.rank}${option.isSelected ? '*' : ''}`,
+          option.product.insurer.name,
+          option.product.name,
+          this.formatMoney(breakdown.netPremium, quote.currency),
+          this.formatMoney(option.premium.toNumber(), quote.currency),
+        ],
+        option.isSelected
+      );
+    });
+
+    if (quote.options.some(option => option.isSelected)) {
+      doc.moveDown(0.5);
+      doc
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text('* Opción seleccionada por el cliente', MARGIN);
+      doc.fontSize(10).fillColor('black');
+    }
+  }
+
+  private drawBreakdown(
+    doc: PDFKit.PDFDocument,
+    breakdown: PremiumBreakdown,
+    currency: string
+  ) {
+    this.drawAmountRow(doc, 'Prima base', breakdown.basePremium, currency);
+
+    breakdown.factors.forEach(factor =>
+      this.drawAmountRow(
+        doc,
+        `${factor.label} (${factor.detail}, x${factor.factor})`,
+        factor.amount,
+        currency
+      )
+    );
+
+    breakdown.coverages.forEach(coverage =>
+      this.drawAmountRow(
+        doc,
+        `Cobertura adicional: ${coverage.name}`,
+        coverage.amount,
+        currency
+      )
+    );
+
+    this.drawAmountRow(
+      doc,
+      breakdown.minimumPremiumApplied
+        ? 'Prima neta (prima mínima)'
+        : 'Prima neta',
+      breakdown.netPremium,
+      currency,
+      true
+    );
+
+    breakdown.taxes.forEach(tax =>
+      this.drawAmountRow(
+        doc,
+        tax.rate !== null
+          ? `${tax.label} (${(tax.rate * 100).toFixed(1)}%)`
+          : tax.label,
+        tax.amount,
+        currency
+      )
+    );
+
+    this.drawAmountRow(
+      doc,
+      'Prima total',
+      breakdown.totalPremium,
+      currency,
+      true
+    );
+
+    if (breakdown.deductible) {
+      doc.moveDown(0.5);
+      doc.text(`Deducible: ${breakdown.deductible.name}`, MARGIN);
+    }
+  }
+
+  private drawAmountRow(
+    doc: PDFKit.PDFDocument,
+    label: string,
+    amount: number,
+    currency: string,
+    bold = false
+  ) {
+    const y = doc.y;
+    const amountWidth = 110;
+    const labelWidth = doc.page.width - MARGIN * 2 - amountWidth;
+
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(label, MARGIN, y, { width: labelWidth });
+    const labelBottom = doc.y;
+    doc.text(this.formatMoney(amount, currency), MARGIN + labelWidth, y, {
+      width: amountWidth,
+      align: 'right',
+    });
+    doc.y = Math.max(doc.y, labelBottom);
+    doc.x = MARGIN;
+    doc.font('Helvetica');
+  }
+
+  private drawSectionTitle(doc: PDFKit.PDFDocument, title: string) {
+    doc
+      .fillColor(ACCENT_COLOR)
+      .fontSize(12)
+      .font('Helvetica-Bold')
+      .text(title, MARGIN);
+    doc.fillColor('black').fontSize(10).font('Helvetica');
+  }
+
+  private drawFooter(doc: PDFKit.PDFDocument, quote: PdfQuote) {
+    doc.moveDown(2);
+
+    if (quote.notes) {
+      this.drawSectionTitle(doc, 'Observaciones');
+      doc.text(quote.notes);
+      doc.moveDown();
+    }
+
+    doc
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(
+        'Esta cotización es referencial y está sujeta a la aceptación de la aseguradora. ' +
+          'Los valores incluyen contribuciones e impuestos vigentes a la fecha de emisión.',
+        MARGIN
+      );
+  }
+
+  /**
+   * Logos are read from data URIs or image files in LOGO_DIR only, so
+   * rendering works offline and cannot read other files on the server
+   */
+  private loadLogo(logoUrl: string | null): Buffer | string | null {
+    if (!logoUrl) {
+      return null;
+    }
+
+    const dataUri = logoUrl.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+    if (dataUri) {
+      return Buffer.from(dataUri[2], 'base64');
+    }
+
+    if (!LOGO_FILE_NAME.test(logoUrl)) {
+      return null;
+    }
+
+    const logoPath = path.join(LOGO_DIR, logoUrl);
+    if (path.dirname(logoPath) !== LOGO_DIR) {
+      return null;
+    }
+
+    return fs.statSync(logoPath, { throwIfNoEntry: false })?.isFile()
+      ? logoPath
+      : null;
+  }
+
+  private formatMoney(amount: number, currency: string): string {
+    return new Intl.NumberFormat('es-EC', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  }
+
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat('es-EC', {
+      dateStyle: 'long',
+      timeZone: 'America/Guayaquil',
+    }).format(date);
+  }
+}
@@ -0,0 +1,204 @@
+import Joi from 'joi';
+import { QuoteStatus, QuoteType } from '@prisma/client';
+import { linesOfBusiness } from '../../products/validation/product.schemas';
+
+const quoteStatuses = Object.values(QuoteStatus);
+const quoteTypes = Object.values(QuoteType);
+
+const ratingInputFields = {
+  vehicleValue: Joi.number().positive().optional().messages({
+    'number.positive': 'Vehicle value must be greater than zero',
+  }),
+  sumInsured: Joi.number().positive().optional().messages({
+    'number.positive': 'Sum insured must be greater than zero',
+  }),
+  deductibleId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Deductible ID must be a valid UUID',
+  }),
+  coverageIds: Joi.array()
+    .items(Joi.string().uuid())
+    .unique()
+    .optional()
+    .messages({
+      'string.guid': 'Coverage IDs must be valid UUIDs',
+      'array.unique': 'Coverage IDs cannot be repeated',
+    }),
+};
+
+const ratingInputSchema = Joi.object(ratingInputFields);
+
+export const calculatePremiumSchema = Joi.object({
+  clientId: Joi.string().uuid().required().messages({
+    'any.required': 'Client ID is required',
+    'string.guid': 'Client ID must be a valid UUID',
+  }),
+  productId: Joi.string().uuid().required().messages({
+    'any.required': 'Product ID is required',
+    'string.guid': 'Product ID must be a valid UUID',
+  }),
+  ratingVersionId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Rating version ID must be a valid UUID',
+  }),
+  ...ratingInputFields,
+});
+
+export const createQuoteSchema = Joi.object({
+  clientId: Joi.string().uuid().required().messages({
+    'any.required': 'Client ID is required',
+    'string.guid': 'Client ID must be a valid UUID',
+  }),
+  productId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Product ID must be a valid UUID',
+  }),
+  title: Joi.string().trim().required().min(1).max(120).messages({
+    'any.required': 'Title is required',
+    'string.empty': 'Title cannot be empty',
+    'string.max': 'Title cannot exceed 120 characters',
+  }),
+  description: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Description cannot exceed 2000 characters',
+  }),
+  premium: Joi.number().positive().precision(2).optional().messages({
+    'number.base': 'Premium must be a number',
+    'number.positive': 'Premium must be greater than zero',
+  }),
+  currency: Joi.string().length(3).uppercase().optional().messages({
+    'string.length': 'Currency must be a 3-letter ISO code',
+  }),
+  validUntil: Joi.date().iso().greater('now').optional().messages({
+    'date.base': 'Valid until must be a valid date',
+    'date.format': 'Valid until must be an ISO date',
+    'date.greater': 'Valid until must be in the future',
+  }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+  ratingInput: ratingInputSchema.optional(),
+})
+  .oxor('premium', 'ratingInput')
+  .with('ratingInput', 'productId')
+  .messages({
+    'object.oxor': 'Provide either a premium or a rating input, not both',
+    'object.with': 'A product is required to rate a quote',
+  });
+
+export const updateQuoteSchema = Joi.object({
+  productId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Product ID must be a valid UUID',
+  }),
+  title: Joi.string().trim().optional().min(1).max(120).messages({
+    'string.empty': 'Title cannot be empty',
+    'string.max': 'Title cannot exceed 120 characters',
+  }),
+  description: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Description cannot exceed 2000 characters',
+  }),
+  premium: Joi.number().positive().precision(2).optional().messages({
+    'number.base': 'Premium must be a number',
+    'number.positive': 'Premium must be greater than zero',
+  }),
+  currency: Joi.string().length(3).uppercase().optional().messages({
+    'string.length': 'Currency must be a 3-letter ISO code',
+  }),
+  validUntil: Joi.date().iso().greater('now').optional().messages({
+    'date.base': 'Valid until must be a valid date',
+    'date.format': 'Valid until must be an ISO date',
+    'date.greater': 'Valid until must be in the future',
+  }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+  ratingInput: ratingInputSchema.optional(),
+})
+  .min(1)
+  .oxor('premium', 'ratingInput')
+  .messages({
+    'object.min': 'At least one field must be provided for update',
+    'object.oxor': 'Provide either a premium or a rating input, not both',
+  });
+
+export const compareQuotesSchema = Joi.object({
+  clientId: Joi.string().uuid().required().messages({
+    'any.required': 'Client ID is required',
+    'string.guid': 'Client ID must be a valid UUID',
+  }),
+  lineOfBusiness: Joi.string()
+    .valid(...linesOfBusiness)
+    .required()
+    .messages({
+      'any.required': 'Line of business is required',
+      'any.only': `Line of business must be one of: ${linesOfBusiness.join(', ')}`,
+    }),
+  vehicleValue: ratingInputFields.vehicleValue,
+  sumInsured: ratingInputFields.sumInsured,
+  coverageNames: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .unique()
+    .optional()
+    .messages({
+      'array.unique': 'Coverage names cannot be repeated',
+    }),
+  save: Joi.boolean().optional(),
+  title: Joi.string().trim().optional().min(1).max(120).messages({
+    'string.empty': 'Title cannot be empty',
+    'string.max': 'Title cannot exceed 120 characters',
+  }),
+  validUntil: Joi.date().iso().greater('now').optional().messages({
+    'date.base': 'Valid until must be a valid date',
+    'date.format': 'Valid until must be an ISO date',
+    'date.greater': 'Valid until must be in the future',
+  }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+});
+
+export const updateQuoteStatusSchema = Joi.object({
+  status: Joi.string()
+    .valid(...quoteStatuses)
+    .required()
+    .messages({
+      'any.required': 'Status is required',
+      'any.only': `Status must be one of: ${quoteStatuses.join(', ')}`,
+    }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+});
+
+// Query parameters of GET /api/quotes
+export const listQuotesQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...quoteStatuses)
+    .optional()
+    .messages({
+      'any.only': `Status must be one of: ${quoteStatuses.join(', ')}`,
+    }),
+  type: Joi.string()
+    .valid(...quoteTypes)
+    .optional()
+    .messages({
+      'any.only': `Type must be one of: ${quoteTypes.join(', ')}`,
+    }),
+  clientId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Client ID must be a valid UUID',
+  }),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+  search: Joi.string().trim().max(100).optional().allow(''),
+});
+
+export const quoteIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Quote ID must be a valid UUID',
+    'any.required': 'Quote ID is required',
+  }),
+});
+
+export const quoteOptionParamSchema = quoteIdParamSchema.keys({
+  optionId: Joi.string().uuid().required().messages({
+    'string.guid': 'Option ID must be a valid UUID',
+    'any.required': 'Option ID is required',
+  }),
+});
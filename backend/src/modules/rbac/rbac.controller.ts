@@ -1,11 +1,19 @@
 import { Request, Response } from 'express';
-import { RoleService } from '../../services/role.service';
-import { UserRoleService } from '../../services/userRole.service';
-import { PermissionService } from '../../services/permission.service';
+import { RoleService, RoleListQuery } from '../../services/role.service';
+import {
+  UserRoleService,
+  RoleMemberListQuery,
+} from '../../services/userRole.service';
+import {
+  PermissionService,
+  PermissionListQuery,
+} from '../../services/permission.service';
 import { AuthorizationService } from '../../services/authorization.service';
 import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
 import { getBrokerFilter } from '../../common/middlewares/brokerIsolation.middleware';
 import { prisma } from '../../config/database';
+import { ForbiddenError, NotFoundError } from '../../common/errors';
+import { PageQuery } from '../../common/pagination';
 import {
   CreateRoleDto,
   UpdateRoleDto,
@@ -36,549 +44,378 @@ export class RbacController {
 
   // Role Management
   createRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const roleData: CreateRoleDto = req.body;
-      const role = await this.roleService.createRole(roleData);
-
-      res.status(201).json({
-        success: true,
-        message: 'Role created successfully',
-        data: { role },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to create role',
-      });
-    }
+    const roleData: CreateRoleDto = req.body;
+    const role = await this.roleService.createRole(roleData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      data: { role },
+    });
   };
 
-  getRoles = async (_req: Request, res: Response): Promise<void> => {
-    try {
-      const roles = await this.roleService.getRoles();
+  getRoles = async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as RoleListQuery;
+    const { roles, meta } = await this.roleService.getRoles(query);
 
-      res.status(200).json({
-        success: true,
-        message: 'Roles retrieved successfully',
-        data: { roles },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve roles',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: 'Roles retrieved successfully',
+      data: { roles, ...meta },
+    });
   };
 
   getRoleById = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const role = await this.roleService.getRoleById(id);
-
-      res.status(200).json({
-        success: true,
-        message: 'Role retrieved successfully',
-        data: { role },
-      });
-    } catch (error) {
-      res.status(404).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Role not found',
-      });
-    }
+    const { id } = req.params;
+    const role = await this.roleService.getRoleById(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role retrieved successfully',
+      data: { role },
+    });
   };
 
   updateRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const updateData: UpdateRoleDto = req.body;
-      const role = await this.roleService.updateRole(id, updateData);
-
-      res.status(200).json({
-        success: true,
-        message: 'Role updated successfully',
-        data: { role },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to update role',
-      });
-    }
+    const { id } = req.params;
+    const updateData: UpdateRoleDto = req.body;
+    const role = await this.roleService.updateRole(id, updateData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role updated successfully',
+      data: { role },
+    });
   };
 
   deleteRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const result = await this.roleService.deleteRole(id);
+    const { id } = req.params;
+    const result = await this.roleService.deleteRole(id);
 
-      res.status(200).json({
-        success: true,
-        message: result.message,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to delete role',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
   };
 
   // Permission Management
   createPermission = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const permissionData: CreatePermissionDto = req.body;
-      const permission = await this.permissionService.createPermission(permissionData);
-
-      res.status(201).json({
-        success: true,
-        message: 'Permission created successfully',
-        data: { permission },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to create permission',
-      });
-    }
+    const permissionData: CreatePermissionDto = req.body;
+    const permission = await this.permissionService.createPermission(permissionData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Permission created successfully',
+      data: { permission },
+    });
   };
 
-  getPermissions = async (_req: Request, res: Response): Promise<void> => {
-    try {
-      const permissions = await this.permissionService.getPermissions();
+  getPermissions = async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as PermissionListQuery;
+    const { permissions, meta } = await this.permissionService.getPermissions(query);
 
-      res.status(200).json({
-        success: true,
-        message: 'Permissions retrieved successfully',
-        data: { permissions },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve permissions',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: 'Permissions retrieved successfully',
+      data: { permissions, ...meta },
+    });
   };
 
   getPermissionsByResource = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { resource } = req.params;
-      const permissions = await this.permissionService.getPermissionsByResource(resource);
-
-      res.status(200).json({
-        success: true,
-        message: 'Permissions retrieved successfully',
-        data: { permissions },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve permissions',
-      });
-    }
+    const { resource } = req.params;
+    const query = req.query as unknown as PageQuery;
+    const { permissions, meta } = await this.permissionService.getPermissionsByResource(
+      resource,
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Permissions retrieved successfully',
+      data: { permissions, ...meta },
+    });
   };
 
   updatePermission = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const updateData: UpdatePermissionDto = req.body;
-      const permission = await this.permissionService.updatePermission(id, updateData);
-
-      res.status(200).json({
-        success: true,
-        message: 'Permission updated successfully',
-        data: { permission },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to update permission',
-      });
-    }
+    const { id } = req.params;
+    const updateData: UpdatePermissionDto = req.body;
+    const permission = await this.permissionService.updatePermission(id, updateData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Permission updated successfully',
+      data: { permission },
+    });
   };
 
   deletePermission = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const result = await this.permissionService.deletePermission(id);
+    const { id } = req.params;
+    const result = await this.permissionService.deletePermission(id);
 
-      res.status(200).json({
-        success: true,
-        message: result.message,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to delete permission',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
   };
 
   // User Role Assignment
   assignRoleToUser = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const assignData: AssignRoleDto = req.body;
-      const assignerId = req.user!.id;
-      const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
-      
-      const userRole = await this.userRoleService.assignRoleToUser(
-        assignData.userId,
-        assignData.roleId,
-        assignerId,
-        allowedBrokerIds
-      );
-
-      res.status(201).json({
-        success: true,
-        message: 'Role assigned to user successfully',
-        data: { userRole },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to assign role to user',
-      });
-    }
+    const assignData: AssignRoleDto = req.body;
+    const assignerId = req.user!.id;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+    
+    const userRole = await this.userRoleService.assignRoleToUser(
+      assignData.userId,
+      assignData.roleId,
+      assignerId,
+      allowedBrokerIds
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Role assigned to user successfully',
+      data: { userRole },
+    });
   };
 
   removeRoleFromUser = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { userId, roleId } = req.body;
-      const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
-      
-      const result = await this.userRoleService.removeRoleFromUser(userId, roleId, allowedBrokerIds);
-
-      res.status(200).json({
-        success: true,
-        message: result.message,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to remove role from user',
-      });
-    }
+    const { userId, roleId } = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+    
+    const result = await this.userRoleService.removeRoleFromUser(userId, roleId, allowedBrokerIds);
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
   };
 
   getUserRoles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { userId } = req.params;
-      // The service will validate if the requester can see the target user.
-      const roles = await this.userRoleService.getUserRoles(userId);
-
-      res.status(200).json({
-        success: true,
-        message: 'User roles retrieved successfully',
-        data: { roles },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve user roles',
-      });
-    }
+    const { userId } = req.params;
+    // The service will validate if the requester can see the target user.
+    const roles = await this.userRoleService.getUserRoles(userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'User roles retrieved successfully',
+      data: { roles },
+    });
   };
 
   getUsersWithRole = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { roleName } = req.params;
-      const brokerFilter = getBrokerFilter(req);
-      const usersWithRole = await this.userRoleService.getUsersWithRole(roleName, brokerFilter);
-
-      res.status(200).json({
-        success: true,
-        message: 'Users with role retrieved successfully',
-        data: { usersWithRole },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve users with role',
-      });
-    }
+    const { roleName } = req.params;
+    const brokerFilter = getBrokerFilter(req);
+    const query = req.query as unknown as RoleMemberListQuery;
+    const { usersWithRole, meta } = await this.userRoleService.getUsersWithRole(
+      roleName,
+      brokerFilter,
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Users with role retrieved successfully',
+      data: { usersWithRole, ...meta },
+    });
   };
 
   assignMultipleRoles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const assignerId = req.user!.id;
-      const { userId, roleIds } = req.body;
-      const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
-
-      const result = await this.userRoleService.assignMultipleRoles(
-        userId,
-        roleIds,
-        assignerId,
-        allowedBrokerIds
-      );
-
-      res.status(201).json({
-        success: true,
-        message: result.message,
-        data: result,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to assign multiple roles',
-      });
-    }
+    const assignerId = req.user!.id;
+    const { userId, roleIds } = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+
+    const result = await this.userRoleService.assignMultipleRoles(
+      userId,
+      roleIds,
+      assignerId,
+      allowedBrokerIds
+    );
+
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: result,
+    });
   };
 
   replaceUserRoles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const assignerId = req.user!.id;
-      const { userId, roleIds } = req.body;
-      const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
-
-      const result = await this.userRoleService.replaceUserRoles(
-        userId,
-        roleIds,
-        assignerId,
-        allowedBrokerIds
-      );
-
-      res.status(200).json({
-        success: true,
-        message: result.message,
-        data: result,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to replace user roles',
-      });
-    }
+    const assignerId = req.user!.id;
+    const { userId, roleIds } = req.body;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+
+    const result = await this.userRoleService.replaceUserRoles(
+      userId,
+      roleIds,
+      assignerId,
+      allowedBrokerIds
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+      data: result,
+    });
   };
 
   // Role Permission Assignment
   assignPermissionToRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const assignData: AssignPermissionToRoleDto = req.body;
-      const result = await this.roleService.assignPermissionToRole(
-        assignData.roleId,
-        assignData.permissionId
-      );
-
-      res.status(201).json({
-        success: true,
-        message: result.message,
-        data: { role: result.role, permission: result.permission },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to assign permission to role',
-      });
-    }
+    const assignData: AssignPermissionToRoleDto = req.body;
+    const result = await this.roleService.assignPermissionToRole(
+      assignData.roleId,
+      assignData.permissionId
+    );
+
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: { role: result.role, permission: result.permission },
+    });
   };
 
   removePermissionFromRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { roleId, permissionId } = req.body;
-      const result = await this.roleService.removePermissionFromRole(roleId, permissionId);
+    const { roleId, permissionId } = req.body;
+    const result = await this.roleService.removePermissionFromRole(roleId, permissionId);
 
-      res.status(200).json({
-        success: true,
-        message: result.message,
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to remove permission from role',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: result.message,
+    });
   };
 
   bulkAssignPermissionsToRole = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const assignData: BulkAssignPermissionsDto = req.body;
-      const result = await this.roleService.bulkAssignPermissions(
-        assignData.roleId,
-        assignData.permissionIds
-      );
-
-      res.status(201).json({
-        success: true,
-        message: result.message,
-        data: { 
-          roleId: assignData.roleId,
-          assignedPermissions: result.assignedPermissions,
-          skippedPermissions: result.skippedPermissions 
-        },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to assign permissions to role',
-      });
-    }
+    const assignData: BulkAssignPermissionsDto = req.body;
+    const result = await this.roleService.bulkAssignPermissions(
+      assignData.roleId,
+      assignData.permissionIds
+    );
+
+    res.status(201).json({
+      success: true,
+      message: result.message,
+      data: { 
+        roleId: assignData.roleId,
+        assignedPermissions: result.assignedPermissions,
+        skippedPermissions: result.skippedPermissions 
+      },
+    });
   };
 
   replaceRolePermissions = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const replaceData: ReplaceRolePermissionsDto = req.body;
-      const result = await this.roleService.replaceRolePermissions(
-        replaceData.roleId,
-        replaceData.permissionIds
-      );
-
-      res.status(200).json({
-        success: true,
-        message: result.message,
-        data: { 
-          roleId: replaceData.roleId,
-          assignedPermissions: result.assignedPermissions
-        },
-      });
-    } catch (error) {
-      res.status(400).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to replace role permissions',
-      });
-    }
+    const replaceData: ReplaceRolePermissionsDto = req.body;
+    const result = await this.roleService.replaceRolePermissions(
+      replaceData.roleId,
+      replaceData.permissionIds
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.message,
+      data: { 
+        roleId: replaceData.roleId,
+        assignedPermissions: result.assignedPermissions
+      },
+    });
   };
 
   getRolePermissions = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { roleId } = req.params;
-      const permissions = await this.roleService.getRolePermissions(roleId);
-
-      res.status(200).json({
-        success: true,
-        message: 'Role permissions retrieved successfully',
-        data: { permissions },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve role permissions',
-      });
-    }
+    const { roleId } = req.params;
+    const query = req.query as unknown as PageQuery;
+    const { roleName, permissions, meta } = await this.roleService.getRolePermissions(
+      roleId,
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Role permissions retrieved successfully',
+      data: { roleId, roleName, permissions, ...meta },
+    });
   };
 
   // Authorization & User Permissions
   getUserPermissions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { userId } = req.params;
-      const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+    const { userId } = req.params;
+    const allowedBrokerIds = (req as any).allowedBrokerIds as string[] | undefined;
+    
+    // First validate that the user can access the target user
+    if (allowedBrokerIds) {
+      const user = await prisma.profile.findUnique({
+        where: { id: userId },
+        select: { brokerId: true, broker: { select: { name: true } } }
+      });
       
-      // First validate that the user can access the target user
-      if (allowedBrokerIds) {
-        const user = await prisma.profile.findUnique({
-          where: { id: userId },
-          select: { brokerId: true, broker: { select: { name: true } } }
-        });
-        
-        if (!user) {
-          res.status(404).json({
-            success: false,
-            message: 'User not found',
-          });
-          return;
-        }
-        
-        if (user.brokerId && !allowedBrokerIds.includes(user.brokerId)) {
-          res.status(403).json({
-            success: false,
-            message: `Access denied: Cannot view permissions for users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`,
-          });
-          return;
-        }
+      if (!user) {
+        throw new NotFoundError('User not found');
       }
       
-      const permissions = await this.permissionService.getUserPermissions(userId);
-
-      res.status(200).json({
-        success: true,
-        message: 'User permissions retrieved successfully',
-        data: { permissions },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve user permissions',
-      });
+      if (user.brokerId && !allowedBrokerIds.includes(user.brokerId)) {
+        throw new ForbiddenError(
+          `Access denied: Cannot view permissions for users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`
+        );
+      }
     }
+    
+    const permissions = await this.permissionService.getUserPermissions(userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'User permissions retrieved successfully',
+      data: { permissions },
+    });
   };
 
   checkUserPermission = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const checkData: CheckPermissionDto = req.body;
-      const accessibleBrokerIds = req.brokerContext!.accessibleBrokerIds;
-      const result = await this.authorizationService.checkUserPermission(
-        checkData.userId,
-        checkData.permission,
-        accessibleBrokerIds
-      );
-
-      res.status(200).json({
-        success: true,
-        message: 'Permission check successful',
-        data: { hasPermission: result },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to check permission',
-      });
-    }
+    const checkData: CheckPermissionDto = req.body;
+    const accessibleBrokerIds = req.brokerContext!.accessibleBrokerIds;
+    const result = await this.authorizationService.checkUserPermission(
+      checkData.userId,
+      checkData.permission,
+      accessibleBrokerIds
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Permission check successful',
+      data: { hasPermission: result },
+    });
   };
 
   getUserAccessSummary = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { userId } = req.params;
-      const accessibleBrokerIds = req.brokerContext!.accessibleBrokerIds;
-      const summary = await this.authorizationService.getUserAccessSummary(userId, accessibleBrokerIds);
-
-      res.status(200).json({
-        success: true,
-        message: 'User access summary retrieved successfully',
-        data: { summary },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve user access summary',
-      });
-    }
+    const { userId } = req.params;
+    const accessibleBrokerIds = req.brokerContext!.accessibleBrokerIds;
+    const summary = await this.authorizationService.getUserAccessSummary(userId, accessibleBrokerIds);
+
+    res.status(200).json({
+      success: true,
+      message: 'User access summary retrieved successfully',
+      data: { summary },
+    });
   };
 
   getUsersWithPermission = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const { permission } = req.params;
-      const brokerFilter = getBrokerFilter(req);
-      const result = await this.permissionService.getUsersWithPermission(permission, brokerFilter);
-
-      res.status(200).json({
-        success: true,
-        message: 'Users with permission retrieved successfully',
-        data: result,
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message:
-          error instanceof Error
-            ? error.message
-            : 'Failed to retrieve users with permission',
-      });
-    }
+    const { permission } = req.params;
+    const brokerFilter = getBrokerFilter(req);
+    const query = req.query as unknown as RoleMemberListQuery;
+    const { meta, ...result } = await this.permissionService.getUsersWithPermission(
+      permission,
+      brokerFilter,
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Users with permission retrieved successfully',
+      data: { ...result, ...meta },
+    });
   };
 
   // Self-service routes
   getMeRoles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const roles = await this.userRoleService.getUserRoles(req.user!.id);
-      res.status(200).json({
-        success: true,
-        message: 'Your roles retrieved successfully',
-        data: { roles },
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: error instanceof Error ? error.message : 'Failed to retrieve your roles',
-      });
-    }
+    const roles = await this.userRoleService.getUserRoles(req.user!.id);
+    res.status(200).json({
+      success: true,
+      message: 'Your roles retrieved successfully',
+      data: { roles },
+    });
   };
 }
\ No newline at end of file
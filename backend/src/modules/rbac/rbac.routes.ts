@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { RbacController } from './rbac.controller';
 import { authMiddleware, requirePermission, requireRole } from '../../common/middlewares/auth.middleware';
 import { requireBrokerAccess } from '../../common/middlewares/brokerIsolation.middleware';
-import { validateRequest } from '../../common/middlewares/validation.middleware';
+import { validate, validateRequest } from '../../common/middlewares/validation.middleware';
 import {
   createRoleSchema,
   updateRoleSchema,
@@ -17,25 +17,32 @@ import {
   checkPermissionSchema,
   // checkMultiplePermissionsSchema,
   uuidParamSchema,
+  userIdParamSchema,
+  roleIdParamSchema,
   roleNameParamSchema,
   resourceParamSchema,
   permissionParamSchema,
+  listRolesQuerySchema,
+  listPermissionsQuerySchema,
+  listResourcePermissionsQuerySchema,
+  listRolePermissionsQuerySchema,
+  listRoleMembersQuerySchema,
 } from './validation/rbac.schemas';
 
 const router = Router();
 const rbacController = new RbacController();
 
-// Validate UUID params middleware
-const validateUuidParam = validateRequest(uuidParamSchema);
-const validateRoleNameParam = validateRequest(roleNameParamSchema);
-const validateResourceParam = validateRequest(resourceParamSchema);
-const validatePermissionParam = validateRequest(permissionParamSchema);
+// Route param validation middlewares
+const validateUuidParam = validate({ params: uuidParamSchema });
+const validateUserIdParam = validate({ params: userIdParamSchema });
 
 // Role Management Routes
+// Roles and permissions are shared by every broker tree, so only platform
+// admins define them. Broker admins assign the existing roles.
 router.post(
   '/roles',
   authMiddleware,
-  requirePermission('users:assign:roles'),
+  requireRole('platform_admin'),
   validateRequest(createRoleSchema),
   rbacController.createRole
 );
@@ -44,6 +51,7 @@ router.get(
   '/roles',
   authMiddleware,
   requirePermission('users:read'),
+  validate({ query: listRolesQuerySchema }),
   rbacController.getRoles
 );
 
@@ -58,7 +66,7 @@ router.get(
 router.put(
   '/roles/:id',
   authMiddleware,
-  requirePermission('users:assign:roles'),
+  requireRole('platform_admin'),
   validateUuidParam,
   validateRequest(updateRoleSchema),
   rbacController.updateRole
@@ -67,7 +75,7 @@ router.put(
 router.delete(
   '/roles/:id',
   authMiddleware,
-  requirePermission('users:assign:roles'),
+  requireRole('platform_admin'),
   validateUuidParam,
   rbacController.deleteRole
 );
@@ -76,7 +84,7 @@ router.delete(
 router.post(
   '/permissions',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateRequest(createPermissionSchema),
   rbacController.createPermission
 );
@@ -85,6 +93,7 @@ router.get(
   '/permissions',
   authMiddleware,
   requirePermission('users:read'),
+  validate({ query: listPermissionsQuerySchema }),
   rbacController.getPermissions
 );
 
@@ -92,14 +101,17 @@ router.get(
   '/permissions/resource/:resource',
   authMiddleware,
   requirePermission('users:read'),
-  validateResourceParam,
+  validate({
+    params: resourceParamSchema,
+    query: listResourcePermissionsQuerySchema,
+  }),
   rbacController.getPermissionsByResource
 );
 
 router.put(
   '/permissions/:id',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateUuidParam,
   validateRequest(updatePermissionSchema),
   rbacController.updatePermission
@@ -108,7 +120,7 @@ router.put(
 router.delete(
   '/permissions/:id',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateUuidParam,
   rbacController.deletePermission
 );
@@ -137,7 +149,7 @@ router.get(
   authMiddleware,
   requireBrokerAccess('hierarchy'),
   requirePermission('users:read'),
-  validateUuidParam,
+  validateUserIdParam,
   rbacController.getUserRoles
 );
 
@@ -146,7 +158,10 @@ router.get(
   authMiddleware,
   requireBrokerAccess('hierarchy'),
   requirePermission('users:read'),
-  validateRoleNameParam,
+  validate({
+    params: roleNameParamSchema,
+    query: listRoleMembersQuerySchema,
+  }),
   rbacController.getUsersWithRole
 );
 
@@ -172,7 +187,7 @@ router.put(
 router.post(
   '/roles/permissions/assign',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateRequest(assignPermissionToRoleSchema),
   rbacController.assignPermissionToRole
 );
@@ -180,7 +195,7 @@ router.post(
 router.delete(
   '/roles/permissions/remove',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateRequest(assignPermissionToRoleSchema),
   rbacController.removePermissionFromRole
 );
@@ -189,14 +204,17 @@ router.get(
   '/roles/:roleId/permissions',
   authMiddleware,
   requirePermission('users:read'),
-  validateUuidParam,
+  validate({
+    params: roleIdParamSchema,
+    query: listRolePermissionsQuerySchema,
+  }),
   rbacController.getRolePermissions
 );
 
 router.post(
   '/roles/permissions/assign-multiple',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateRequest(bulkAssignPermissionsSchema),
   rbacController.bulkAssignPermissionsToRole
 );
@@ -204,7 +222,7 @@ router.post(
 router.put(
   '/roles/permissions/replace',
   authMiddleware,
-  requireRole('broker_admin'),
+  requireRole('platform_admin'),
   validateRequest(replaceRolePermissionsSchema),
   rbacController.replaceRolePermissions
 );
@@ -215,7 +233,7 @@ router.get(
   authMiddleware,
   requireBrokerAccess('hierarchy'),
   requirePermission('users:read'),
-  validateUuidParam,
+  validateUserIdParam,
   rbacController.getUserPermissions
 );
 
@@ -233,7 +251,7 @@ router.get(
   authMiddleware,
   requireBrokerAccess('hierarchy'),
   requirePermission('users:read'),
-  validateUuidParam,
+  validateUserIdParam,
   rbacController.getUserAccessSummary
 );
 
@@ -242,7 +260,10 @@ router.get(
   authMiddleware,
   requireBrokerAccess('hierarchy'),
   requirePermission('users:read'),
-  validatePermissionParam,
+  validate({
+    params: permissionParamSchema,
+    query: listRoleMembersQuerySchema,
+  }),
   rbacController.getUsersWithPermission
 );
 
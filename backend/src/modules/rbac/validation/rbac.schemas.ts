@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { paginationQueryKeys } from '../../../common/pagination';
 
 // Role Schemas
 export const createRoleSchema = Joi.object({
@@ -47,23 +48,23 @@ export const updatePermissionSchema = Joi.object({
 // User Role Assignment Schemas
 export const assignRoleSchema = Joi.object({
   userId: Joi.string().uuid().required().messages({
-    'string.uuid': 'User ID must be a valid UUID',
+    'string.guid': 'User ID must be a valid UUID',
     'any.required': 'User ID is required',
   }),
   roleId: Joi.string().uuid().required().messages({
-    'string.uuid': 'Role ID must be a valid UUID',
+    'string.guid': 'Role ID must be a valid UUID',
     'any.required': 'Role ID is required',
   }),
 });
 
 export const assignMultipleRolesSchema = Joi.object({
   userId: Joi.string().uuid().required().messages({
-    'string.uuid': 'User ID must be a valid UUID',
+    'string.guid': 'User ID must be a valid UUID',
     'any.required': 'User ID is required',
   }),
   roleIds: Joi.array().items(
     Joi.string().uuid().messages({
-      'string.uuid': 'Each role ID must be a valid UUID',
+      'string.guid': 'Each role ID must be a valid UUID',
     })
   ).min(1).required().messages({
     'array.min': 'At least one role ID is required',
@@ -73,12 +74,12 @@ export const assignMultipleRolesSchema = Joi.object({
 
 export const replaceUserRolesSchema = Joi.object({
   userId: Joi.string().uuid().required().messages({
-    'string.uuid': 'User ID must be a valid UUID',
+    'string.guid': 'User ID must be a valid UUID',
     'any.required': 'User ID is required',
   }),
   roleIds: Joi.array().items(
     Joi.string().uuid().messages({
-      'string.uuid': 'Each role ID must be a valid UUID',
+      'string.guid': 'Each role ID must be a valid UUID',
     })
   ).required().messages({
     'any.required': 'Role IDs are required',
@@ -88,23 +89,23 @@ export const replaceUserRolesSchema = Joi.object({
 // Role Permission Assignment Schemas
 export const assignPermissionToRoleSchema = Joi.object({
   roleId: Joi.string().uuid().required().messages({
-    'string.uuid': 'Role ID must be a valid UUID',
+    'string.guid': 'Role ID must be a valid UUID',
     'any.required': 'Role ID is required',
   }),
   permissionId: Joi.string().uuid().required().messages({
-    'string.uuid': 'Permission ID must be a valid UUID',
+    'string.guid': 'Permission ID must be a valid UUID',
     'any.required': 'Permission ID is required',
   }),
 });
 
 export const bulkAssignPermissionsSchema = Joi.object({
   roleId: Joi.string().uuid().required().messages({
-    'string.uuid': 'Role ID must be a valid UUID',
+    'string.guid': 'Role ID must be a valid UUID',
     'any.required': 'Role ID is required',
   }),
   permissionIds: Joi.array().items(
     Joi.string().uuid().messages({
-      'string.uuid': 'Each permission ID must be a valid UUID',
+      'string.guid': 'Each permission ID must be a valid UUID',
     })
   ).min(1).required().messages({
     'array.min': 'At least one permission ID is required',
@@ -114,12 +115,12 @@ export const bulkAssignPermissionsSchema = Joi.object({
 
 export const replaceRolePermissionsSchema = Joi.object({
   roleId: Joi.string().uuid().required().messages({
-    'string.uuid': 'Role ID must be a valid UUID',
+    'string.guid': 'Role ID must be a valid UUID',
     'any.required': 'Role ID is required',
   }),
   permissionIds: Joi.array().items(
     Joi.string().uuid().messages({
-      'string.uuid': 'Each permission ID must be a valid UUID',
+      'string.guid': 'Each permission ID must be a valid UUID',
     })
   ).required().messages({
     'any.required': 'Permission IDs are required',
@@ -129,7 +130,7 @@ export const replaceRolePermissionsSchema = Joi.object({
 // Authorization Schemas
 export const checkPermissionSchema = Joi.object({
   userId: Joi.string().uuid().required().messages({
-    'string.uuid': 'User ID must be a valid UUID',
+    'string.guid': 'User ID must be a valid UUID',
     'any.required': 'User ID is required',
   }),
   permission: Joi.string().pattern(/^[a-zA-Z0-9_]+:[a-zA-Z0-9_:]+$/).required().messages({
@@ -140,7 +141,7 @@ export const checkPermissionSchema = Joi.object({
 
 export const checkMultiplePermissionsSchema = Joi.object({
   userId: Joi.string().uuid().required().messages({
-    'string.uuid': 'User ID must be a valid UUID',
+    'string.guid': 'User ID must be a valid UUID',
     'any.required': 'User ID is required',
   }),
   permissions: Joi.array().items(
@@ -156,11 +157,25 @@ export const checkMultiplePermissionsSchema = Joi.object({
 // Param validation schemas
 export const uuidParamSchema = Joi.object({
   id: Joi.string().uuid().required().messages({
-    'string.uuid': 'ID must be a valid UUID',
+    'string.guid': 'ID must be a valid UUID',
     'any.required': 'ID is required',
   }),
 });
 
+export const userIdParamSchema = Joi.object({
+  userId: Joi.string().uuid().required().messages({
+    'string.guid': 'User ID must be a valid UUID',
+    'any.required': 'User ID is required',
+  }),
+});
+
+export const roleIdParamSchema = Joi.object({
+  roleId: Joi.string().uuid().required().messages({
+    'string.guid': 'Role ID must be a valid UUID',
+    'any.required': 'Role ID is required',
+  }),
+});
+
 export const roleNameParamSchema = Joi.object({
   roleName: Joi.string().trim().min(2).max(50).required().messages({
     'string.min': 'Role name must be at least 2 characters',
@@ -182,4 +197,41 @@ export const permissionParamSchema = Joi.object({
     'string.pattern.base': 'Permission must be in format "resource:action"',
     'any.required': 'Permission is required',
   }),
-});
\ No newline at end of file
+});
+// List query schemas (see common/pagination for limit, offset, cursor and sort)
+export const listRolesQuerySchema = Joi.object({
+  search: Joi.string().trim().max(100).optional().allow(''),
+  ...paginationQueryKeys({
+    sortFields: ['name', 'level', 'createdAt'],
+    defaultSort: 'name',
+  }),
+});
+
+const permissionPaginationKeys = paginationQueryKeys({
+  sortFields: ['resource', 'action', 'createdAt'],
+  defaultSort: 'resource,action',
+});
+
+export const listPermissionsQuerySchema = Joi.object({
+  resource: Joi.string().trim().max(50).optional(),
+  search: Joi.string().trim().max(100).optional().allow(''),
+  ...permissionPaginationKeys,
+});
+
+export const listResourcePermissionsQuerySchema = Joi.object({
+  ...permissionPaginationKeys,
+});
+
+export const listRolePermissionsQuerySchema = Joi.object({
+  ...permissionPaginationKeys,
+});
+
+// Users holding a role or a permission
+export const listRoleMembersQuerySchema = Joi.object({
+  search: Joi.string().trim().max(100).optional().allow(''),
+  isActive: Joi.boolean().optional(),
+  ...paginationQueryKeys({
+    sortFields: ['firstName', 'lastName', 'createdAt'],
+    defaultSort: 'lastName,firstName',
+  }),
+});
@@ -0,0 +1,12 @@
+export interface RenewalListFilters {
+  days: number; // Look-ahead window from today
+  brokerId?: string;
+  insurerId?: string;
+}
+
+export interface CreateRenewalQuoteDto {
+  title?: string;
+  notes?: string;
+  validUntil?: Date; // Defaults to the policy end date
+  carryOverPremium?: boolean; // Keep the current premium instead of re-rating
+}
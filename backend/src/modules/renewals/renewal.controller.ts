@@ -0,0 +1,61 @@
+import { Response } from 'express';
+import { RenewalService } from './renewal.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import { CreateRenewalQuoteDto, RenewalListFilters } from './dto/renewal.dto';
+
+export class RenewalController {
+  private renewalService: RenewalService;
+
+  constructor() {
+    this.renewalService = new RenewalService();
+  }
+
+  getUpcomingRenewals = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const filters = req.query as unknown as RenewalListFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view renewals for this broker.'
+      );
+    }
+
+    const policies = await this.renewalService.getUpcomingRenewals(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Upcoming renewals retrieved successfully',
+      data: { days: filters.days, policies },
+    });
+  };
+
+  createRenewalQuote = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { policyId } = req.params;
+    const renewalData: CreateRenewalQuoteDto = req.body;
+    const quote = await this.renewalService.createRenewalQuote(
+      policyId,
+      renewalData,
+      getBrokerFilter(req),
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Renewal quote created successfully',
+      data: { quote },
+    });
+  };
+}
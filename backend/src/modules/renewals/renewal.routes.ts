@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { RenewalController } from './renewal.controller';
+import {
+  authMiddleware,
+  requirePermission,
+  requireAnyPermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { validate } from '../../common/middlewares/validation.middleware';
+import {
+  createRenewalQuoteSchema,
+  renewalPolicyIdParamSchema,
+  upcomingRenewalsQuerySchema,
+} from './validation/renewal.schemas';
+
+const router = Router();
+const renewalController = new RenewalController();
+
+// Renewal Routes (Broker Isolation Required)
+// Renewals are tracked on policies and quoted as regular draft quotes
+router.get(
+  '/upcoming',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requireAnyPermission(['policies:read', 'policies:read:own']),
+  validate({ query: upcomingRenewalsQuerySchema }),
+  renewalController.getUpcomingRenewals
+);
+
+router.post(
+  '/:policyId/quote',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('quotes:create'),
+  validate({
+    params: renewalPolicyIdParamSchema,
+    body: createRenewalQuoteSchema,
+  }),
+  renewalController.createRenewalQuote
+);
+
+export default router;
@@ -0,0 +1,209 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { renewalLogger } from '../../services/logger.service';
+import { ConflictError, NotFoundError } from '../../common/errors';
+import { QuoteService } from '../quotes/quote.service';
+import { QuoteRatingInputDto } from '../quotes/dto/quote.dto';
+import { CreateRenewalQuoteDto, RenewalListFilters } from './dto/renewal.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Renewal quotes in these statuses still block a new one for the same policy
+const OPEN_RENEWAL_STATUSES = ['draft', 'sent', 'accepted'] as const;
+
+const renewalPolicyInclude = {
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  client: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      cedulaRuc: true,
+      email: true,
+      phone: true,
+    },
+  },
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  product: {
+    select: {
+      id: true,
+      name: true,
+      lineOfBusiness: true,
+    },
+  },
+  renewalQuotes: {
+    where: { status: { in: [...OPEN_RENEWAL_STATUSES] } },
+    select: {
+      id: true,
+      quoteNumber: true,
+      status: true,
+      premium: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.PolicyInclude;
+
+export class RenewalService {
+  private quoteService: QuoteService;
+
+  constructor() {
+    this.quoteService = new QuoteService();
+  }
+
+  /**
+   * List active policies ending within the next `days` days
+   * Each policy carries its open renewal quotes so agents can see what is pending
+   */
+  async getUpcomingRenewals(
+    brokerFilter: Prisma.PolicyWhereInput,
+    filters: RenewalListFilters
+  ) {
+    const { days, brokerId, insurerId } = filters;
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const horizon = new Date(today.getTime() + days * DAY_MS);
+
+    const policies = await prisma.policy.findMany({
+      where: {
+        AND: [
+          brokerFilter,
+          brokerId ? { brokerId } : {},
+          insurerId ? { insurerId } : {},
+          { status: 'active' },
+          { endDate: { gte: today, lte: horizon } },
+        ],
+      },
+      include: renewalPolicyInclude,
+      orderBy: { endDate: 'asc' },
+    });
+
+    renewalLogger.debug('Upcoming renewals retrieved', {
+      count: policies.length,
+      days,
+      brokerId,
+      insurerId,
+      operation: 'get_upcoming_renewals',
+    });
+
+    return policies.map(policy => ({
+      ...policy,
+      daysUntilExpiry: Math.round(
+        (policy.endDate.getTime() - today.getTime()) / DAY_MS
+      ),
+    }));
+  }
+
+  /**
+   * Create a draft quote to renew a policy, pre-filled from the policy
+   * Rated policies are re-rated with the current rating version unless the
+   * caller asks to carry over the current premium
+   */
+  async createRenewalQuote(
+    policyId: string,
+    data: CreateRenewalQuoteDto,
+    brokerFilter: Prisma.PolicyWhereInput,
+    createdById: string
+  ) {
+    const policy = await prisma.policy.findFirst({
+      where: { AND: [{ id: policyId }, brokerFilter] },
+      include: {
+        client: {
+          select: {
+            id: true,
+            brokerId: true,
+            birthDate: true,
+            province: true,
+          },
+        },
+        quote: { select: { type: true, ratingInput: true } },
+        renewalQuotes: {
+          where: { status: { in: [...OPEN_RENEWAL_STATUSES] } },
+          select: { quoteNumber: true },
+        },
+      },
+    });
+
+    if (!policy) {
+      throw new NotFoundError('Policy not found');
+    }
+
+    if (policy.status === 'cancelled') {
+      throw new ConflictError('Cancelled policies cannot be renewed');
+    }
+
+    if (policy.renewalQuotes.length > 0) {
+      throw new ConflictError(
+        `This policy already has an open renewal quote (${policy.renewalQuotes[0].quoteNumber})`
+      );
+    }
+
+    const ratingInput = data.carryOverPremium
+      ? undefined
+      : this.getRenewalRatingInput(policy.quote);
+
+    const validUntil =
+      data.validUntil ??
+      (policy.endDate > new Date() ? policy.endDate : undefined);
+
+    const quote = await this.quoteService.createQuote(
+      {
+        clientId: policy.clientId,
+        productId: policy.productId,
+        title: data.title || `Renovación ${policy.policyNumber}`,
+        premium: ratingInput ? undefined : policy.premium.toNumber(),
+        currency: policy.currency,
+        validUntil,
+        notes: data.notes,
+        ratingInput,
+      },
+      policy.client,
+      createdById,
+      policy.id
+    );
+
+    renewalLogger.info('Renewal quote created', {
+      policyId: policy.id,
+      policyNumber: policy.policyNumber,
+      quoteId: quote.id,
+      reRated: !!ratingInput,
+      operation: 'create_renewal_quote_success',
+    });
+
+    return quote;
+  }
+
+  /**
+   * Reuse the rating input of the quote the policy was issued from
+   * The stored rating date is dropped so the renewal is rated as of today
+   */
+  private getRenewalRatingInput(quote: {
+    type: string;
+    ratingInput: Prisma.JsonValue;
+  }): QuoteRatingInputDto | undefined {
+    if (
+      quote.type !== 'single' ||
+      !quote.ratingInput ||
+      typeof quote.ratingInput !== 'object' ||
+      Array.isArray(quote.ratingInput)
+    ) {
+      return undefined;
+    }
+
+    const { vehicleValue, sumInsured, deductibleId, coverageIds } =
+      quote.ratingInput as QuoteRatingInputDto;
+
+    return { vehicleValue, sumInsured, deductibleId, coverageIds };
+  }
+}
@@ -0,0 +1,49 @@
+import Joi from 'joi';
+
+const DEFAULT_RENEWAL_WINDOW_DAYS = 30;
+const MAX_RENEWAL_WINDOW_DAYS = 365;
+const RENEWAL_WINDOW_MESSAGE = `Days must be a whole number between 1 and ${MAX_RENEWAL_WINDOW_DAYS}`;
+
+export const createRenewalQuoteSchema = Joi.object({
+  title: Joi.string().trim().optional().min(1).max(120).messages({
+    'string.empty': 'Title cannot be empty',
+    'string.max': 'Title cannot exceed 120 characters',
+  }),
+  notes: Joi.string().optional().allow('').max(2000).messages({
+    'string.max': 'Notes cannot exceed 2000 characters',
+  }),
+  validUntil: Joi.date().iso().greater('now').optional().messages({
+    'date.base': 'Valid until must be a valid date',
+    'date.format': 'Valid until must be an ISO date',
+    'date.greater': 'Valid until must be in the future',
+  }),
+  carryOverPremium: Joi.boolean().optional(),
+});
+
+export const renewalPolicyIdParamSchema = Joi.object({
+  policyId: Joi.string().uuid().required().messages({
+    'string.guid': 'Policy ID must be a valid UUID',
+    'any.required': 'Policy ID is required',
+  }),
+});
+
+// Query parameters of GET /api/renewals/upcoming
+export const upcomingRenewalsQuerySchema = Joi.object({
+  days: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_RENEWAL_WINDOW_DAYS)
+    .default(DEFAULT_RENEWAL_WINDOW_DAYS)
+    .messages({
+      'number.base': RENEWAL_WINDOW_MESSAGE,
+      'number.integer': RENEWAL_WINDOW_MESSAGE,
+      'number.min': RENEWAL_WINDOW_MESSAGE,
+      'number.max': RENEWAL_WINDOW_MESSAGE,
+    }),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+  insurerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Insurer ID must be a valid UUID',
+  }),
+});
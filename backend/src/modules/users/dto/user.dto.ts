@@ -0,0 +1,12 @@
+import { PageQuery } from '../../../common/pagination';
+
+export interface UserListFilters extends PageQuery {
+  search?: string; // Matches first name, last name, cedula/RUC or phone
+  brokerId?: string;
+  isActive?: boolean;
+  roleId?: string;
+}
+
+export interface MoveUserDto {
+  brokerId: string;
+}
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { UserService } from './user.service';
+import { AuthenticatedRequest } from '../../common/middlewares/auth.middleware';
+import {
+  getBrokerFilter,
+  validateBrokerAccess,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import { ForbiddenError } from '../../common/errors';
+import { UserListFilters, MoveUserDto } from './dto/user.dto';
+
+export class UserController {
+  private userService: UserService;
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  getUsers = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const filters = req.query as unknown as UserListFilters;
+
+    if (filters.brokerId && !validateBrokerAccess(req, filters.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot view users of this broker.'
+      );
+    }
+
+    const { users, meta } = await this.userService.getUsers(
+      getBrokerFilter(req),
+      filters
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Users retrieved successfully',
+      data: { users, ...meta },
+    });
+  };
+
+  getUserById = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const user = await this.userService.getUserById(id, getBrokerFilter(req));
+
+    res.status(200).json({
+      success: true,
+      message: 'User retrieved successfully',
+      data: { user },
+    });
+  };
+
+  deactivateUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { user, sessionsRevoked } = await this.userService.deactivateUser(
+      id,
+      req.user!.id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: sessionsRevoked
+        ? 'User deactivated successfully'
+        : 'User deactivated but their sessions could not be revoked',
+      data: { user, sessionsRevoked },
+    });
+  };
+
+  reactivateUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { user, signInRestored } = await this.userService.reactivateUser(
+      id,
+      req.user!.id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: signInRestored
+        ? 'User reactivated successfully'
+        : 'User reactivated but their sign-in could not be restored',
+      data: { user, signInRestored },
+    });
+  };
+
+  moveUser = async (
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+    const moveData: MoveUserDto = req.body;
+
+    // Users can only be moved into a broker the caller can access
+    if (!validateBrokerAccess(req, moveData.brokerId)) {
+      throw new ForbiddenError(
+        'Access denied. You cannot move users to this broker.'
+      );
+    }
+
+    const user = await this.userService.moveUser(
+      id,
+      moveData,
+      req.user!.id,
+      getBrokerFilter(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'User moved successfully',
+      data: { user },
+    });
+  };
+}
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { UserController } from './user.controller';
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../common/middlewares/auth.middleware';
+import {
+  requireBrokerAccess,
+  enforceBrokerPermissionScope,
+} from '../../common/middlewares/brokerIsolation.middleware';
+import {
+  validate,
+  validateRequest,
+} from '../../common/middlewares/validation.middleware';
+import {
+  listUsersQuerySchema,
+  moveUserSchema,
+} from './validation/user.schemas';
+
+const router = Router();
+const userController = new UserController();
+
+// User Administration Routes (Broker Isolation Required)
+// Users are scoped to the caller's broker and its descendants
+router.get(
+  '/',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('users:read'),
+  validate({ query: listUsersQuerySchema }),
+  userController.getUsers
+);
+
+router.get(
+  '/:id',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('users:read'),
+  userController.getUserById
+);
+
+// Deactivation also revokes the user's Supabase sessions
+router.post(
+  '/:id/deactivate',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('users:update'),
+  userController.deactivateUser
+);
+
+router.post(
+  '/:id/reactivate',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('users:update'),
+  userController.reactivateUser
+);
+
+router.patch(
+  '/:id/broker',
+  authMiddleware,
+  requireBrokerAccess('hierarchy'),
+  enforceBrokerPermissionScope(),
+  requirePermission('users:update'),
+  validateRequest(moveUserSchema),
+  userController.moveUser
+);
+
+export default router;
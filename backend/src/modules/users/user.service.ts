@@ -0,0 +1,345 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { supabaseAdmin } from '../../config/supabase';
+import { cache, CACHE_NAMESPACES } from '../../config/cache';
+import { userLogger } from '../../services/logger.service';
+import { AuditService } from '../../services/audit.service';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../common/errors';
+import { toPage, toPageArgs } from '../../common/pagination';
+import { UserListFilters, MoveUserDto } from './dto/user.dto';
+
+// Supabase has no permanent ban, a century is close enough
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+const userInclude = {
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  userRoles: {
+    select: {
+      assignedAt: true,
+      role: {
+        select: {
+          id: true,
+          name: true,
+          level: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.ProfileInclude;
+
+type UserWithRoles = Prisma.ProfileGetPayload<{ include: typeof userInclude }>;
+
+export class UserService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * List users visible through the given broker filter
+   * The filter comes from getBrokerFilter() so agents only see their own broker
+   */
+  async getUsers(
+    brokerFilter: Prisma.ProfileWhereInput,
+    filters: UserListFilters
+  ) {
+    const { search, brokerId, isActive, roleId } = filters;
+
+    const where: Prisma.ProfileWhereInput = {
+      AND: [
+        brokerFilter,
+        brokerId ? { brokerId } : {},
+        isActive !== undefined ? { isActive } : {},
+        roleId ? { userRoles: { some: { roleId } } } : {},
+        search
+          ? {
+              OR: [
+                { firstName: { contains: search, mode: 'insensitive' } },
+                { lastName: { contains: search, mode: 'insensitive' } },
+                { cedulaRuc: { contains: search } },
+                { phone: { contains: search } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.profile.findMany({
+        where,
+        include: userInclude,
+        ...toPageArgs<Prisma.ProfileOrderByWithRelationInput>(filters),
+      }),
+      prisma.profile.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, filters);
+
+    userLogger.debug('Users retrieved', {
+      count: items.length,
+      total,
+      hasSearch: !!search,
+      brokerId,
+      operation: 'get_users',
+    });
+
+    return { users: items.map(user => this.toUserSummary(user)), meta };
+  }
+
+  /**
+   * Get a single user, scoped by broker filter
+   * The email lives in Supabase Auth and is null if it cannot be fetched
+   */
+  async getUserById(id: string, brokerFilter: Prisma.ProfileWhereInput) {
+    const user = await this.findAccessibleUser(id, brokerFilter);
+
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(id);
+
+    if (error) {
+      userLogger.warn('Could not load user email from Supabase', {
+        userId: id,
+        error: error.message,
+        operation: 'get_user_email',
+      });
+    }
+
+    return {
+      ...this.toUserSummary(user),
+      email: data?.user?.email ?? null,
+    };
+  }
+
+  /**
+   * Deactivate a user and revoke their Supabase sessions
+   * The profile is deactivated even if Supabase cannot be reached; the auth
+   * middleware rejects inactive profiles, so existing tokens stop working anyway
+   */
+  async deactivateUser(
+    id: string,
+    actorId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const user = await this.findAccessibleUser(id, brokerFilter);
+    await this.assertCanManageUser(actorId, user, 'deactivate');
+
+    if (!user.isActive) {
+      throw new ConflictError('User is already deactivated');
+    }
+
+    const updated = await prisma.profile.update({
+      where: { id },
+      data: { isActive: false },
+      include: userInclude,
+    });
+
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, id);
+
+    const sessionsRevoked = await this.setSupabaseBan(id, true);
+
+    userLogger.info('User deactivated', {
+      userId: id,
+      deactivatedBy: actorId,
+      sessionsRevoked,
+      operation: 'deactivate_user_success',
+    });
+
+    await this.auditService.record({
+      action: 'user.deactivate',
+      resourceType: 'user',
+      resourceId: id,
+      brokerId: user.brokerId,
+      metadata: { sessionsRevoked },
+    });
+
+    return { user: this.toUserSummary(updated), sessionsRevoked };
+  }
+
+  /**
+   * Reactivate a deactivated user and lift their Supabase ban
+   */
+  async reactivateUser(
+    id: string,
+    actorId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const user = await this.findAccessibleUser(id, brokerFilter);
+    await this.assertCanManageUser(actorId, user, 'reactivate');
+
+    if (user.isActive) {
+      throw new ConflictError('User is already active');
+    }
+
+    const updated = await prisma.profile.update({
+      where: { id },
+      data: { isActive: true },
+      include: userInclude,
+    });
+
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, id);
+
+    const signInRestored = await this.setSupabaseBan(id, false);
+
+    userLogger.info('User reactivated', {
+      userId: id,
+      reactivatedBy: actorId,
+      signInRestored,
+      operation: 'reactivate_user_success',
+    });
+
+    await this.auditService.record({
+      action: 'user.reactivate',
+      resourceType: 'user',
+      resourceId: id,
+      brokerId: user.brokerId,
+      metadata: { signInRestored },
+    });
+
+    return { user: this.toUserSummary(updated), signInRestored };
+  }
+
+  /**
+   * Move a user to another broker
+   * The caller must have already validated access to the target broker
+   */
+  async moveUser(
+    id: string,
+    data: MoveUserDto,
+    actorId: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const { brokerId } = data;
+    const user = await this.findAccessibleUser(id, brokerFilter);
+    await this.assertCanManageUser(actorId, user, 'move');
+
+    if (user.brokerId === brokerId) {
+      throw new ConflictError('User already belongs to this broker');
+    }
+
+    const broker = await prisma.broker.findUnique({
+      where: { id: brokerId },
+    });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    const updated = await prisma.profile.update({
+      where: { id },
+      data: { brokerId },
+      include: userInclude,
+    });
+
+    // The cached access entry carries the user's broker
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, id);
+
+    userLogger.info('User moved to another broker', {
+      userId: id,
+      fromBrokerId: user.brokerId,
+      toBrokerId: brokerId,
+      movedBy: actorId,
+      operation: 'move_user_success',
+    });
+
+    await this.auditService.record({
+      action: 'user.move',
+      resourceType: 'user',
+      resourceId: id,
+      brokerId,
+      metadata: { fromBrokerId: user.brokerId, toBrokerId: brokerId },
+    });
+
+    return this.toUserSummary(updated);
+  }
+
+  /**
+   * Users outside the caller's brokers are reported as not found
+   */
+  private async findAccessibleUser(
+    id: string,
+    brokerFilter: Prisma.ProfileWhereInput
+  ) {
+    const user = await prisma.profile.findFirst({
+      where: { AND: [{ id }, brokerFilter] },
+      include: userInclude,
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Callers cannot manage themselves or users holding a role above their own
+   * Lower role levels are more privileged
+   */
+  private async assertCanManageUser(
+    actorId: string,
+    user: UserWithRoles,
+    operation: string
+  ) {
+    if (user.id === actorId) {
+      throw new ForbiddenError(`You cannot ${operation} your own account`);
+    }
+
+    const actorRoles = await prisma.userRole.findMany({
+      where: { userId: actorId },
+      select: { role: { select: { level: true } } },
+    });
+
+    const actorLevel = Math.min(...actorRoles.map(ur => ur.role.level));
+    const userLevel = Math.min(...user.userRoles.map(ur => ur.role.level));
+
+    if (userLevel < actorLevel) {
+      throw new ForbiddenError(
+        `You cannot ${operation} a user with a role above your own`
+      );
+    }
+  }
+
+  /**
+   * Ban or unban the user in Supabase Auth
+   * Banning signs the user out everywhere by invalidating their refresh tokens.
+   * Returns false if Supabase rejected the change.
+   */
+  private async setSupabaseBan(userId: string, banned: boolean) {
+    const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      ban_duration: banned ? DEACTIVATED_BAN_DURATION : 'none',
+    });
+
+    if (error) {
+      userLogger.error('Failed to update Supabase ban', error, {
+        userId,
+        banned,
+        operation: 'supabase_ban_update',
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private toUserSummary(user: UserWithRoles) {
+    const { userRoles, ...profile } = user;
+
+    return {
+      ...profile,
+      roles: userRoles.map(ur => ({
+        id: ur.role.id,
+        name: ur.role.name,
+        level: ur.role.level,
+        assignedAt: ur.assignedAt,
+      })),
+    };
+  }
+}
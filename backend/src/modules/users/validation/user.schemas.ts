@@ -0,0 +1,25 @@
+import Joi from 'joi';
+import { paginationQueryKeys } from '../../../common/pagination';
+
+// Query parameters of GET /api/users (see common/pagination for limit, offset, cursor and sort)
+export const listUsersQuerySchema = Joi.object({
+  search: Joi.string().trim().max(100).optional().allow(''),
+  brokerId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+  isActive: Joi.boolean().optional(),
+  roleId: Joi.string().uuid().optional().messages({
+    'string.guid': 'Role ID must be a valid UUID',
+  }),
+  ...paginationQueryKeys({
+    sortFields: ['firstName', 'lastName', 'createdAt'],
+    defaultSort: 'lastName,firstName',
+  }),
+});
+
+export const moveUserSchema = Joi.object({
+  brokerId: Joi.string().uuid().required().messages({
+    'any.required': 'Broker ID is required',
+    'string.guid': 'Broker ID must be a valid UUID',
+  }),
+});
@@ -0,0 +1,127 @@
+import { AuditOutcome, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getRequestContext } from '../common/requestContext';
+import { auditLogger } from './logger.service';
+
+type DatabaseClient = Prisma.TransactionClient | typeof prisma;
+
+export interface AuditEntry {
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  outcome?: AuditOutcome;
+  // Default to the authenticated user and their broker
+  actorId?: string | null;
+  brokerId?: string | null;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  brokerId?: string;
+  outcome?: AuditOutcome;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+const auditLogInclude = {
+  actor: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  broker: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.AuditLogInclude;
+
+/**
+ * Persistent audit trail of authorization and administrative actions
+ * Correlation id, IP and user agent come from the request context, so callers
+ * only describe what happened. Recording never fails the action being audited.
+ */
+export class AuditService {
+  async record(entry: AuditEntry, db: DatabaseClient = prisma) {
+    const context = getRequestContext();
+
+    try {
+      await db.auditLog.create({
+        data: {
+          action: entry.action,
+          resourceType: entry.resourceType,
+          resourceId: entry.resourceId ?? null,
+          outcome: entry.outcome ?? 'success',
+          actorId:
+            entry.actorId !== undefined ? entry.actorId : context?.actorId,
+          brokerId:
+            entry.brokerId !== undefined
+              ? entry.brokerId
+              : context?.actorBrokerId,
+          correlationId: context?.correlationId,
+          ipAddress: context?.ipAddress,
+          userAgent: context?.userAgent,
+          metadata: entry.metadata ?? {},
+        },
+      });
+    } catch (error) {
+      auditLogger.error('Failed to write audit log entry', error as Error, {
+        action: entry.action,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId,
+        correlationId: context?.correlationId,
+        operation: 'audit_record_failed',
+      });
+    }
+  }
+
+  /**
+   * Audit entries visible to the caller, newest first
+   */
+  async getAuditLogs(
+    brokerFilter: Prisma.AuditLogWhereInput,
+    filters: AuditLogFilters
+  ) {
+    const where: Prisma.AuditLogWhereInput = {
+      AND: [
+        brokerFilter,
+        {
+          actorId: filters.actorId,
+          action: filters.action,
+          resourceType: filters.resourceType,
+          resourceId: filters.resourceId,
+          brokerId: filters.brokerId,
+          outcome: filters.outcome,
+          correlationId: filters.correlationId,
+          createdAt:
+            filters.from || filters.to
+              ? { gte: filters.from, lte: filters.to }
+              : undefined,
+        },
+      ],
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: auditLogInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: filters.offset,
+        take: filters.limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+}
@@ -1,15 +1,22 @@
 import { prisma } from '../config/database';
 import { PermissionService } from './permission.service';
 import { UserRoleService } from './userRole.service';
-import { ForbiddenError, NotFoundError } from '../common/errors';
+import { AuditService } from './audit.service';
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from '../common/errors';
 
 export class AuthorizationService {
   private permissionService: PermissionService;
   private userRoleService: UserRoleService;
+  private auditService: AuditService;
 
   constructor() {
     this.permissionService = new PermissionService();
     this.userRoleService = new UserRoleService();
+    this.auditService = new AuditService();
   }
 
   /**
@@ -21,7 +28,7 @@ export class AuthorizationService {
     accessibleBrokerIds: string[]
   ) {
     if (!targetUserId) {
-      throw new Error('Target user ID is required for validation.');
+      throw new BadRequestError('Target user ID is required for validation.');
     }
     const targetUser = await prisma.profile.findUnique({
       where: { id: targetUserId },
@@ -112,7 +119,9 @@ export class AuthorizationService {
     const [resource, action] = permission.split(':');
 
     if (!resource || !action) {
-      throw new Error('Invalid permission format. Use "resource:action"');
+      throw new BadRequestError(
+        'Invalid permission format. Use "resource:action"'
+      );
     }
 
     // Pre-filter users to only those accessible by the requester
@@ -370,8 +379,6 @@ export class AuthorizationService {
     granted: boolean,
     context?: Record<string, any>
   ) {
-    // This could be extended to write to a separate audit log table
-    // For now, we'll just console.log for development
     const logEntry = {
       timestamp: new Date().toISOString(),
       userId,
@@ -380,12 +387,14 @@ export class AuthorizationService {
       context,
     };
 
-    console.log('Permission Check:', logEntry);
-
-    // In production, you might want to:
-    // - Write to an audit log table
-    // - Send to a logging service
-    // - Trigger alerts for failed permission checks
+    await this.auditService.record({
+      action: 'permission.check',
+      resourceType: 'permission',
+      resourceId: permission,
+      outcome: granted ? 'success' : 'denied',
+      actorId: userId,
+      metadata: context ?? {},
+    });
 
     return logEntry;
   }
@@ -1,10 +1,62 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { authLogger } from './logger.service';
-
+import { cache, CACHE_NAMESPACES } from '../config/cache';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../common/errors';
+
+type DatabaseClient = Prisma.TransactionClient | typeof prisma;
+
+// Advisory lock key serializing changes to broker paths
+const HIERARCHY_LOCK_KEY = 7260431;
+
+/**
+ * The broker hierarchy is stored as a materialized path on each broker:
+ * `path` lists the ids from the root down to the broker itself ("/root/child/")
+ * and `depth` is its distance from the root. Both are maintained here when
+ * brokers are created or moved, so the hierarchy has no depth limit and
+ * descendant/ancestor lookups need a single indexed query.
+ */
 export class BrokerHierarchyService {
+  /**
+   * Id, path and depth for a new broker under the given parent
+   * Root brokers are created with a null parent. Sub-brokers must be placed
+   * with the transaction that creates them, so a concurrent move cannot
+   * rewrite the parent path before the new broker is stored.
+   */
+  async getBrokerPlacement(
+    parentId: string | null,
+    db: DatabaseClient = prisma
+  ): Promise<{
+    id: string;
+    parentId: string | null;
+    path: string;
+    depth: number;
+  }> {
+    const id = uuidv4();
+
+    if (!parentId) {
+      return { id, parentId: null, path: `/${id}/`, depth: 0 };
+    }
+
+    await this.lockHierarchy(db);
+    const parent = await this.getBrokerPath(parentId, db);
+
+    return {
+      id,
+      parentId,
+      path: `${parent.path}${id}/`,
+      depth: parent.depth + 1,
+    };
+  }
+
   /**
    * Get all descendant broker IDs (including the root broker itself)
-   * Uses recursive CTE to traverse the broker hierarchy downward
+   * Ordered by depth, so the root broker comes first
    */
   async getDescendantBrokerIds(brokerId: string): Promise<string[]> {
     if (!brokerId) {
@@ -12,64 +64,30 @@ export class BrokerHierarchyService {
       return [];
     }
 
-    authLogger.debug('Getting descendant brokers', {
-      rootBrokerId: brokerId,
-      operation: 'get_descendant_brokers',
-    });
-
-    try {
-      // Use raw SQL with recursive CTE to get all descendant brokers
-      const result = await prisma.$queryRaw<Array<{ id: string }>>`
-        WITH RECURSIVE broker_hierarchy AS (
-          -- Base case: start with the root broker
-          SELECT id, parent_id, 0 as level 
-          FROM brokers 
-          WHERE id = ${brokerId}
-          
-          UNION ALL
-          
-          -- Recursive case: find children of current level
-          SELECT b.id, b.parent_id, bh.level + 1 
-          FROM brokers b 
-          INNER JOIN broker_hierarchy bh ON b.parent_id = bh.id
-          WHERE bh.level < 10  -- Prevent infinite recursion (max 10 levels)
-        )
-        SELECT id FROM broker_hierarchy
-        ORDER BY level;
-      `;
-
-      const brokerIds = result.map(row => row.id);
+    const root = await this.getBrokerPath(brokerId);
 
-      authLogger.debug('Descendant brokers retrieved successfully', {
-        rootBrokerId: brokerId,
-        descendantCount: brokerIds.length,
-        descendantIds: brokerIds,
-        operation: 'get_descendant_brokers_success',
-      });
+    // A constant prefix lets Postgres use the text_pattern_ops index on path
+    const result = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id
+      FROM brokers
+      WHERE path LIKE ${`${root.path}%`}
+      ORDER BY depth, name;
+    `;
 
-      return brokerIds;
-    } catch (error) {
-      authLogger.error('Failed to get descendant brokers', error as Error, {
-        rootBrokerId: brokerId,
-        operation: 'get_descendant_brokers_failed',
-      });
+    const brokerIds = result.map(row => row.id);
 
-      // On error, return just the root broker to maintain some functionality
-      authLogger.warn(
-        'Fallback: returning only root broker due to hierarchy query error',
-        {
-          rootBrokerId: brokerId,
-        }
-      );
+    authLogger.debug('Descendant brokers retrieved successfully', {
+      rootBrokerId: brokerId,
+      descendantCount: brokerIds.length,
+      operation: 'get_descendant_brokers_success',
+    });
 
-      return [brokerId];
-    }
+    return brokerIds;
   }
 
   /**
-   * Get all ancestor broker IDs (including the root broker itself)
-   * Uses recursive CTE to traverse the broker hierarchy upward
-   * Useful for validation and future features
+   * Get all ancestor broker IDs (including the broker itself)
+   * Root first, the given broker last
    */
   async getAncestorBrokerIds(brokerId: string): Promise<string[]> {
     if (!brokerId) {
@@ -77,108 +95,169 @@ export class BrokerHierarchyService {
       return [];
     }
 
-    authLogger.debug('Getting ancestor brokers', {
+    const broker = await this.getBrokerPath(brokerId);
+    const brokerIds = broker.path.split('/').filter(Boolean);
+
+    authLogger.debug('Ancestor brokers retrieved successfully', {
       childBrokerId: brokerId,
-      operation: 'get_ancestor_brokers',
+      ancestorCount: brokerIds.length,
+      operation: 'get_ancestor_brokers_success',
     });
 
-    try {
-      const result = await prisma.$queryRaw<Array<{ id: string }>>`
-        WITH RECURSIVE broker_hierarchy AS (
-          -- Base case: start with the child broker
-          SELECT id, parent_id, 0 as level 
-          FROM brokers 
-          WHERE id = ${brokerId}
-          
-          UNION ALL
-          
-          -- Recursive case: find parents of current level
-          SELECT b.id, b.parent_id, bh.level + 1 
-          FROM brokers b 
-          INNER JOIN broker_hierarchy bh ON bh.parent_id = b.id
-          WHERE bh.level < 10  -- Prevent infinite recursion
-        )
-        SELECT id FROM broker_hierarchy
-        ORDER BY level DESC;  -- Root first, then descendants
-      `;
-
-      const brokerIds = result.map(row => row.id);
-
-      authLogger.debug('Ancestor brokers retrieved successfully', {
-        childBrokerId: brokerId,
-        ancestorCount: brokerIds.length,
-        ancestorIds: brokerIds,
-        operation: 'get_ancestor_brokers_success',
-      });
-
-      return brokerIds;
-    } catch (error) {
-      authLogger.error('Failed to get ancestor brokers', error as Error, {
-        childBrokerId: brokerId,
-        operation: 'get_ancestor_brokers_failed',
-      });
-
-      return [brokerId];
-    }
+    return brokerIds;
   }
 
   /**
    * Validate that setting parentId wouldn't create a cycle
-   * Prevents circular references in broker hierarchy
+   * A cycle happens when the new parent is the child itself or one of its descendants
    */
   async validateNoCycles(parentId: string, childId: string): Promise<boolean> {
     if (!parentId || !childId) {
       return true; // No cycle possible with empty IDs
     }
 
-    if (parentId === childId) {
-      authLogger.warn('Cycle detection: broker cannot be its own parent', {
+    const [parent, child] = await Promise.all([
+      this.getBrokerPath(parentId),
+      this.getBrokerPath(childId),
+    ]);
+
+    const wouldCreateCycle = parent.path.startsWith(child.path);
+
+    if (wouldCreateCycle) {
+      authLogger.warn('Cycle detected in broker hierarchy', {
         parentId,
         childId,
-        operation: 'cycle_validation',
+        operation: 'cycle_detected',
       });
-      return false;
     }
 
-    authLogger.debug('Validating broker hierarchy for cycles', {
-      parentId,
-      childId,
-      operation: 'cycle_validation',
-    });
+    return !wouldCreateCycle;
+  }
 
-    try {
-      // Get all descendants of the proposed child
-      const childDescendants = await this.getDescendantBrokerIds(childId);
-
-      // If the proposed parent is in the child's descendants, it would create a cycle
-      const wouldCreateCycle = childDescendants.includes(parentId);
-
-      if (wouldCreateCycle) {
-        authLogger.warn('Cycle detected in broker hierarchy', {
-          parentId,
-          childId,
-          childDescendants,
-          operation: 'cycle_detected',
-        });
-      } else {
-        authLogger.debug('No cycle detected, hierarchy is valid', {
-          parentId,
-          childId,
-          operation: 'cycle_validation_success',
-        });
+  /**
+   * Re-parent a broker, rewriting the path and depth of its whole subtree
+   */
+  async moveBroker(brokerId: string, parentId: string) {
+    const movedBroker = await prisma.$transaction(async tx => {
+      // Paths are read after taking the lock, so concurrent moves cannot both
+      // pass the cycle check and placements never use a path being rewritten
+      await this.lockHierarchy(tx);
+
+      const [broker, parent] = await Promise.all([
+        this.getBrokerPath(brokerId, tx),
+        this.getBrokerPath(parentId, tx),
+      ]);
+
+      if (parent.path.startsWith(broker.path)) {
+        throw new ConflictError(
+          'A broker cannot be moved under itself or one of its sub-brokers'
+        );
       }
 
-      return !wouldCreateCycle;
-    } catch (error) {
-      authLogger.error('Error during cycle validation', error as Error, {
+      const newPath = `${parent.path}${brokerId}/`;
+      const depthDelta = parent.depth + 1 - broker.depth;
+
+      const movedCount = await tx.$executeRaw`
+        UPDATE brokers
+        SET path = ${newPath}::text || substring(path from ${broker.path.length + 1}::int),
+            depth = depth + ${depthDelta}::int
+        WHERE path LIKE ${`${broker.path}%`};
+      `;
+
+      const movedBroker = await tx.broker.update({
+        where: { id: brokerId },
+        data: { parentId },
+      });
+
+      authLogger.info('Broker subtree moved', {
+        brokerId,
         parentId,
-        childId,
-        operation: 'cycle_validation_error',
+        movedCount,
+        operation: 'move_broker_subtree',
       });
 
-      // On error, be conservative and reject the operation
-      return false;
+      return movedBroker;
+    });
+
+    await this.invalidateBrokerContexts();
+
+    return movedBroker;
+  }
+
+  /**
+   * Drop cached broker contexts after the hierarchy changes
+   * Adding or moving a broker changes the accessible brokers of all its ancestors
+   */
+  async invalidateBrokerContexts() {
+    await cache.invalidateNamespace(CACHE_NAMESPACES.brokerContext);
+  }
+
+  /**
+   * Recompute every path and depth from the parent links
+   * Used to backfill existing brokers; fails if the parent links contain a cycle
+   */
+  async rebuildPaths(): Promise<number> {
+    const brokers = await prisma.broker.findMany({
+      select: { id: true, parentId: true, path: true, depth: true },
+    });
+
+    const childrenByParent = new Map<string | null, typeof brokers>();
+    brokers.forEach(broker => {
+      const siblings = childrenByParent.get(broker.parentId) ?? [];
+      siblings.push(broker);
+      childrenByParent.set(broker.parentId, siblings);
+    });
+
+    const placements = new Map<string, { path: string; depth: number }>();
+    const queue = (childrenByParent.get(null) ?? []).map(broker => ({
+      broker,
+      path: `/${broker.id}/`,
+      depth: 0,
+    }));
+
+    while (queue.length > 0) {
+      const { broker, path, depth } = queue.shift()!;
+      placements.set(broker.id, { path, depth });
+
+      (childrenByParent.get(broker.id) ?? []).forEach(child =>
+        queue.push({
+          broker: child,
+          path: `${path}${child.id}/`,
+          depth: depth + 1,
+        })
+      );
+    }
+
+    const unreachable = brokers.filter(broker => !placements.has(broker.id));
+    if (unreachable.length > 0) {
+      throw new Error(
+        `Broker hierarchy contains a cycle: ${unreachable.map(broker => broker.id).join(', ')}`
+      );
     }
+
+    const changed = brokers.filter(broker => {
+      const placement = placements.get(broker.id)!;
+      return placement.path !== broker.path || placement.depth !== broker.depth;
+    });
+
+    await prisma.$transaction(
+      changed.map(broker =>
+        prisma.broker.update({
+          where: { id: broker.id },
+          data: placements.get(broker.id)!,
+        })
+      )
+    );
+
+    await this.invalidateBrokerContexts();
+
+    authLogger.info('Broker paths rebuilt', {
+      brokerCount: brokers.length,
+      updatedCount: changed.length,
+      operation: 'rebuild_broker_paths',
+    });
+
+    return changed.length;
   }
 
   /**
@@ -187,74 +266,57 @@ export class BrokerHierarchyService {
    */
   async getBrokerHierarchyInfo(brokerId: string) {
     if (!brokerId) {
-      throw new Error('Broker ID is required');
+      throw new BadRequestError('Broker ID is required');
     }
 
-    authLogger.debug('Getting broker hierarchy info', {
-      brokerId,
-      operation: 'get_hierarchy_info',
-    });
-
-    try {
-      const broker = await prisma.broker.findUnique({
-        where: { id: brokerId },
-        include: {
-          parent: {
-            select: {
-              id: true,
-              name: true,
-            },
+    const broker = await prisma.broker.findUnique({
+      where: { id: brokerId },
+      include: {
+        parent: {
+          select: {
+            id: true,
+            name: true,
           },
-          children: {
-            select: {
-              id: true,
-              name: true,
-            },
+        },
+        children: {
+          select: {
+            id: true,
+            name: true,
           },
         },
-      });
-
-      if (!broker) {
-        throw new Error('Broker not found');
-      }
-
-      // Get full hierarchy context
-      const [descendants, ancestors] = await Promise.all([
-        this.getDescendantBrokerIds(brokerId),
-        this.getAncestorBrokerIds(brokerId),
-      ]);
+      },
+    });
 
-      const hierarchyInfo = {
-        broker: {
-          id: broker.id,
-          name: broker.name,
-          description: broker.description,
-          parentId: broker.parentId,
-        },
-        parent: broker.parent,
-        directChildren: broker.children,
-        hierarchyStats: {
-          totalDescendants: descendants.length - 1, // Exclude self
-          totalAncestors: ancestors.length - 1, // Exclude self
-          hierarchyLevel: ancestors.length - 1, // 0 for root, 1 for first level child, etc.
-        },
-        accessibleBrokerIds: descendants, // All brokers this broker can access
-      };
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
 
-      authLogger.debug('Broker hierarchy info retrieved successfully', {
-        brokerId,
-        hierarchyStats: hierarchyInfo.hierarchyStats,
-        operation: 'get_hierarchy_info_success',
-      });
+    const descendants = await this.getDescendantBrokerIds(brokerId);
+
+    const hierarchyInfo = {
+      broker: {
+        id: broker.id,
+        name: broker.name,
+        description: broker.description,
+        parentId: broker.parentId,
+      },
+      parent: broker.parent,
+      directChildren: broker.children,
+      hierarchyStats: {
+        totalDescendants: descendants.length - 1, // Exclude self
+        totalAncestors: broker.depth,
+        hierarchyLevel: broker.depth, // 0 for root, 1 for first level child, etc.
+      },
+      accessibleBrokerIds: descendants, // All brokers this broker can access
+    };
+
+    authLogger.debug('Broker hierarchy info retrieved successfully', {
+      brokerId,
+      hierarchyStats: hierarchyInfo.hierarchyStats,
+      operation: 'get_hierarchy_info_success',
+    });
 
-      return hierarchyInfo;
-    } catch (error) {
-      authLogger.error('Failed to get broker hierarchy info', error as Error, {
-        brokerId,
-        operation: 'get_hierarchy_info_failed',
-      });
-      throw error;
-    }
+    return hierarchyInfo;
   }
 
   /**
@@ -273,35 +335,51 @@ export class BrokerHierarchyService {
       return true; // Can always access own broker
     }
 
-    authLogger.debug('Checking broker access permissions', {
+    const target = await this.getBrokerPath(targetBrokerId);
+    const hasAccess = target.path.includes(`/${userBrokerId}/`);
+
+    authLogger.debug('Broker access check completed', {
       userBrokerId,
       targetBrokerId,
-      operation: 'check_broker_access',
+      hasAccess,
+      operation: 'check_broker_access_result',
     });
 
-    try {
-      const accessibleBrokerIds =
-        await this.getDescendantBrokerIds(userBrokerId);
-      const hasAccess = accessibleBrokerIds.includes(targetBrokerId);
-
-      authLogger.debug('Broker access check completed', {
-        userBrokerId,
-        targetBrokerId,
-        hasAccess,
-        accessibleBrokerIds,
-        operation: 'check_broker_access_result',
-      });
+    return hasAccess;
+  }
 
-      return hasAccess;
-    } catch (error) {
-      authLogger.error('Error checking broker access', error as Error, {
-        userBrokerId,
-        targetBrokerId,
-        operation: 'check_broker_access_error',
-      });
+  /**
+   * Serialize path changes until the surrounding transaction ends
+   */
+  private async lockHierarchy(db: DatabaseClient) {
+    await db.$executeRaw`SELECT pg_advisory_xact_lock(${HIERARCHY_LOCK_KEY}::bigint)`;
+  }
 
-      // On error, deny access for security
-      return false;
+  private async getBrokerPath(brokerId: string, db: DatabaseClient = prisma) {
+    const broker = await db.broker.findUnique({
+      where: { id: brokerId },
+      select: { id: true, path: true, depth: true },
+    });
+
+    if (!broker) {
+      throw new NotFoundError('Broker not found');
+    }
+
+    if (!broker.path) {
+      throw this.missingPathError(brokerId);
     }
+
+    return broker;
+  }
+
+  private missingPathError(brokerId: string) {
+    authLogger.error('Broker hierarchy path missing', undefined, {
+      brokerId,
+      operation: 'broker_path_missing',
+    });
+
+    return new Error(
+      `Broker ${brokerId} has no hierarchy path. Run "npm run brokers:rebuild-paths".`
+    );
   }
 }
@@ -0,0 +1,196 @@
+import type Redis from 'ioredis';
+import { cacheLogger } from './logger.service';
+
+/**
+ * Minimal key/value store the cache is built on
+ * Values are serialized strings; ttl is in seconds
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  del(key: string): Promise<void>;
+  incr(key: string): Promise<number>;
+}
+
+/**
+ * In-process LRU store
+ * Map keeps insertion order, so re-inserting on read moves a key to the end
+ * and the first key is always the least recently used one
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  // Namespace versions live outside the LRU so they are never evicted
+  private counters = new Map<string, number>();
+
+  constructor(private maxEntries = 10000) {}
+
+  async get(key: string): Promise<string | null> {
+    const counter = this.counters.get(key);
+    if (counter !== undefined) {
+      return String(counter);
+    }
+
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    const next = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, next);
+    return next;
+  }
+}
+
+/**
+ * Store backed by Redis or any server speaking the same protocol
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(private client: Redis) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, 'EX', Math.max(1, Math.ceil(ttlSeconds)));
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+}
+
+/**
+ * JSON cache with namespaces
+ * Each namespace has a version that is part of every key, so a whole
+ * namespace is invalidated by bumping its version instead of scanning keys.
+ * Cache failures never fail a request: reads fall back to the loader.
+ * Null results are not cached, so misses are retried on the next call.
+ */
+export class CacheService {
+  constructor(
+    private store: CacheStore,
+    private prefix = 'cotizate'
+  ) {}
+
+  async remember<T>(
+    namespace: string,
+    key: string,
+    ttlSeconds: number,
+    loader: () => Promise<T>
+  ): Promise<T> {
+    const cacheKey = await this.buildKey(namespace, key);
+
+    if (cacheKey) {
+      try {
+        const cached = await this.store.get(cacheKey);
+        if (cached !== null) {
+          return JSON.parse(cached) as T;
+        }
+      } catch (error) {
+        this.logFailure('read', namespace, error);
+      }
+    }
+
+    const value = await loader();
+
+    if (cacheKey && ttlSeconds > 0 && value !== null && value !== undefined) {
+      try {
+        await this.store.set(cacheKey, JSON.stringify(value), ttlSeconds);
+      } catch (error) {
+        this.logFailure('write', namespace, error);
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Drop a single key of a namespace
+   */
+  async invalidate(namespace: string, key: string): Promise<void> {
+    const cacheKey = await this.buildKey(namespace, key);
+    if (!cacheKey) {
+      return;
+    }
+
+    try {
+      await this.store.del(cacheKey);
+    } catch (error) {
+      this.logFailure('invalidate', namespace, error);
+    }
+  }
+
+  /**
+   * Drop every key of a namespace
+   */
+  async invalidateNamespace(namespace: string): Promise<void> {
+    try {
+      await this.store.incr(this.versionKey(namespace));
+      cacheLogger.debug('Cache namespace invalidated', {
+        namespace,
+        operation: 'cache_invalidate_namespace',
+      });
+    } catch (error) {
+      this.logFailure('invalidate', namespace, error);
+    }
+  }
+
+  private async buildKey(
+    namespace: string,
+    key: string
+  ): Promise<string | null> {
+    try {
+      const version = (await this.store.get(this.versionKey(namespace))) ?? '0';
+      return `${this.prefix}:${namespace}:v${version}:${key}`;
+    } catch (error) {
+      this.logFailure('read', namespace, error);
+      return null;
+    }
+  }
+
+  private versionKey(namespace: string) {
+    return `${this.prefix}:${namespace}:version`;
+  }
+
+  private logFailure(action: string, namespace: string, error: unknown) {
+    cacheLogger.warn(`Cache ${action} failed`, {
+      namespace,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      operation: `cache_${action}_failed`,
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { commissionLogger } from './logger.service';
+import { BrokerHierarchyService } from './brokerHierarchy.service';
+import { PremiumBreakdown } from './ratingEngine.service';
+
+type DatabaseClient = Prisma.TransactionClient | typeof prisma;
+
+export interface CommissionPolicy {
+  id: string;
+  brokerId: string;
+  insurerId: string;
+  productId: string;
+  startDate: Date;
+  premium: Prisma.Decimal;
+  currency: string;
+  quote: { premiumBreakdown: Prisma.JsonValue };
+}
+
+export interface CommissionSplit {
+  ruleId: string;
+  rate: number;
+  baseAmount: number;
+  totalAmount: number;
+  currency: string;
+  shares: { brokerId: string; level: number; share: number; amount: number }[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export class CommissionEngineService {
+  private brokerHierarchyService: BrokerHierarchyService;
+
+  constructor() {
+    this.brokerHierarchyService = new BrokerHierarchyService();
+  }
+
+  /**
+   * Validate a hierarchy split, returns an error message when it is malformed
+   */
+  validateHierarchySplit(split: unknown): string | null {
+    if (!Array.isArray(split)) {
+      return 'Hierarchy split must be a list of shares';
+    }
+
+    if (split.some(share => typeof share !== 'number' || share < 0)) {
+      return 'Hierarchy split shares must be non-negative numbers';
+    }
+
+    const total = (split as number[]).reduce((sum, share) => sum + share, 0);
+    if (total >= 1) {
+      return 'Hierarchy split must leave a share for the selling broker';
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the rule that applies to a product on a date
+   * Product rules win over insurer-wide rules; the latest effective one is used
+   */
+  async findApplicableRule(
+    insurerId: string,
+    productId: string,
+    date: Date,
+    db: DatabaseClient = prisma
+  ) {
+    const rules = await db.commissionRule.findMany({
+      where: {
+        insurerId,
+        isActive: true,
+        effectiveFrom: { lte: date },
+        OR: [{ productId }, { productId: null }],
+      },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    return rules.find(rule => rule.productId === productId) ?? rules[0] ?? null;
+  }
+
+  /**
+   * Split a policy's commission between the selling broker and its ancestors
+   * Returns null when no commission rule covers the policy
+   */
+  async calculateSplit(
+    policy: CommissionPolicy,
+    db: DatabaseClient = prisma
+  ): Promise<CommissionSplit | null> {
+    const rule = await this.findApplicableRule(
+      policy.insurerId,
+      policy.productId,
+      policy.startDate,
+      db
+    );
+
+    if (!rule) {
+      return null;
+    }
+
+    // Commission is paid on the net premium; manual premiums have no breakdown
+    const breakdown = policy.quote
+      .premiumBreakdown as unknown as PremiumBreakdown | null;
+    const baseAmount = breakdown
+      ? breakdown.netPremium
+      : policy.premium.toNumber();
+    const rate = rule.rate.toNumber();
+    const totalAmount = roundMoney(baseAmount * rate);
+
+    // Ancestors come root first, so reverse to walk up from the selling broker
+    const chain = (
+      await this.brokerHierarchyService.getAncestorBrokerIds(policy.brokerId)
+    ).reverse();
+    const hierarchySplit = rule.hierarchySplit as number[];
+
+    const shares: CommissionSplit['shares'] = [];
+    chain.slice(1).forEach((brokerId, index) => {
+      const share = hierarchySplit[index] ?? 0;
+      if (share > 0) {
+        shares.push({
+          brokerId,
+          level: index + 1,
+          share,
+          amount: roundMoney(totalAmount * share),
+        });
+      }
+    });
+
+    // The selling broker keeps the remainder, including unused ancestor shares
+    shares.unshift({
+      brokerId: policy.brokerId,
+      level: 0,
+      share:
+        Math.round(
+          (1 - shares.reduce((sum, entry) => sum + entry.share, 0)) * 10000
+        ) / 10000,
+      amount: roundMoney(
+        totalAmount - shares.reduce((sum, entry) => sum + entry.amount, 0)
+      ),
+    });
+
+    return {
+      ruleId: rule.id,
+      rate,
+      baseAmount,
+      totalAmount,
+      currency: policy.currency,
+      shares,
+    };
+  }
+
+  /**
+   * Record the commission entries of a newly issued policy
+   */
+  async recordPolicyCommissions(
+    policy: CommissionPolicy,
+    db: DatabaseClient = prisma
+  ) {
+    const split = await this.calculateSplit(policy, db);
+
+    if (!split) {
+      commissionLogger.warn('No commission rule applies to policy', {
+        policyId: policy.id,
+        insurerId: policy.insurerId,
+        productId: policy.productId,
+        operation: 'record_policy_commissions',
+      });
+      return null;
+    }
+
+    await db.commissionEntry.createMany({
+      data: split.shares.map(share => ({
+        policyId: policy.id,
+        brokerId: share.brokerId,
+        ruleId: split.ruleId,
+        level: share.level,
+        baseAmount: split.baseAmount,
+        share: share.share,
+        amount: share.amount,
+        currency: split.currency,
+        earnedAt: policy.startDate,
+      })),
+    });
+
+    commissionLogger.info('Policy commissions recorded', {
+      policyId: policy.id,
+      ruleId: split.ruleId,
+      totalAmount: split.totalAmount,
+      brokerCount: split.shares.length,
+      operation: 'record_policy_commissions_success',
+    });
+
+    return split;
+  }
+
+  /**
+   * Void the commission entries of a cancelled policy
+   */
+  async voidPolicyCommissions(policyId: string, db: DatabaseClient = prisma) {
+    const result = await db.commissionEntry.updateMany({
+      where: { policyId, status: 'earned' },
+      data: { status: 'voided', voidedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      commissionLogger.info('Policy commissions voided', {
+        policyId,
+        count: result.count,
+        operation: 'void_policy_commissions',
+      });
+    }
+  }
+}
@@ -213,3 +213,14 @@ export const authLogger = new LoggerService('auth');
 export const dbLogger = new LoggerService('database');
 export const apiLogger = new LoggerService('api');
 export const securityLogger = new LoggerService('security');
+export const clientLogger = new LoggerService('clients');
+export const quoteLogger = new LoggerService('quotes');
+export const catalogLogger = new LoggerService('catalog');
+export const policyLogger = new LoggerService('policies');
+export const renewalLogger = new LoggerService('renewals');
+export const commissionLogger = new LoggerService('commissions');
+export const brokerLogger = new LoggerService('brokers');
+export const cacheLogger = new LoggerService('cache');
+export const auditLogger = new LoggerService('audit');
+export const mailLogger = new LoggerService('mail');
+export const userLogger = new LoggerService('users');
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Transporter } from 'nodemailer';
+import {
+  mailTemplates,
+  MailTemplateData,
+  MailTemplateName,
+} from '../common/mailTemplates';
+import { mailLogger } from './logger.service';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivers a rendered message
+ * Transports throw when delivery fails; MailService decides what to do with it
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(from: string, message: MailMessage): Promise<void>;
+}
+
+/**
+ * Delivery through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private transporter: Transporter) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from, ...message });
+  }
+}
+
+/**
+ * Writes each message to a JSON file instead of sending it
+ * Used in development and tests to inspect what would have been sent
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from, ...message }, null, 2)
+    );
+  }
+}
+
+/**
+ * Logs each message instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    mailLogger.info('Email (console transport)', {
+      from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Renders templates and hands them to the configured transport
+ */
+export class MailService {
+  constructor(
+    private transport: MailTransport,
+    private from: string
+  ) {}
+
+  async sendTemplate<T extends MailTemplateName>(
+    template: T,
+    to: string,
+    data: MailTemplateData<T>
+  ): Promise<void> {
+    const message = { to, ...mailTemplates[template](data) };
+
+    try {
+      await this.transport.send(this.from, message);
+
+      mailLogger.info('Email sent', {
+        template,
+        to,
+        transport: this.transport.name,
+        operation: 'mail_send_success',
+      });
+    } catch (error) {
+      mailLogger.error('Email delivery failed', error as Error, {
+        template,
+        to,
+        transport: this.transport.name,
+        operation: 'mail_send_failed',
+      });
+      throw error;
+    }
+  }
+}
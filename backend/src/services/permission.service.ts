@@ -1,6 +1,19 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { BrokerHierarchyService } from './brokerHierarchy.service';
 import { authLogger } from './logger.service';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../common/errors';
+import { PageQuery, toPage, toPageArgs } from '../common/pagination';
+import { RoleMemberListQuery, roleMemberWhere } from './userRole.service';
+
+export interface PermissionListQuery extends PageQuery {
+  resource?: string;
+  search?: string;
+}
 
 export class PermissionService {
   private brokerHierarchyService: BrokerHierarchyService;
@@ -26,7 +39,7 @@ export class PermissionService {
     });
 
     if (existingPermission) {
-      throw new Error('Permission already exists');
+      throw new ConflictError('Permission already exists');
     }
 
     const permission = await prisma.permission.create({
@@ -40,21 +53,37 @@ export class PermissionService {
     return permission;
   }
 
-  async getPermissions() {
-    const permissions = await prisma.permission.findMany({
-      orderBy: [{ resource: 'asc' }, { action: 'asc' }],
-    });
+  async getPermissions(query: PermissionListQuery) {
+    const { resource, search } = query;
+    const where: Prisma.PermissionWhereInput = {
+      AND: [
+        resource ? { resource } : {},
+        search
+          ? {
+              OR: [
+                { resource: { contains: search, mode: 'insensitive' } },
+                { action: { contains: search, mode: 'insensitive' } },
+                { description: { contains: search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+      ],
+    };
 
-    return permissions;
-  }
+    const [rows, total] = await Promise.all([
+      prisma.permission.findMany({
+        where,
+        ...toPageArgs<Prisma.PermissionOrderByWithRelationInput>(query),
+      }),
+      prisma.permission.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, query);
 
-  async getPermissionsByResource(resource: string) {
-    const permissions = await prisma.permission.findMany({
-      where: { resource },
-      orderBy: { action: 'asc' },
-    });
+    return { permissions: items, meta };
+  }
 
-    return permissions;
+  async getPermissionsByResource(resource: string, query: PageQuery) {
+    return this.getPermissions({ ...query, resource });
   }
 
   async getPermissionById(id: string) {
@@ -63,7 +92,7 @@ export class PermissionService {
     });
 
     if (!permission) {
-      throw new Error('Permission not found');
+      throw new NotFoundError('Permission not found');
     }
 
     return permission;
@@ -78,7 +107,7 @@ export class PermissionService {
     });
 
     if (!permission) {
-      throw new Error('Permission not found');
+      throw new NotFoundError('Permission not found');
     }
 
     const updatedPermission = await prisma.permission.update({
@@ -101,12 +130,14 @@ export class PermissionService {
     });
 
     if (!permission) {
-      throw new Error('Permission not found');
+      throw new NotFoundError('Permission not found');
     }
 
     // Check if permission is assigned to any roles
     if (permission.rolePermissions.length > 0) {
-      throw new Error('Cannot delete permission that is assigned to roles');
+      throw new ConflictError(
+        'Cannot delete permission that is assigned to roles'
+      );
     }
 
     await prisma.permission.delete({
@@ -120,7 +151,9 @@ export class PermissionService {
     const [resource, action] = permission.split(':');
 
     if (!resource || !action) {
-      throw new Error('Invalid permission format. Use "resource:action"');
+      throw new BadRequestError(
+        'Invalid permission format. Use "resource:action"'
+      );
     }
 
     const userPermission = await prisma.userRole.findFirst({
@@ -205,7 +238,9 @@ export class PermissionService {
   }
 
   async getResourcePermissions() {
-    const permissions = await this.getPermissions();
+    const permissions = await prisma.permission.findMany({
+      orderBy: [{ resource: 'asc' }, { action: 'asc' }],
+    });
 
     // Group permissions by resource
     const resourcePermissions = permissions.reduce(
@@ -229,70 +264,70 @@ export class PermissionService {
     return resourcePermissions;
   }
 
-  async getUsersWithPermission(permission: string, brokerFilter: any) {
+  /**
+   * List users holding a permission through any of their roles
+   * Pages over users, so someone with several matching roles appears once
+   */
+  async getUsersWithPermission(
+    permission: string,
+    brokerFilter: any,
+    query: RoleMemberListQuery
+  ) {
     const [resource, action] = permission.split(':');
 
     if (!resource || !action) {
-      throw new Error('Invalid permission format. Use "resource:action"');
+      throw new BadRequestError(
+        'Invalid permission format. Use "resource:action"'
+      );
     }
 
-    const usersWithPermission = await prisma.userRole.findMany({
-      where: {
-        role: {
-          rolePermissions: {
-            some: {
-              permission: {
-                resource,
-                action,
-              },
-            },
+    const roleWhere: Prisma.RoleWhereInput = {
+      rolePermissions: {
+        some: {
+          permission: {
+            resource,
+            action,
           },
         },
-        user: brokerFilter,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            cedulaRuc: true,
-            isActive: true,
-          },
-        },
-        role: {
-          select: {
-            id: true,
-            name: true,
+    };
+    const where = roleMemberWhere(roleWhere, brokerFilter, query);
+
+    const [rows, total] = await Promise.all([
+      prisma.profile.findMany({
+        where,
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          cedulaRuc: true,
+          isActive: true,
+          userRoles: {
+            where: { role: roleWhere },
+            select: {
+              role: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
           },
         },
-      },
-    });
-
-    // Deduplicate users (in case they have multiple roles with the same permission)
-    const uniqueUsers = usersWithPermission.reduce(
-      (acc, item) => {
-        const existingUser = acc.find(u => u.user.id === item.user.id);
-        if (existingUser) {
-          existingUser.roles.push(item.role);
-        } else {
-          acc.push({
-            user: item.user,
-            roles: [item.role],
-          });
-        }
-        return acc;
-      },
-      [] as Array<{
-        user: (typeof usersWithPermission)[0]['user'];
-        roles: Array<{ id: string; name: string }>;
-      }>
-    );
+        ...toPageArgs<Prisma.ProfileOrderByWithRelationInput>(query),
+      }),
+      prisma.profile.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, query);
 
     return {
       permission: `${resource}:${action}`,
-      userCount: uniqueUsers.length,
-      users: uniqueUsers,
+      userCount: meta.total, // Kept for existing clients, same as meta.total
+      users: items.map(({ userRoles, ...user }) => ({
+        user,
+        roles: userRoles.map(userRole => userRole.role),
+      })),
+      meta,
     };
   }
 
@@ -567,9 +602,12 @@ export class PermissionService {
     // Check if it's a resource that should be broker-scoped
     const brokerScopedResources = [
       'clients',
+      'quotes',
       'policies',
+      'commissions',
       'records',
       'invitations',
+      'audit',
     ];
     return brokerScopedResources.includes(resource);
   }
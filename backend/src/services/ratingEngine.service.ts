@@ -0,0 +1,586 @@
+import { LineOfBusiness, Prisma, ProductRatingVersion } from '@prisma/client';
+import { prisma } from '../config/database';
+import { quoteLogger } from './logger.service';
+import { BadRequestError, NotFoundError } from '../common/errors';
+
+export interface RatingInput {
+  vehicleValue?: number;
+  sumInsured?: number;
+  deductibleId?: string;
+  coverageIds?: string[];
+  ratingDate?: string; // ISO date the client's age is computed at
+}
+
+export interface RatingClient {
+  birthDate: Date | null;
+  province: string | null;
+}
+
+export interface RatingBand {
+  min?: number;
+  max?: number;
+  factor: number;
+}
+
+// Stored in ProductRatingVersion.factors, applied in order
+export interface RatingFactorRule {
+  type: string;
+  label?: string;
+  [key: string]: unknown;
+}
+
+export interface RatingContext {
+  client: RatingClient;
+  input: RatingInput;
+  deductible: { id: string; name: string } | null;
+  ratingDate: Date;
+}
+
+export interface RatingFactorHandler {
+  type: string;
+  /** Returns an error message when the rule is malformed */
+  validate(rule: RatingFactorRule): string | null;
+  resolve(
+    rule: RatingFactorRule,
+    context: RatingContext
+  ): { factor: number; detail: string };
+}
+
+export interface PremiumBreakdown {
+  productId: string;
+  ratingVersionId: string;
+  version: number;
+  currency: string;
+  ratingDate: string;
+  insuredValue: number | null;
+  basePremium: number;
+  factors: {
+    type: string;
+    label: string;
+    detail: string;
+    factor: number;
+    amount: number;
+  }[];
+  coverages: { coverageId: string; name: string; amount: number }[];
+  deductible: { id: string; name: string } | null;
+  minimumPremiumApplied: boolean;
+  netPremium: number;
+  taxes: { code: string; label: string; rate: number | null; amount: number }[];
+  totalPremium: number;
+}
+
+// Charges on top of the net premium, stored in ProductRatingVersion.charges
+export interface RatingCharges {
+  superintendenciaRate: number;
+  seguroCampesinoRate: number;
+  ivaRate: number;
+  ivaExemptLines: LineOfBusiness[];
+  issuanceFees: { upTo: number | null; fee: number }[]; // null: no upper bound
+}
+
+// Coverage premiums and deductibles, stored in ProductRatingVersion.catalog
+export interface RatingCatalog {
+  coverages: {
+    id: string;
+    name: string;
+    isOptional: boolean;
+    limitAmount: number | null;
+    additionalPremium: number | null;
+  }[];
+  deductibles: { id: string; name: string; isDefault: boolean }[];
+}
+
+// Ecuadorian charges in force, captured by each new rating version
+export const CURRENT_RATING_CHARGES: RatingCharges = {
+  superintendenciaRate: 0.035,
+  seguroCampesinoRate: 0.005,
+  ivaRate: 0.15,
+  // Health and life premiums are taxed at 0% IVA
+  ivaExemptLines: ['health', 'life'],
+  // Derechos de emisión by net premium bracket
+  issuanceFees: [
+    { upTo: 250, fee: 0.5 },
+    { upTo: 500, fee: 1 },
+    { upTo: 1000, fee: 3 },
+    { upTo: 2000, fee: 5 },
+    { upTo: 4000, fee: 7 },
+    { upTo: null, fee: 9 },
+  ],
+};
+
+const ratingCatalogInclude = {
+  coverages: true,
+  deductibles: true,
+} satisfies Prisma.InsuranceProductInclude;
+
+export type RatingCatalogProduct = Prisma.InsuranceProductGetPayload<{
+  include: typeof ratingCatalogInclude;
+}>;
+
+/**
+ * Find the catalog entry for a coverage or deductible id
+ * Ids of rows replaced after the version was published are matched by the
+ * name of the current row
+ */
+const findCatalogEntry = <T extends { id: string; name: string }>(
+  entries: T[],
+  id: string,
+  currentRows: { id: string; name: string }[]
+): T | undefined => {
+  const name = currentRows.find(row => row.id === id)?.name;
+  return (
+    entries.find(entry => entry.id === id) ??
+    (name !== undefined
+      ? entries.find(entry => entry.name === name)
+      : undefined)
+  );
+};
+
+const round2 = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const isBandList = (value: unknown): value is RatingBand[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(
+    band =>
+      typeof band === 'object' &&
+      band !== null &&
+      typeof band.factor === 'number' &&
+      band.factor > 0 &&
+      (band.min === undefined || typeof band.min === 'number') &&
+      (band.max === undefined || typeof band.max === 'number')
+  );
+
+const isFactorMap = (value: unknown): value is Record<string, number> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    factor => typeof factor === 'number' && factor > 0
+  );
+
+const findBand = (bands: RatingBand[], value: number) =>
+  bands.find(
+    band =>
+      (band.min === undefined || value >= band.min) &&
+      (band.max === undefined || value <= band.max)
+  );
+
+const describeBand = (band: RatingBand) =>
+  `${band.min ?? '*'}-${band.max ?? '*'}`;
+
+const ageAt = (birthDate: Date, date: Date): number => {
+  const age = date.getUTCFullYear() - birthDate.getUTCFullYear();
+  const hadBirthday =
+    date.getUTCMonth() > birthDate.getUTCMonth() ||
+    (date.getUTCMonth() === birthDate.getUTCMonth() &&
+      date.getUTCDate() >= birthDate.getUTCDate());
+  return hadBirthday ? age : age - 1;
+};
+
+const ageFactor: RatingFactorHandler = {
+  type: 'age',
+  validate: rule =>
+    isBandList(rule.bands) ? null : 'age factor needs a list of bands',
+  resolve: (rule, { client, ratingDate }) => {
+    if (!client.birthDate) {
+      throw new BadRequestError(
+        'Client birth date is required to rate this product'
+      );
+    }
+
+    const age = ageAt(client.birthDate, ratingDate);
+    const band = findBand(rule.bands as RatingBand[], age);
+    if (!band) {
+      throw new BadRequestError(`No age band covers age ${age}`);
+    }
+
+    return {
+      factor: band.factor,
+      detail: `age ${age} (${describeBand(band)})`,
+    };
+  },
+};
+
+const vehicleValueFactor: RatingFactorHandler = {
+  type: 'vehicleValue',
+  validate: rule =>
+    isBandList(rule.bands) ? null : 'vehicleValue factor needs a list of bands',
+  resolve: (rule, { input }) => {
+    if (input.vehicleValue === undefined) {
+      throw new BadRequestError(
+        'Vehicle value is required to rate this product'
+      );
+    }
+
+    const band = findBand(rule.bands as RatingBand[], input.vehicleValue);
+    if (!band) {
+      throw new BadRequestError(
+        `No vehicle value band covers ${input.vehicleValue}`
+      );
+    }
+
+    return {
+      factor: band.factor,
+      detail: `vehicle value ${input.vehicleValue} (${describeBand(band)})`,
+    };
+  },
+};
+
+const provinceFactor: RatingFactorHandler = {
+  type: 'province',
+  validate: rule =>
+    isFactorMap(rule.factors) &&
+    (rule.default === undefined || typeof rule.default === 'number')
+      ? null
+      : 'province factor needs a map of province codes to factors',
+  resolve: (rule, { client }) => {
+    const factors = rule.factors as Record<string, number>;
+    const fallback = rule.default as number | undefined;
+    const factor =
+      client.province && factors[client.province] !== undefined
+        ? factors[client.province]
+        : fallback;
+
+    if (factor === undefined) {
+      throw new BadRequestError(
+        client.province
+          ? `Province ${client.province} is not rated for this product`
+          : 'Client province is required to rate this product'
+      );
+    }
+
+    return { factor, detail: `province ${client.province ?? 'default'}` };
+  },
+};
+
+// Keyed by deductible name so rules survive product deductibles being replaced
+const deductibleFactor: RatingFactorHandler = {
+  type: 'deductible',
+  validate: rule =>
+    isFactorMap(rule.factors) &&
+    (rule.default === undefined || typeof rule.default === 'number')
+      ? null
+      : 'deductible factor needs a map of deductible names to factors',
+  resolve: (rule, { deductible }) => {
+    const factors = rule.factors as Record<string, number>;
+    const fallback = rule.default as number | undefined;
+    const factor =
+      deductible && factors[deductible.name] !== undefined
+        ? factors[deductible.name]
+        : fallback;
+
+    if (factor === undefined) {
+      throw new BadRequestError(
+        deductible
+          ? `Deductible ${deductible.name} is not rated for this product`
+          : 'A deductible is required to rate this product'
+      );
+    }
+
+    return { factor, detail: `deductible ${deductible?.name ?? 'default'}` };
+  },
+};
+
+const factorHandlers = new Map<string, RatingFactorHandler>();
+
+/**
+ * Register a rating factor type so rating versions can use it
+ * Registering an existing type replaces its handler
+ */
+export const registerRatingFactor = (handler: RatingFactorHandler): void => {
+  factorHandlers.set(handler.type, handler);
+};
+
+[ageFactor, vehicleValueFactor, provinceFactor, deductibleFactor].forEach(
+  registerRatingFactor
+);
+
+export class RatingEngineService {
+  /**
+   * Check that a list of factor rules only uses registered, well-formed factors
+   */
+  validateFactors(rules: unknown): RatingFactorRule[] {
+    if (!Array.isArray(rules)) {
+      throw new BadRequestError('Rating factors must be a list');
+    }
+
+    rules.forEach((rule, index) => {
+      const handler =
+        typeof rule === 'object' && rule !== null
+          ? factorHandlers.get((rule as RatingFactorRule).type)
+          : undefined;
+
+      if (!handler) {
+        throw new BadRequestError(
+          `Rating factor ${index + 1} has an unknown type. Available: ${[
+            ...factorHandlers.keys(),
+          ].join(', ')}`
+        );
+      }
+
+      const error = handler.validate(rule as RatingFactorRule);
+      if (error) {
+        throw new BadRequestError(`Rating factor ${index + 1}: ${error}`);
+      }
+    });
+
+    return rules as RatingFactorRule[];
+  }
+
+  /**
+   * Get the rating version to price with
+   * Without an explicit version, the latest effective version is used
+   */
+  async getRatingVersion(productId: string, ratingVersionId?: string) {
+    const ratingVersion = ratingVersionId
+      ? await prisma.productRatingVersion.findFirst({
+          where: { id: ratingVersionId, productId },
+        })
+      : await prisma.productRatingVersion.findFirst({
+          where: { productId, effectiveFrom: { lte: new Date() } },
+          orderBy: { version: 'desc' },
+        });
+
+    if (!ratingVersion) {
+      throw new NotFoundError(
+        ratingVersionId
+          ? 'Rating version not found for this product'
+          : 'This product has no rating rules yet'
+      );
+    }
+
+    return ratingVersion;
+  }
+
+  /**
+   * Price a product for a client and return the itemized breakdown
+   * Rates, charges, coverage premiums and deductibles all come from the rating
+   * version, so passing the ratingVersionId and input stored on a quote
+   * reproduces it
+   */
+  async calculatePremium(
+    productId: string,
+    client: RatingClient,
+    input: RatingInput,
+    ratingVersionId?: string
+  ): Promise<PremiumBreakdown> {
+    const product = await prisma.insuranceProduct.findUnique({
+      where: { id: productId },
+      include: ratingCatalogInclude,
+    });
+
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    const ratingVersion = await this.getRatingVersion(
+      productId,
+      ratingVersionId
+    );
+    const ratingDate = input.ratingDate
+      ? new Date(input.ratingDate)
+      : new Date();
+    // Versions published before charges were stored use the current ones
+    const charges =
+      (ratingVersion.charges as unknown as RatingCharges | null) ??
+      CURRENT_RATING_CHARGES;
+    const catalog = this.getRatingCatalog(ratingVersion, product);
+
+    const deductible = input.deductibleId
+      ? findCatalogEntry(
+          catalog.deductibles,
+          input.deductibleId,
+          product.deductibles
+        )
+      : catalog.deductibles.find(d => d.isDefault);
+
+    if (input.deductibleId && !deductible) {
+      throw new BadRequestError('Deductible does not belong to this product');
+    }
+
+    // Base premium: flat amount plus a rate over the insured value
+    const insuredValue = input.vehicleValue ?? input.sumInsured ?? null;
+    const baseRate = ratingVersion.baseRate?.toNumber() ?? null;
+
+    if (baseRate !== null && insuredValue === null) {
+      throw new BadRequestError(
+        'An insured value (vehicleValue or sumInsured) is required to rate this product'
+      );
+    }
+
+    let runningPremium = round2(
+      (ratingVersion.basePremium?.toNumber() ?? 0) +
+        (baseRate !== null && insuredValue !== null
+          ? baseRate * insuredValue
+          : 0)
+    );
+    const basePremium = runningPremium;
+
+    const context: RatingContext = {
+      client,
+      input,
+      deductible: deductible
+        ? { id: input.deductibleId ?? deductible.id, name: deductible.name }
+        : null,
+      ratingDate,
+    };
+
+    const factors = (
+      ratingVersion.factors as unknown as RatingFactorRule[]
+    ).map(rule => {
+      const handler = factorHandlers.get(rule.type);
+      if (!handler) {
+        throw new BadRequestError(`Unknown rating factor type: ${rule.type}`);
+      }
+
+      const { factor, detail } = handler.resolve(rule, context);
+      const adjusted = round2(runningPremium * factor);
+      const amount = round2(adjusted - runningPremium);
+      runningPremium = adjusted;
+
+      return {
+        type: rule.type,
+        label: rule.label ?? rule.type,
+        detail,
+        factor,
+        amount,
+      };
+    });
+
+    const coverageIds = input.coverageIds ?? [];
+    const coverages = coverageIds.map(coverageId => {
+      const coverage = findCatalogEntry(
+        catalog.coverages,
+        coverageId,
+        product.coverages
+      );
+      if (!coverage || !coverage.isOptional) {
+        throw new BadRequestError(
+          'Selected coverages must be optional coverages of this product'
+        );
+      }
+
+      const amount = coverage.additionalPremium ?? 0;
+      runningPremium = round2(runningPremium + amount);
+      return { coverageId, name: coverage.name, amount };
+    });
+
+    const minimumPremium = ratingVersion.minimumPremium?.toNumber() ?? 0;
+    const minimumPremiumApplied = runningPremium < minimumPremium;
+    const netPremium = minimumPremiumApplied ? minimumPremium : runningPremium;
+
+    const taxes = this.calculateTaxes(
+      netPremium,
+      product.lineOfBusiness,
+      charges
+    );
+    const totalPremium = round2(
+      netPremium + taxes.reduce((sum, tax) => sum + tax.amount, 0)
+    );
+
+    quoteLogger.debug('Premium calculated', {
+      productId,
+      ratingVersionId: ratingVersion.id,
+      version: ratingVersion.version,
+      netPremium,
+      totalPremium,
+      operation: 'calculate_premium',
+    });
+
+    return {
+      productId,
+      ratingVersionId: ratingVersion.id,
+      version: ratingVersion.version,
+      currency: 'USD',
+      ratingDate: ratingDate.toISOString(),
+      insuredValue,
+      basePremium,
+      factors,
+      coverages,
+      deductible: context.deductible,
+      minimumPremiumApplied,
+      netPremium,
+      taxes,
+      totalPremium,
+    };
+  }
+
+  /**
+   * Coverage premiums and deductibles a rating version prices with
+   * Versions published before catalogs were stored use the product's current rows
+   */
+  getRatingCatalog(
+    ratingVersion: ProductRatingVersion,
+    product: RatingCatalogProduct
+  ): RatingCatalog {
+    return (
+      (ratingVersion.catalog as unknown as RatingCatalog | null) ??
+      this.toRatingCatalog(product)
+    );
+  }
+
+  /**
+   * Coverage premiums and deductibles of a product as a rating version stores them
+   */
+  toRatingCatalog(product: RatingCatalogProduct): RatingCatalog {
+    return {
+      coverages: product.coverages.map(coverage => ({
+        id: coverage.id,
+        name: coverage.name,
+        isOptional: coverage.isOptional,
+        limitAmount: coverage.limitAmount?.toNumber() ?? null,
+        additionalPremium: coverage.additionalPremium?.toNumber() ?? null,
+      })),
+      deductibles: product.deductibles.map(deductible => ({
+        id: deductible.id,
+        name: deductible.name,
+        isDefault: deductible.isDefault,
+      })),
+    };
+  }
+
+  /**
+   * Contributions, issuance fee and IVA charged on a net premium
+   */
+  calculateTaxes(
+    netPremium: number,
+    lineOfBusiness: LineOfBusiness,
+    charges: RatingCharges = CURRENT_RATING_CHARGES
+  ) {
+    const superintendencia = round2(netPremium * charges.superintendenciaRate);
+    const seguroCampesino = round2(netPremium * charges.seguroCampesinoRate);
+    const issuanceFee = charges.issuanceFees.find(
+      bracket => bracket.upTo === null || netPremium <= bracket.upTo
+    )!.fee;
+    const ivaRate = charges.ivaExemptLines.includes(lineOfBusiness)
+      ? 0
+      : charges.ivaRate;
+    const iva = round2(
+      (netPremium + superintendencia + seguroCampesino + issuanceFee) * ivaRate
+    );
+
+    return [
+      {
+        code: 'superintendencia',
+        label: 'Contribución Superintendencia de Bancos',
+        rate: charges.superintendenciaRate,
+        amount: superintendencia,
+      },
+      {
+        code: 'seguro_campesino',
+        label: 'Seguro Social Campesino',
+        rate: charges.seguroCampesinoRate,
+        amount: seguroCampesino,
+      },
+      {
+        code: 'derechos_emision',
+        label: 'Derechos de emisión',
+        rate: null,
+        amount: issuanceFee,
+      },
+      { code: 'iva', label: 'IVA', rate: ivaRate, amount: iva },
+    ];
+  }
+}
@@ -1,6 +1,21 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { cache, CACHE_NAMESPACES } from '../config/cache';
+import { AuditService } from './audit.service';
+import { ConflictError, NotFoundError } from '../common/errors';
+import { PageQuery, toPage, toPageArgs } from '../common/pagination';
+
+export interface RoleListQuery extends PageQuery {
+  search?: string;
+}
 
 export class RoleService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
   async createRole(data: {
     name: string;
     description?: string;
@@ -14,7 +29,7 @@ export class RoleService {
     });
 
     if (existingRole) {
-      throw new Error('Role already exists');
+      throw new ConflictError('Role already exists');
     }
 
     const role = await prisma.role.create({
@@ -25,40 +40,65 @@ export class RoleService {
       },
     });
 
+    await this.auditService.record({
+      action: 'role.create',
+      resourceType: 'role',
+      resourceId: role.id,
+      metadata: { name, level },
+    });
+
     return role;
   }
 
-  async getRoles() {
-    const roles = await prisma.role.findMany({
-      include: {
-        rolePermissions: {
-          include: {
-            permission: true,
+  async getRoles(query: RoleListQuery) {
+    const where: Prisma.RoleWhereInput = query.search
+      ? {
+          OR: [
+            { name: { contains: query.search, mode: 'insensitive' } },
+            { description: { contains: query.search, mode: 'insensitive' } },
+          ],
+        }
+      : {};
+
+    const [rows, total] = await Promise.all([
+      prisma.role.findMany({
+        where,
+        include: {
+          rolePermissions: {
+            include: {
+              permission: true,
+            },
           },
-        },
-        userRoles: {
-          select: {
-            userId: true,
+          userRoles: {
+            select: {
+              userId: true,
+            },
           },
         },
-      },
-      orderBy: { name: 'asc' },
-    });
+        ...toPageArgs<Prisma.RoleOrderByWithRelationInput>(query),
+      }),
+      prisma.role.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, query);
 
-    return roles.map(role => ({
-      id: role.id,
-      name: role.name,
-      description: role.description,
-      createdAt: role.createdAt,
-      permissionCount: role.rolePermissions.length,
-      userCount: role.userRoles.length,
-      permissions: role.rolePermissions.map(rp => ({
-        id: rp.permission.id,
-        resource: rp.permission.resource,
-        action: rp.permission.action,
-        description: rp.permission.description,
+    return {
+      roles: items.map(role => ({
+        id: role.id,
+        name: role.name,
+        description: role.description,
+        level: role.level,
+        createdAt: role.createdAt,
+        permissionCount: role.rolePermissions.length,
+        userCount: role.userRoles.length,
+        permissions: role.rolePermissions.map(rp => ({
+          id: rp.permission.id,
+          resource: rp.permission.resource,
+          action: rp.permission.action,
+          description: rp.permission.description,
+        })),
       })),
-    }));
+      meta,
+    };
   }
 
   async getRoleById(id: string) {
@@ -94,7 +134,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     return {
@@ -129,7 +169,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     return {
@@ -158,7 +198,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     // If updating name, check if new name already exists
@@ -168,7 +208,7 @@ export class RoleService {
       });
 
       if (existingRole) {
-        throw new Error('Role name already exists');
+        throw new ConflictError('Role name already exists');
       }
     }
 
@@ -181,6 +221,23 @@ export class RoleService {
       },
     });
 
+    // Permission sets are cached per user, so every user of the role is affected
+    await cache.invalidateNamespace(CACHE_NAMESPACES.userAccess);
+
+    await this.auditService.record({
+      action: 'role.update',
+      resourceType: 'role',
+      resourceId: id,
+      metadata: {
+        before: {
+          name: role.name,
+          description: role.description,
+          level: role.level,
+        },
+        changes: data,
+      },
+    });
+
     return updatedRole;
   }
 
@@ -191,16 +248,27 @@ export class RoleService {
       include: {
         userRoles: true,
         rolePermissions: true,
+        invitations: {
+          where: { status: 'pending' },
+          select: { id: true },
+        },
       },
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     // Check if role is assigned to any users
     if (role.userRoles.length > 0) {
-      throw new Error('Cannot delete role that is assigned to users');
+      throw new ConflictError('Cannot delete role that is assigned to users');
+    }
+
+    // Pending invitations would assign it on acceptance
+    if (role.invitations.length > 0) {
+      throw new ConflictError(
+        'Cannot delete role that pending invitations would assign'
+      );
     }
 
     // Delete role (this will cascade delete role permissions due to schema)
@@ -208,6 +276,13 @@ export class RoleService {
       where: { id },
     });
 
+    await this.auditService.record({
+      action: 'role.delete',
+      resourceType: 'role',
+      resourceId: id,
+      metadata: { name: role.name },
+    });
+
     return { message: 'Role deleted successfully' };
   }
 
@@ -218,7 +293,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     // Check if permission exists
@@ -227,7 +302,7 @@ export class RoleService {
     });
 
     if (!permission) {
-      throw new Error('Permission not found');
+      throw new NotFoundError('Permission not found');
     }
 
     // Check if role already has this permission
@@ -241,7 +316,7 @@ export class RoleService {
     });
 
     if (existingRolePermission) {
-      throw new Error('Role already has this permission');
+      throw new ConflictError('Role already has this permission');
     }
 
     // Assign permission to role
@@ -256,6 +331,18 @@ export class RoleService {
       },
     });
 
+    await cache.invalidateNamespace(CACHE_NAMESPACES.userAccess);
+
+    await this.auditService.record({
+      action: 'role_permission.assign',
+      resourceType: 'role',
+      resourceId: roleId,
+      metadata: {
+        permissionId,
+        permission: `${permission.resource}:${permission.action}`,
+      },
+    });
+
     return {
       role: rolePermission.role,
       permission: rolePermission.permission,
@@ -275,7 +362,7 @@ export class RoleService {
     });
 
     if (!rolePermission) {
-      throw new Error('Role does not have this permission');
+      throw new NotFoundError('Role does not have this permission');
     }
 
     // Remove permission from role
@@ -288,35 +375,57 @@ export class RoleService {
       },
     });
 
+    await cache.invalidateNamespace(CACHE_NAMESPACES.userAccess);
+
+    await this.auditService.record({
+      action: 'role_permission.remove',
+      resourceType: 'role',
+      resourceId: roleId,
+      metadata: { permissionId },
+    });
+
     return { message: 'Permission removed from role successfully' };
   }
 
-  async getRolePermissions(roleId: string) {
+  async getRolePermissions(roleId: string, query: PageQuery) {
     const role = await prisma.role.findUnique({
       where: { id: roleId },
-      include: {
-        rolePermissions: {
-          include: {
-            permission: true,
-          },
-        },
-      },
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
+    const where: Prisma.PermissionWhereInput = {
+      rolePermissions: { some: { roleId } },
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.permission.findMany({
+        where,
+        include: {
+          rolePermissions: {
+            where: { roleId },
+            select: { createdAt: true },
+          },
+        },
+        ...toPageArgs<Prisma.PermissionOrderByWithRelationInput>(query),
+      }),
+      prisma.permission.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, query);
+
     return {
       roleId: role.id,
       roleName: role.name,
-      permissions: role.rolePermissions.map(rp => ({
-        id: rp.permission.id,
-        resource: rp.permission.resource,
-        action: rp.permission.action,
-        description: rp.permission.description,
-        assignedAt: rp.createdAt,
+      permissions: items.map(permission => ({
+        id: permission.id,
+        resource: permission.resource,
+        action: permission.action,
+        description: permission.description,
+        assignedAt: permission.rolePermissions[0].createdAt,
       })),
+      meta,
     };
   }
 
@@ -327,7 +436,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     // Check if all permissions exist
@@ -340,7 +449,7 @@ export class RoleService {
     });
 
     if (permissions.length !== permissionIds.length) {
-      throw new Error('One or more permissions not found');
+      throw new NotFoundError('One or more permissions not found');
     }
 
     // Get existing role permissions
@@ -362,7 +471,7 @@ export class RoleService {
     );
 
     if (newPermissionIds.length === 0) {
-      throw new Error('Role already has all specified permissions');
+      throw new ConflictError('Role already has all specified permissions');
     }
 
     // Create multiple role permissions
@@ -373,6 +482,15 @@ export class RoleService {
       })),
     });
 
+    await cache.invalidateNamespace(CACHE_NAMESPACES.userAccess);
+
+    await this.auditService.record({
+      action: 'role_permission.assign',
+      resourceType: 'role',
+      resourceId: roleId,
+      metadata: { permissionIds: newPermissionIds },
+    });
+
     return {
       message: `Successfully assigned ${rolePermissions.count} new permissions to role`,
       assignedPermissions: newPermissionIds.length,
@@ -387,7 +505,7 @@ export class RoleService {
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
     // Check if all permissions exist
@@ -400,7 +518,7 @@ export class RoleService {
     });
 
     if (permissions.length !== permissionIds.length) {
-      throw new Error('One or more permissions not found');
+      throw new NotFoundError('One or more permissions not found');
     }
 
     // Use transaction to replace permissions atomically
@@ -421,6 +539,15 @@ export class RoleService {
       return rolePermissions;
     });
 
+    await cache.invalidateNamespace(CACHE_NAMESPACES.userAccess);
+
+    await this.auditService.record({
+      action: 'role_permission.replace',
+      resourceType: 'role',
+      resourceId: roleId,
+      metadata: { permissionIds },
+    });
+
     return {
       message: 'Role permissions replaced successfully',
       assignedPermissions: result.count,
@@ -0,0 +1,262 @@
+import {
+  createRemoteJWKSet,
+  decodeProtectedHeader,
+  errors as joseErrors,
+  jwtVerify,
+  JWTPayload,
+} from 'jose';
+import dotenv from 'dotenv';
+import { supabase } from '../config/supabase';
+import { securityLogger } from './logger.service';
+import { AppError } from '../common/errors';
+
+dotenv.config();
+
+export interface VerifiedToken {
+  id: string;
+  email: string;
+}
+
+export interface TokenVerificationOptions {
+  jwtSecret?: string; // HS256 secret of the Supabase project
+  jwksUrl?: string; // Asymmetric signing keys, rotated by Supabase
+  issuer: string;
+  audience: string;
+  remoteSessionCheck: boolean; // Also ask Supabase whether the session was revoked
+  remoteTimeoutMs: number;
+}
+
+// Raised when a token cannot be checked locally, so the remote check is used
+class LocalVerificationUnavailableError extends Error {}
+
+const buildDefaultOptions = (): TokenVerificationOptions => {
+  const supabaseUrl = (process.env.SUPABASE_URL || '').replace(/\/$/, '');
+
+  return {
+    jwtSecret: process.env.SUPABASE_JWT_SECRET || undefined,
+    jwksUrl:
+      process.env.SUPABASE_JWKS_URL ||
+      (supabaseUrl
+        ? `${supabaseUrl}/auth/v1/.well-known/jwks.json`
+        : undefined),
+    issuer: process.env.SUPABASE_JWT_ISSUER || `${supabaseUrl}/auth/v1`,
+    audience: process.env.SUPABASE_JWT_AUDIENCE || 'authenticated',
+    remoteSessionCheck: process.env.AUTH_REMOTE_SESSION_CHECK === 'true',
+    remoteTimeoutMs: Number(process.env.AUTH_REMOTE_TIMEOUT_MS) || 1500,
+  };
+};
+
+/**
+ * Verifies Supabase access tokens without a network round-trip per request
+ * - HS256 tokens are checked against the project's JWT secret
+ * - Asymmetric tokens are checked against the project's JWKS, which jose
+ *   caches and refetches when an unknown key id shows up (key rotation)
+ * Expiry, issuer and audience are always enforced. When a token cannot be
+ * checked locally (no key configured, JWKS unreachable) the remote check is
+ * used instead.
+ */
+export class TokenVerificationService {
+  private options: TokenVerificationOptions;
+  private jwks?: ReturnType<typeof createRemoteJWKSet>;
+
+  constructor(options: Partial<TokenVerificationOptions> = {}) {
+    this.options = { ...buildDefaultOptions(), ...options };
+
+    if (this.options.jwksUrl) {
+      this.jwks = createRemoteJWKSet(new URL(this.options.jwksUrl), {
+        timeoutDuration: this.options.remoteTimeoutMs,
+      });
+    }
+  }
+
+  /**
+   * Returns the token's user, or null when the token must be rejected
+   */
+  async verify(token: string): Promise<VerifiedToken | null> {
+    let payload: JWTPayload;
+
+    try {
+      payload = await this.verifyLocally(token);
+    } catch (error) {
+      if (error instanceof LocalVerificationUnavailableError) {
+        securityLogger.warn('Local token verification unavailable', {
+          reason: error.message,
+          operation: 'token_verification_fallback',
+        });
+        return this.verifyRemotely(token);
+      }
+
+      securityLogger.debug('Token rejected by local verification', {
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'token_verification_rejected',
+      });
+      return null;
+    }
+
+    const verifiedToken = this.toVerifiedToken(payload);
+
+    if (!verifiedToken || !this.options.remoteSessionCheck) {
+      return verifiedToken;
+    }
+
+    return this.checkSession(token, verifiedToken);
+  }
+
+  private async verifyLocally(token: string): Promise<JWTPayload> {
+    let algorithm: string | undefined;
+
+    try {
+      algorithm = decodeProtectedHeader(token).alg;
+    } catch {
+      throw new Error('Malformed token');
+    }
+
+    const claims = {
+      issuer: this.options.issuer,
+      audience: this.options.audience,
+    };
+
+    if (algorithm === 'HS256') {
+      if (!this.options.jwtSecret) {
+        throw new LocalVerificationUnavailableError(
+          'SUPABASE_JWT_SECRET is not configured'
+        );
+      }
+
+      const { payload } = await jwtVerify(
+        token,
+        new TextEncoder().encode(this.options.jwtSecret),
+        { ...claims, algorithms: ['HS256'] }
+      );
+      return payload;
+    }
+
+    if (!this.jwks) {
+      throw new LocalVerificationUnavailableError(
+        'No JWKS URL is configured for asymmetric tokens'
+      );
+    }
+
+    try {
+      const { payload } = await jwtVerify(token, this.jwks, {
+        ...claims,
+        algorithms: ['RS256', 'ES256'],
+      });
+      return payload;
+    } catch (error) {
+      if (
+        error instanceof joseErrors.JWKSTimeout ||
+        error instanceof joseErrors.JWKSInvalid ||
+        (error instanceof Error && error.name === 'TypeError')
+      ) {
+        throw new LocalVerificationUnavailableError(
+          `JWKS could not be fetched: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask Supabase whether a locally valid session has been revoked
+   * If Supabase is slow or down the local result is trusted
+   */
+  private async checkSession(
+    token: string,
+    verifiedToken: VerifiedToken
+  ): Promise<VerifiedToken | null> {
+    try {
+      const { data, error } = await this.withTimeout(
+        supabase.auth.getUser(token)
+      );
+
+      if (error && error.status !== undefined && error.status < 500) {
+        securityLogger.warn('Token rejected by remote session check', {
+          userId: verifiedToken.id,
+          status: error.status,
+          operation: 'token_session_revoked',
+        });
+        return null;
+      }
+
+      if (error || !data.user) {
+        throw error ?? new Error('No user returned');
+      }
+
+      return verifiedToken;
+    } catch (error) {
+      securityLogger.warn('Remote session check unavailable, trusting token', {
+        userId: verifiedToken.id,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        operation: 'token_session_check_skipped',
+      });
+      return verifiedToken;
+    }
+  }
+
+  /**
+   * Only used when the token cannot be checked locally, so there is no local
+   * result to fall back on. A slow or failing Supabase is reported as 503
+   * rather than as an invalid token or an internal error.
+   */
+  private async verifyRemotely(token: string): Promise<VerifiedToken | null> {
+    let response: Awaited<ReturnType<typeof supabase.auth.getUser>>;
+
+    try {
+      response = await this.withTimeout(supabase.auth.getUser(token));
+    } catch (error) {
+      throw this.authUnavailableError(error);
+    }
+
+    const {
+      data: { user },
+      error,
+    } = response;
+
+    if (error && (error.status === undefined || error.status >= 500)) {
+      throw this.authUnavailableError(error);
+    }
+
+    return error || !user ? null : { id: user.id, email: user.email! };
+  }
+
+  private authUnavailableError(error: unknown): AppError {
+    securityLogger.error('Remote token verification unavailable', error, {
+      operation: 'token_verification_unavailable',
+    });
+
+    return new AppError(
+      'Authentication service unavailable, try again later',
+      503,
+      'AUTH_UNAVAILABLE'
+    );
+  }
+
+  private toVerifiedToken(payload: JWTPayload): VerifiedToken | null {
+    if (!payload.sub || typeof payload.email !== 'string') {
+      return null;
+    }
+
+    return { id: payload.sub, email: payload.email };
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('Supabase auth request timed out')),
+        this.options.remoteTimeoutMs
+      );
+
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -1,23 +1,69 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { cache, CACHE_NAMESPACES } from '../config/cache';
+import { AuditService } from './audit.service';
+import { ConflictError, ForbiddenError, NotFoundError } from '../common/errors';
+import { PageQuery, toPage, toPageArgs } from '../common/pagination';
+
+type DatabaseClient = Prisma.TransactionClient | typeof prisma;
+
+// Filters for listings of the users holding a role or permission
+export interface RoleMemberListQuery extends PageQuery {
+  search?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Profiles visible through the broker filter that hold a role matching roleWhere
+ */
+export const roleMemberWhere = (
+  roleWhere: Prisma.RoleWhereInput,
+  brokerFilter: Prisma.ProfileWhereInput,
+  { search, isActive }: RoleMemberListQuery
+): Prisma.ProfileWhereInput => ({
+  AND: [
+    brokerFilter,
+    { userRoles: { some: { role: roleWhere } } },
+    isActive !== undefined ? { isActive } : {},
+    search
+      ? {
+          OR: [
+            { firstName: { contains: search, mode: 'insensitive' } },
+            { lastName: { contains: search, mode: 'insensitive' } },
+            { cedulaRuc: { contains: search } },
+          ],
+        }
+      : {},
+  ],
+});
 
 export class UserRoleService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
   async assignRoleToUser(
     userId: string,
     roleId: string,
     assignedBy: string,
-    allowedBrokerIds?: string[]
+    allowedBrokerIds?: string[],
+    db: DatabaseClient = prisma
   ) {
     // Check if role exists
-    const role = await prisma.role.findUnique({
+    const role = await db.role.findUnique({
       where: { id: roleId },
     });
 
     if (!role) {
-      throw new Error('Role not found');
+      throw new NotFoundError('Role not found');
     }
 
+    await this.assertCanGrantRoles(assignedBy, [role], db);
+
     // Check if user exists and include broker information
-    const user = await prisma.profile.findUnique({
+    const user = await db.profile.findUnique({
       where: { id: userId },
       include: {
         broker: {
@@ -30,20 +76,20 @@ export class UserRoleService {
     });
 
     if (!user) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // CRITICAL: Validate broker access for security
     if (allowedBrokerIds && user.brokerId) {
       if (!allowedBrokerIds.includes(user.brokerId)) {
-        throw new Error(
+        throw new ForbiddenError(
           `Access denied: Cannot assign roles to users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`
         );
       }
     }
 
     // Check if user already has this role
-    const existingUserRole = await prisma.userRole.findUnique({
+    const existingUserRole = await db.userRole.findUnique({
       where: {
         userId_roleId: {
           userId,
@@ -53,11 +99,11 @@ export class UserRoleService {
     });
 
     if (existingUserRole) {
-      throw new Error('User already has this role');
+      throw new ConflictError('User already has this role');
     }
 
     // Assign role to user
-    const userRole = await prisma.userRole.create({
+    const userRole = await db.userRole.create({
       data: {
         userId,
         roleId,
@@ -82,6 +128,19 @@ export class UserRoleService {
       },
     });
 
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, userId);
+
+    await this.auditService.record(
+      {
+        action: 'user_role.assign',
+        resourceType: 'user',
+        resourceId: userId,
+        brokerId: user.brokerId ?? undefined,
+        metadata: { roleId, roleName: role.name },
+      },
+      db
+    );
+
     return userRole;
   }
 
@@ -104,13 +163,13 @@ export class UserRoleService {
     });
 
     if (!user) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // CRITICAL: Validate broker access for security
     if (allowedBrokerIds && user.brokerId) {
       if (!allowedBrokerIds.includes(user.brokerId)) {
-        throw new Error(
+        throw new ForbiddenError(
           `Access denied: Cannot remove roles from users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`
         );
       }
@@ -127,7 +186,7 @@ export class UserRoleService {
     });
 
     if (!userRole) {
-      throw new Error('User does not have this role');
+      throw new NotFoundError('User does not have this role');
     }
 
     // Remove role from user
@@ -140,6 +199,16 @@ export class UserRoleService {
       },
     });
 
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, userId);
+
+    await this.auditService.record({
+      action: 'user_role.remove',
+      resourceType: 'user',
+      resourceId: userId,
+      brokerId: user.brokerId ?? undefined,
+      metadata: { roleId },
+    });
+
     return { message: 'Role removed from user successfully' };
   }
 
@@ -181,43 +250,54 @@ export class UserRoleService {
     }));
   }
 
-  async getUsersWithRole(roleName: string, brokerFilter: any) {
-    const usersWithRole = await prisma.userRole.findMany({
-      where: {
-        role: {
-          name: roleName,
-        },
-        user: brokerFilter,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            cedulaRuc: true,
-            phone: true,
-            isActive: true,
-            createdAt: true,
-          },
-        },
-        role: true,
-        assigner: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+  async getUsersWithRole(
+    roleName: string,
+    brokerFilter: any,
+    query: RoleMemberListQuery
+  ) {
+    const roleWhere: Prisma.RoleWhereInput = { name: roleName };
+    const where = roleMemberWhere(roleWhere, brokerFilter, query);
+
+    const [rows, total] = await Promise.all([
+      prisma.profile.findMany({
+        where,
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          cedulaRuc: true,
+          phone: true,
+          isActive: true,
+          createdAt: true,
+          userRoles: {
+            where: { role: roleWhere },
+            include: {
+              role: true,
+              assigner: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+            },
           },
         },
-      },
-    });
+        ...toPageArgs<Prisma.ProfileOrderByWithRelationInput>(query),
+      }),
+      prisma.profile.count({ where }),
+    ]);
+    const { items, meta } = toPage(rows, total, query);
 
-    return usersWithRole.map(ur => ({
-      user: ur.user,
-      role: ur.role,
-      assignedAt: ur.assignedAt,
-      assignedBy: ur.assigner,
-    }));
+    return {
+      usersWithRole: items.map(({ userRoles: [userRole], ...user }) => ({
+        user,
+        role: userRole.role,
+        assignedAt: userRole.assignedAt,
+        assignedBy: userRole.assigner,
+      })),
+      meta,
+    };
   }
 
   async assignMultipleRoles(
@@ -240,13 +320,13 @@ export class UserRoleService {
     });
 
     if (!user) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // CRITICAL: Validate broker access for security
     if (allowedBrokerIds && user.brokerId) {
       if (!allowedBrokerIds.includes(user.brokerId)) {
-        throw new Error(
+        throw new ForbiddenError(
           `Access denied: Cannot assign roles to users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`
         );
       }
@@ -262,9 +342,11 @@ export class UserRoleService {
     });
 
     if (roles.length !== roleIds.length) {
-      throw new Error('One or more roles not found');
+      throw new NotFoundError('One or more roles not found');
     }
 
+    await this.assertCanGrantRoles(assignedBy, roles);
+
     // Get existing user roles
     const existingUserRoles = await prisma.userRole.findMany({
       where: {
@@ -282,7 +364,7 @@ export class UserRoleService {
     );
 
     if (newRoleIds.length === 0) {
-      throw new Error('User already has all specified roles');
+      throw new ConflictError('User already has all specified roles');
     }
 
     // Create multiple user roles
@@ -294,6 +376,16 @@ export class UserRoleService {
       })),
     });
 
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, userId);
+
+    await this.auditService.record({
+      action: 'user_role.assign',
+      resourceType: 'user',
+      resourceId: userId,
+      brokerId: user.brokerId ?? undefined,
+      metadata: { roleIds: newRoleIds },
+    });
+
     return {
       message: `Successfully assigned ${userRoles.count} new roles to user`,
       assignedRoles: newRoleIds.length,
@@ -321,13 +413,13 @@ export class UserRoleService {
     });
 
     if (!user) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     // CRITICAL: Validate broker access for security
     if (allowedBrokerIds && user.brokerId) {
       if (!allowedBrokerIds.includes(user.brokerId)) {
-        throw new Error(
+        throw new ForbiddenError(
           `Access denied: Cannot assign roles to users outside your broker hierarchy. User belongs to broker: ${user.broker?.name || 'Unknown'}`
         );
       }
@@ -343,9 +435,11 @@ export class UserRoleService {
     });
 
     if (roles.length !== roleIds.length) {
-      throw new Error('One or more roles not found');
+      throw new NotFoundError('One or more roles not found');
     }
 
+    await this.assertCanGrantRoles(assignedBy, roles);
+
     // Use transaction to replace roles atomically
     const result = await prisma.$transaction(async tx => {
       // Remove all existing roles
@@ -365,12 +459,43 @@ export class UserRoleService {
       return userRoles;
     });
 
+    await cache.invalidate(CACHE_NAMESPACES.userAccess, userId);
+
+    await this.auditService.record({
+      action: 'user_role.replace',
+      resourceType: 'user',
+      resourceId: userId,
+      brokerId: user.brokerId ?? undefined,
+      metadata: { roleIds },
+    });
+
     return {
       message: 'User roles replaced successfully',
       assignedRoles: result.count,
     };
   }
 
+  /**
+   * Users cannot hand out roles above their own
+   * Lower role levels are more privileged
+   */
+  private async assertCanGrantRoles(
+    assignedBy: string,
+    roles: { level: number }[],
+    db: DatabaseClient = prisma
+  ) {
+    const assignerRoles = await db.userRole.findMany({
+      where: { userId: assignedBy },
+      select: { role: { select: { level: true } } },
+    });
+
+    const assignerLevel = Math.min(...assignerRoles.map(ur => ur.role.level));
+
+    if (roles.some(role => role.level < assignerLevel)) {
+      throw new ForbiddenError('Cannot assign a role above your own');
+    }
+  }
+
   async getUserPermissions(userId: string) {
     const userRoles = await this.getUserRoles(userId);
 
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { SignJWT } from 'jose';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { SEEDED_USERS, accessTokenFor, loginAs } from '../support/session';
+import { RoleRow } from '../support/responses';
+
+describe('Authentication', () => {
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('logs a seeded user in with their roles, permissions and broker', async () => {
+    const response = await loginAs(SEEDED_USERS.atlasAdmin);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.email).toBe(SEEDED_USERS.atlasAdmin);
+    expect(response.body.data.broker.name).toBe('Seguros Atlas');
+    expect(response.body.data.roles.map((role: RoleRow) => role.name)).toEqual([
+      'broker_admin',
+    ]);
+    expect(response.body.data.permissions).toContain('users:update');
+    expect(response.body.data.session.access_token).toEqual(expect.any(String));
+  });
+
+  it('rejects a wrong password', async () => {
+    const response = await loginAs(SEEDED_USERS.atlasAdmin, 'Wrong123!');
+
+    expect(response.status).toBe(401);
+    expect(response.body).toMatchObject({
+      success: false,
+      code: 'INVALID_CREDENTIALS',
+    });
+  });
+
+  it('returns the context of the token owner', async () => {
+    const token = await accessTokenFor(SEEDED_USERS.atlasNorteAgent);
+
+    const response = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.firstName).toBe('Pedro');
+    expect(response.body.data.broker.name).toBe('Atlas Norte');
+    expect(response.body.data.roles.map((role: RoleRow) => role.name)).toEqual([
+      'agent',
+    ]);
+  });
+
+  it('issues a new session for a refresh token', async () => {
+    const login = await loginAs(SEEDED_USERS.atlasEmployee);
+
+    const response = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.data.session.refresh_token });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.id).toBe(login.body.data.user.id);
+    expect(response.body.data.session.refresh_token).not.toBe(
+      login.body.data.session.refresh_token
+    );
+  });
+
+  it('rejects requests without a token', async () => {
+    const response = await request(app).get('/api/auth/me');
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('TOKEN_MISSING');
+  });
+
+  it('rejects tokens that were not signed by Supabase', async () => {
+    const login = await loginAs(SEEDED_USERS.atlasAdmin);
+    const forgedToken = await new SignJWT({
+      email: SEEDED_USERS.atlasAdmin,
+    })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(login.body.data.user.id)
+      .setIssuer(`${process.env.SUPABASE_URL}/auth/v1`)
+      .setAudience('authenticated')
+      .setExpirationTime('1h')
+      .sign(new TextEncoder().encode('not-the-project-secret'));
+
+    const response = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${forgedToken}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('TOKEN_INVALID');
+  });
+
+  describe('deactivated users', () => {
+    let adminToken: string;
+    let employeeId: string;
+
+    beforeAll(async () => {
+      adminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+      const login = await loginAs(SEEDED_USERS.atlasSecondEmployee);
+      employeeId = login.body.data.user.id;
+    });
+
+    afterAll(async () => {
+      await request(app)
+        .post(`/api/users/${employeeId}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+    });
+
+    it('rejects the tokens and sign-in of a deactivated user until reactivated', async () => {
+      const employeeToken = await accessTokenFor(
+        SEEDED_USERS.atlasSecondEmployee
+      );
+
+      const deactivation = await request(app)
+        .post(`/api/users/${employeeId}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deactivation.status).toBe(200);
+      expect(deactivation.body.data.sessionsRevoked).toBe(true);
+
+      const me = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${employeeToken}`);
+      expect(me.status).toBe(403);
+      expect(me.body.code).toBe('ACCOUNT_DEACTIVATED');
+
+      const login = await loginAs(SEEDED_USERS.atlasSecondEmployee);
+      expect(login.status).toBe(401);
+
+      const reactivation = await request(app)
+        .post(`/api/users/${employeeId}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(reactivation.status).toBe(200);
+
+      const relogin = await loginAs(SEEDED_USERS.atlasSecondEmployee);
+      expect(relogin.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { SEEDED_USERS, accessTokenFor } from '../support/session';
+import { ClientRow, UserRow } from '../support/responses';
+
+const brokerIdByName = async (name: string) =>
+  (await prisma.broker.findFirstOrThrow({ where: { name } })).id;
+
+const clientNames = (response: request.Response) =>
+  response.body.data.clients
+    .map((client: ClientRow) => client.firstName)
+    .sort();
+
+describe('Broker isolation', () => {
+  let atlasAdminToken: string;
+  let atlasAgentToken: string;
+  let protectAdminToken: string;
+
+  beforeAll(async () => {
+    atlasAdminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+    atlasAgentToken = await accessTokenFor(SEEDED_USERS.atlasNorteAgent);
+    protectAdminToken = await accessTokenFor(SEEDED_USERS.protectAdmin);
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('shows broker admins the clients of their whole hierarchy', async () => {
+    const response = await request(app)
+      .get('/api/clients')
+      .set('Authorization', `Bearer ${atlasAdminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(clientNames(response)).toEqual([
+      'Andrea',
+      'Fernando',
+      'Gabriela',
+      'Javier',
+      'Lucía',
+    ]);
+  });
+
+  it('restricts agents to the clients of their own broker', async () => {
+    const response = await request(app)
+      .get('/api/clients')
+      .set('Authorization', `Bearer ${atlasAgentToken}`);
+
+    expect(response.status).toBe(200);
+    expect(clientNames(response)).toEqual(['Gabriela', 'Javier']);
+  });
+
+  it('hides clients of another broker tree', async () => {
+    const atlasClient = await prisma.client.findFirstOrThrow({
+      where: { firstName: 'Andrea' },
+    });
+
+    const response = await request(app)
+      .get(`/api/clients/${atlasClient.id}`)
+      .set('Authorization', `Bearer ${protectAdminToken}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('NOT_FOUND');
+  });
+
+  it('hides clients of the parent broker from agents', async () => {
+    const parentClient = await prisma.client.findFirstOrThrow({
+      where: { firstName: 'Fernando' },
+    });
+
+    const response = await request(app)
+      .get(`/api/clients/${parentClient.id}`)
+      .set('Authorization', `Bearer ${atlasAgentToken}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects filtering by a broker outside the hierarchy', async () => {
+    const protectBrokerId = await brokerIdByName('Protect Seguros');
+
+    const response = await request(app)
+      .get('/api/users')
+      .query({ brokerId: protectBrokerId })
+      .set('Authorization', `Bearer ${atlasAdminToken}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('FORBIDDEN');
+  });
+
+  it('lists only the users of the caller hierarchy', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${protectAdminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.users.map((user: UserRow) => user.firstName).sort()
+    ).toEqual(['Diana', 'Luis', 'María', 'Miguel']);
+  });
+
+  it('does not let admins act on users of another broker tree', async () => {
+    const protectAgent = await prisma.profile.findFirstOrThrow({
+      where: { firstName: 'Diana' },
+    });
+
+    const response = await request(app)
+      .post(`/api/users/${protectAgent.id}/deactivate`)
+      .set('Authorization', `Bearer ${atlasAdminToken}`);
+
+    expect(response.status).toBe(404);
+    expect(
+      (
+        await prisma.profile.findUniqueOrThrow({
+          where: { id: protectAgent.id },
+        })
+      ).isActive
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { SEEDED_USERS, accessTokenFor } from '../support/session';
+import { PermissionRow, RoleRow, UserRow } from '../support/responses';
+
+describe('List pagination, filtering and sorting', () => {
+  let adminToken: string;
+
+  const get = (path: string, query: Record<string, unknown> = {}) =>
+    request(app)
+      .get(path)
+      .query(query)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+  beforeAll(async () => {
+    adminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('returns page metadata with the default sort', async () => {
+    const response = await get('/api/rbac/roles');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      total: 4,
+      limit: 50,
+      offset: 0,
+      nextCursor: null,
+    });
+    expect(response.body.data.roles.map((role: RoleRow) => role.name)).toEqual([
+      'agent',
+      'broker_admin',
+      'employee',
+      'platform_admin',
+    ]);
+  });
+
+  it('walks every page with cursors', async () => {
+    const firstPage = await get('/api/rbac/permissions', { limit: 10 });
+    expect(firstPage.status).toBe(200);
+    expect(firstPage.body.data.nextCursor).toEqual(expect.any(String));
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: request.Response = await get('/api/rbac/permissions', {
+        limit: 10,
+        ...(cursor ? { cursor } : {}),
+      });
+      expect(page.status).toBe(200);
+      seen.push(
+        ...page.body.data.permissions.map(
+          (permission: PermissionRow) => permission.id
+        )
+      );
+      cursor = page.body.data.nextCursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(firstPage.body.data.total);
+    expect(new Set(seen).size).toBe(seen.length);
+  });
+
+  it('sorts by the requested fields', async () => {
+    const response = await get('/api/rbac/roles', { sort: '-level' });
+
+    expect(response.body.data.roles.map((role: RoleRow) => role.name)).toEqual([
+      'agent',
+      'employee',
+      'broker_admin',
+      'platform_admin',
+    ]);
+  });
+
+  it('filters role members and counts only the matches', async () => {
+    const response = await get('/api/rbac/roles/agent/users', {
+      search: 'Pedro',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.total).toBe(1);
+    expect(response.body.data.usersWithRole[0].user.firstName).toBe('Pedro');
+  });
+
+  it('pages users holding a permission once per user', async () => {
+    const response = await get('/api/rbac/permissions/clients:read/users', {
+      limit: 1,
+      offset: 1,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.users).toHaveLength(1);
+    expect(response.body.data.offset).toBe(1);
+    expect(response.body.data.total).toBeGreaterThan(1);
+    expect(response.body.data.userCount).toBe(response.body.data.total);
+  });
+
+  it('pages the permissions of a role', async () => {
+    const role = await prisma.role.findUniqueOrThrow({
+      where: { name: 'platform_admin' },
+      include: { _count: { select: { rolePermissions: true } } },
+    });
+
+    const response = await get(`/api/rbac/roles/${role.id}/permissions`, {
+      limit: 2,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.roleName).toBe('platform_admin');
+    expect(response.body.data.permissions).toHaveLength(2);
+    expect(response.body.data.total).toBe(role._count.rolePermissions);
+    expect(response.body.data.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('pages and sorts the user list with the same convention', async () => {
+    const firstPage = await get('/api/users', { limit: 2, sort: '-firstName' });
+    expect(firstPage.status).toBe(200);
+    expect(firstPage.body.data.nextCursor).toEqual(expect.any(String));
+
+    const secondPage = await get('/api/users', {
+      limit: 2,
+      sort: '-firstName',
+      cursor: firstPage.body.data.nextCursor,
+    });
+    expect(secondPage.status).toBe(200);
+    expect(secondPage.body.data.offset).toBeNull();
+
+    const ids = [
+      ...firstPage.body.data.users,
+      ...secondPage.body.data.users,
+    ].map((user: UserRow) => user.id);
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+  });
+
+  it('rejects unknown sort fields and cursors combined with offsets', async () => {
+    const badSort = await get('/api/rbac/roles', { sort: 'password' });
+    expect(badSort.status).toBe(400);
+    expect(badSort.body.details[0]).toMatchObject({
+      field: 'sort',
+      location: 'query',
+    });
+
+    const page = await get('/api/rbac/roles', { limit: 1 });
+    const mixed = await get('/api/rbac/roles', {
+      cursor: page.body.data.nextCursor,
+      offset: 2,
+    });
+    expect(mixed.status).toBe(400);
+    expect(mixed.body.details[0].field).toBe('cursor');
+  });
+});
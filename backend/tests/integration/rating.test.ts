@@ -0,0 +1,176 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { ProductService } from '../../src/modules/products/product.service';
+import { SEEDED_USERS, accessTokenFor } from '../support/session';
+
+const INSURER_NAME = 'Aseguradora Catálogo';
+
+describe('Rating after product catalog edits', () => {
+  const productService = new ProductService();
+  let adminToken: string;
+  let clientId: string;
+  let productId: string;
+
+  const coverageId = async (name: string) =>
+    (
+      await prisma.productCoverage.findFirstOrThrow({
+        where: { productId, name },
+      })
+    ).id;
+
+  const deductibleId = async (name: string) =>
+    (
+      await prisma.productDeductible.findFirstOrThrow({
+        where: { productId, name },
+      })
+    ).id;
+
+  const calculate = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/quotes/calculate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ clientId, productId, ...body });
+
+  beforeAll(async () => {
+    adminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+    clientId = (
+      await prisma.client.findFirstOrThrow({ where: { firstName: 'Andrea' } })
+    ).id;
+
+    const insurer = await prisma.insurer.create({
+      data: { name: INSURER_NAME },
+    });
+    const product = await productService.createProduct({
+      insurerId: insurer.id,
+      name: 'Auto Total',
+      lineOfBusiness: 'auto',
+      coverages: [
+        {
+          name: 'Vehículo de reemplazo',
+          isOptional: true,
+          additionalPremium: 40,
+        },
+      ],
+      deductibles: [
+        { name: '10%', percentage: 10, isDefault: true },
+        { name: '5%', percentage: 5 },
+      ],
+    });
+    productId = product.id;
+
+    const author = await prisma.profile.findUniqueOrThrow({
+      where: { cedulaRuc: '1710234566' },
+    });
+    await productService.createRatingVersion(
+      productId,
+      { basePremium: 300, factors: [] },
+      author.id
+    );
+  });
+
+  afterAll(async () => {
+    await prisma.insurer.deleteMany({ where: { name: INSURER_NAME } });
+    await prisma.$disconnect();
+  });
+
+  it('keeps coverage and deductible ids when the catalog is updated', async () => {
+    const replacementId = await coverageId('Vehículo de reemplazo');
+    const fivePercentId = await deductibleId('5%');
+
+    await productService.updateProduct(productId, {
+      coverages: [
+        {
+          name: 'Vehículo de reemplazo',
+          isOptional: true,
+          additionalPremium: 60,
+        },
+        { name: 'Asistencia legal', isOptional: true, additionalPremium: 15 },
+      ],
+      deductibles: [
+        { name: '10%', percentage: 10, isDefault: true },
+        { name: '5%', percentage: 5 },
+      ],
+    });
+
+    expect(await coverageId('Vehículo de reemplazo')).toBe(replacementId);
+    expect(await deductibleId('5%')).toBe(fivePercentId);
+  });
+
+  it('rates current ids at the prices of the published version', async () => {
+    const replacementId = await coverageId('Vehículo de reemplazo');
+    const fivePercentId = await deductibleId('5%');
+
+    const response = await calculate({
+      coverageIds: [replacementId],
+      deductibleId: fivePercentId,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.breakdown.coverages).toEqual([
+      { coverageId: replacementId, name: 'Vehículo de reemplazo', amount: 40 },
+    ]);
+    expect(response.body.data.breakdown.deductible).toEqual({
+      id: fivePercentId,
+      name: '5%',
+    });
+    expect(response.body.data.breakdown.netPremium).toBe(340);
+  });
+
+  it('matches rows recreated after the version was published by name', async () => {
+    const replaced = await prisma.productCoverage.findFirstOrThrow({
+      where: { productId, name: 'Vehículo de reemplazo' },
+    });
+    await prisma.productCoverage.delete({ where: { id: replaced.id } });
+    const recreated = await prisma.productCoverage.create({
+      data: {
+        productId,
+        name: replaced.name,
+        isOptional: true,
+        additionalPremium: 60,
+      },
+    });
+
+    const response = await calculate({ coverageIds: [recreated.id] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.breakdown.coverages[0].amount).toBe(40);
+  });
+
+  it('rejects coverages added after the published version', async () => {
+    const response = await calculate({
+      coverageIds: [await coverageId('Asistencia legal')],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('BAD_REQUEST');
+  });
+
+  it('compares products with the catalog of the version they are rated with', async () => {
+    const response = await request(app)
+      .post('/api/quotes/compare')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        clientId,
+        lineOfBusiness: 'auto',
+        coverageNames: ['Vehículo de reemplazo'],
+      });
+
+    expect(response.status).toBe(200);
+    const { options, coverageMatrix } = response.body.data.comparison;
+    expect(options).toHaveLength(1);
+    expect(options[0].breakdown.coverages[0].amount).toBe(40);
+    expect(coverageMatrix).toEqual([
+      {
+        name: 'Vehículo de reemplazo',
+        products: {
+          [productId]: {
+            status: 'selected',
+            limitAmount: null,
+            additionalPremium: 40,
+          },
+        },
+      },
+    ]);
+  });
+});
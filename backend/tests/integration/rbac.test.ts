@@ -0,0 +1,129 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { SEEDED_USERS, accessTokenFor } from '../support/session';
+import { UserRow } from '../support/responses';
+
+describe('Role based access control', () => {
+  let adminToken: string;
+  let employeeToken: string;
+  let agentToken: string;
+
+  beforeAll(async () => {
+    adminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+    employeeToken = await accessTokenFor(SEEDED_USERS.atlasEmployee);
+    agentToken = await accessTokenFor(SEEDED_USERS.atlasNorteAgent);
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('lets broker admins administer users', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('denies user administration to agents', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${agentToken}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({
+      success: false,
+      code: 'INSUFFICIENT_PERMISSIONS',
+    });
+  });
+
+  it('lets employees read users but not deactivate them', async () => {
+    const users = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${employeeToken}`);
+    expect(users.status).toBe(200);
+
+    const agent = users.body.data.users.find(
+      (user: UserRow) => user.firstName === 'Pedro'
+    );
+    const response = await request(app)
+      .post(`/api/users/${agent.id}/deactivate`)
+      .set('Authorization', `Bearer ${employeeToken}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+  });
+
+  it('denies client deletion to employees and records the denial', async () => {
+    const clients = await request(app)
+      .get('/api/clients')
+      .set('Authorization', `Bearer ${employeeToken}`);
+    const [client] = clients.body.data.clients;
+
+    const response = await request(app)
+      .delete(`/api/clients/${client.id}`)
+      .set('Authorization', `Bearer ${employeeToken}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    expect(
+      await prisma.client.findUnique({ where: { id: client.id } })
+    ).not.toBeNull();
+    expect(
+      await prisma.auditLog.count({
+        where: {
+          action: 'permission.denied',
+          resourceId: 'clients:delete',
+        },
+      })
+    ).toBeGreaterThan(0);
+  });
+
+  it('keeps the shared catalog, commission rules and role definitions from broker admins', async () => {
+    const rule = await request(app)
+      .post('/api/commissions/rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({});
+    expect(rule.status).toBe(403);
+    expect(rule.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+
+    for (const path of ['/api/insurers', '/api/products']) {
+      const catalog = await request(app)
+        .post(path)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+      expect(catalog.status).toBe(403);
+      expect(catalog.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    }
+
+    const grant = await request(app)
+      .post('/api/rbac/roles/permissions/assign')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({});
+    expect(grant.status).toBe(403);
+    expect(grant.body.code).toBe('INSUFFICIENT_ROLE');
+  });
+
+  it('does not let broker admins assign a role above their own', async () => {
+    const platformAdmin = await prisma.role.findUniqueOrThrow({
+      where: { name: 'platform_admin' },
+    });
+    const employee = await prisma.profile.findFirstOrThrow({
+      where: { cedulaRuc: '1713456786' },
+    });
+
+    const response = await request(app)
+      .post('/api/rbac/users/roles/assign')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ userId: employee.id, roleId: platformAdmin.id });
+
+    expect(response.status).toBe(403);
+    expect(
+      await prisma.userRole.count({
+        where: { userId: employee.id, roleId: platformAdmin.id },
+      })
+    ).toBe(0);
+  });
+});
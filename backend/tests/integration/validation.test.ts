@@ -0,0 +1,119 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { prisma } from '../../src/config/database';
+import { SEEDED_USERS, accessTokenFor } from '../support/session';
+import { ErrorDetailRow, UserRow } from '../support/responses';
+
+describe('Request validation', () => {
+  let adminToken: string;
+
+  beforeAll(async () => {
+    adminToken = await accessTokenFor(SEEDED_USERS.atlasAdmin);
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('validates route params', async () => {
+    const response = await request(app)
+      .get('/api/rbac/roles/not-a-uuid')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+    expect(response.body.details).toEqual([
+      { field: 'id', location: 'params', message: 'ID must be a valid UUID' },
+    ]);
+  });
+
+  it('reports every failing query parameter', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .query({ limit: 'many', offset: -1 })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+    expect(
+      response.body.details.map((detail: ErrorDetailRow) => [
+        detail.location,
+        detail.field,
+      ])
+    ).toEqual([
+      ['query', 'limit'],
+      ['query', 'offset'],
+    ]);
+  });
+
+  it('applies query defaults and conversions', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .query({ isActive: 'true' })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ limit: 50, offset: 0 });
+    expect(
+      response.body.data.users.every((user: UserRow) => user.isActive === true)
+    ).toBe(true);
+  });
+
+  it('rejects filter values that are not enum members', async () => {
+    const response = await request(app)
+      .get('/api/quotes')
+      .query({ status: 'toString' })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual([
+      {
+        field: 'status',
+        location: 'query',
+        message:
+          'Status must be one of: draft, sent, accepted, rejected, expired',
+      },
+    ]);
+  });
+
+  it('validates the ids and queries of domain routes', async () => {
+    const [quote, renewals, statement] = await Promise.all([
+      request(app)
+        .get('/api/quotes/not-a-uuid')
+        .set('Authorization', `Bearer ${adminToken}`),
+      request(app)
+        .get('/api/renewals/upcoming')
+        .query({ days: 0 })
+        .set('Authorization', `Bearer ${adminToken}`),
+      request(app)
+        .get('/api/commissions/statement')
+        .query({ from: '2026-02-01', to: '2026-01-01' })
+        .set('Authorization', `Bearer ${adminToken}`),
+    ]);
+
+    expect(quote.status).toBe(400);
+    expect(quote.body.details).toEqual([
+      {
+        field: 'id',
+        location: 'params',
+        message: 'Quote ID must be a valid UUID',
+      },
+    ]);
+    expect(renewals.status).toBe(400);
+    expect(renewals.body.details[0].message).toBe(
+      'Days must be a whole number between 1 and 365'
+    );
+    expect(statement.status).toBe(400);
+    expect(statement.body.details[0].message).toBe(
+      'The period start must be before its end'
+    );
+  });
+
+  it('rejects a missing body instead of skipping validation', async () => {
+    const response = await request(app).post('/api/auth/login');
+
+    expect(response.status).toBe(400);
+    expect(
+      response.body.details.map((detail: ErrorDetailRow) => detail.field).sort()
+    ).toEqual(['email', 'password']);
+  });
+});
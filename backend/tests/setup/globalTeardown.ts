@@ -0,0 +1,16 @@
+import { rm } from 'fs/promises';
+import { TestEnvironment } from './testEnvironment';
+
+export default async function globalTeardown(): Promise<void> {
+  const environment: TestEnvironment | undefined =
+    globalThis.__TEST_ENVIRONMENT__;
+
+  if (!environment) {
+    return;
+  }
+
+  await environment.auth.close();
+  await environment.postgres.stop();
+  await rm(environment.dataDir, { recursive: true, force: true });
+  globalThis.__TEST_ENVIRONMENT__ = undefined;
+}
@@ -0,0 +1,14 @@
+import EmbeddedPostgres from 'embedded-postgres';
+import { FakeSupabaseAuth } from '../support/fakeSupabaseAuth';
+
+// Handles created by globalSetup and released by globalTeardown, which Jest
+// runs in the same process
+export interface TestEnvironment {
+  postgres: EmbeddedPostgres;
+  auth: FakeSupabaseAuth;
+  dataDir: string;
+}
+
+declare global {
+  var __TEST_ENVIRONMENT__: TestEnvironment | undefined;
+}
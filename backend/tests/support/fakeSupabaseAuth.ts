@@ -0,0 +1,406 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes, randomUUID } from 'crypto';
+import { jwtVerify, SignJWT } from 'jose';
+
+export interface FakeSupabaseAuth {
+  url: string;
+  anonKey: string;
+  serviceRoleKey: string;
+  jwtSecret: string;
+  close: () => Promise<void>;
+}
+
+interface FakeUser {
+  id: string;
+  email: string;
+  password: string;
+  userMetadata: Record<string, unknown>;
+  bannedUntil: Date | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FakeSession {
+  id: string;
+  userId: string;
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+
+// Error body in the shape GoTrue answers with, which supabase-js turns into AuthApiError
+class GoTrueError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const parseBanDuration = (duration: unknown): Date | null | undefined => {
+  if (duration === undefined) {
+    return undefined;
+  }
+
+  if (duration === 'none') {
+    return null;
+  }
+
+  const match = /^(\d+)h$/.exec(String(duration));
+  if (!match) {
+    throw new GoTrueError(400, 'validation_failed', 'Invalid ban duration');
+  }
+
+  return new Date(Date.now() + Number(match[1]) * 60 * 60 * 1000);
+};
+
+/**
+ * In-process stand-in for the Supabase auth (GoTrue) endpoints the backend
+ * and prisma/seed-test.ts call: sign up, password and refresh token grants,
+ * getUser, sign out and the admin user API.
+ * Access tokens are real HS256 JWTs signed with jwtSecret, so the backend
+ * verifies them locally exactly as it does against Supabase.
+ */
+export const startFakeSupabaseAuth = async (
+  jwtSecret: string = randomBytes(32).toString('hex')
+): Promise<FakeSupabaseAuth> => {
+  const anonKey = 'fake-anon-key';
+  const serviceRoleKey = 'fake-service-role-key';
+  const users = new Map<string, FakeUser>();
+  const sessions = new Map<string, FakeSession>();
+  const refreshTokens = new Map<string, string>(); // token -> session id
+  let issuer = '';
+
+  const isBanned = (user: FakeUser) =>
+    !!user.bannedUntil && user.bannedUntil.getTime() > Date.now();
+
+  const findUserByEmail = (email: string) =>
+    [...users.values()].find(
+      user => user.email.toLowerCase() === email.toLowerCase()
+    );
+
+  const toUserResponse = (user: FakeUser) => ({
+    id: user.id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: user.email,
+    email_confirmed_at: user.createdAt,
+    phone: '',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: user.userMetadata,
+    identities: [],
+    banned_until: user.bannedUntil?.toISOString(),
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+  });
+
+  const createUser = (
+    email: unknown,
+    password: unknown,
+    userMetadata: unknown
+  ): FakeUser => {
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new GoTrueError(
+        400,
+        'validation_failed',
+        'Email and password are required'
+      );
+    }
+
+    if (findUserByEmail(email)) {
+      throw new GoTrueError(
+        422,
+        'email_exists',
+        'A user with this email address has already been registered'
+      );
+    }
+
+    const now = new Date().toISOString();
+    const user: FakeUser = {
+      id: randomUUID(),
+      email,
+      password,
+      userMetadata: (userMetadata as Record<string, unknown>) ?? {},
+      bannedUntil: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    users.set(user.id, user);
+    return user;
+  };
+
+  const revokeSessions = (userId: string) => {
+    for (const [sessionId, session] of sessions) {
+      if (session.userId === userId) {
+        sessions.delete(sessionId);
+      }
+    }
+    for (const [token, sessionId] of refreshTokens) {
+      if (!sessions.has(sessionId)) {
+        refreshTokens.delete(token);
+      }
+    }
+  };
+
+  const issueSession = async (
+    user: FakeUser,
+    sessionId: string = randomUUID()
+  ) => {
+    sessions.set(sessionId, { id: sessionId, userId: user.id });
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + ACCESS_TOKEN_TTL_SECONDS;
+    const accessToken = await new SignJWT({
+      email: user.email,
+      role: 'authenticated',
+      session_id: sessionId,
+      user_metadata: user.userMetadata,
+    })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setSubject(user.id)
+      .setIssuer(issuer)
+      .setAudience('authenticated')
+      .setIssuedAt(issuedAt)
+      .setExpirationTime(expiresAt)
+      .sign(new TextEncoder().encode(jwtSecret));
+    const refreshToken = randomBytes(16).toString('hex');
+    refreshTokens.set(refreshToken, sessionId);
+
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      expires_at: expiresAt,
+      refresh_token: refreshToken,
+      user: toUserResponse(user),
+    };
+  };
+
+  // Resolve the bearer token to a live session, like GoTrue's /user endpoint
+  const authenticate = async (req: Request) => {
+    const token = req.headers.authorization?.replace(/^Bearer /i, '');
+    if (!token) {
+      throw new GoTrueError(401, 'no_authorization', 'Missing bearer token');
+    }
+
+    try {
+      const { payload } = await jwtVerify(
+        token,
+        new TextEncoder().encode(jwtSecret),
+        { issuer, audience: 'authenticated' }
+      );
+      const session = sessions.get(String(payload.session_id));
+      const user = session && users.get(session.userId);
+      if (!user) {
+        throw new Error('Session not found');
+      }
+      return { user, sessionId: session.id };
+    } catch {
+      throw new GoTrueError(403, 'bad_jwt', 'Invalid or expired JWT');
+    }
+  };
+
+  const requireServiceRole = (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+  ) => {
+    if (req.headers.authorization !== `Bearer ${serviceRoleKey}`) {
+      next(new GoTrueError(403, 'not_admin', 'User not allowed'));
+      return;
+    }
+    next();
+  };
+
+  const findUserById = (id: string) => {
+    const user = users.get(id);
+    if (!user) {
+      throw new GoTrueError(404, 'user_not_found', 'User not found');
+    }
+    return user;
+  };
+
+  const app = express();
+  const auth = express.Router();
+  app.use(express.json());
+  app.use('/auth/v1', auth);
+
+  auth.post('/signup', async (req, res) => {
+    const { email, password, data } = req.body;
+    if (typeof email === 'string' && findUserByEmail(email)) {
+      throw new GoTrueError(
+        422,
+        'user_already_exists',
+        'User already registered'
+      );
+    }
+    const user = createUser(email, password, data);
+    // Projects used by the backend auto-confirm emails, so a session is returned
+    res.json(await issueSession(user));
+  });
+
+  auth.post('/token', async (req, res) => {
+    if (req.query.grant_type === 'refresh_token') {
+      const sessionId = refreshTokens.get(req.body.refresh_token);
+      const session = sessionId && sessions.get(sessionId);
+      if (!session) {
+        throw new GoTrueError(
+          400,
+          'refresh_token_not_found',
+          'Invalid Refresh Token: Refresh Token Not Found'
+        );
+      }
+      refreshTokens.delete(req.body.refresh_token);
+      res.json(await issueSession(findUserById(session.userId), session.id));
+      return;
+    }
+
+    const user = findUserByEmail(String(req.body.email ?? ''));
+    if (!user || user.password !== req.body.password) {
+      throw new GoTrueError(
+        400,
+        'invalid_credentials',
+        'Invalid login credentials'
+      );
+    }
+    if (isBanned(user)) {
+      throw new GoTrueError(400, 'user_banned', 'User is banned');
+    }
+
+    res.json(await issueSession(user));
+  });
+
+  auth.get('/user', async (req, res) => {
+    const { user } = await authenticate(req);
+    res.json(toUserResponse(user));
+  });
+
+  auth.post('/logout', async (req, res) => {
+    const { user, sessionId } = await authenticate(req);
+    if (req.query.scope === 'local') {
+      sessions.delete(sessionId);
+    } else {
+      revokeSessions(user.id);
+    }
+    res.status(204).end();
+  });
+
+  // Recovery mail delivery is out of scope, the request only has to succeed
+  auth.post('/recover', (_req, res) => {
+    res.json({});
+  });
+
+  auth.get('/admin/users', requireServiceRole, (req, res) => {
+    const page = Number(req.query.page) || 1;
+    const perPage = Number(req.query.per_page) || 50;
+    const allUsers = [...users.values()];
+
+    res.setHeader('x-total-count', String(allUsers.length));
+    res.json({
+      aud: 'authenticated',
+      users: allUsers
+        .slice((page - 1) * perPage, page * perPage)
+        .map(toUserResponse),
+    });
+  });
+
+  auth.post('/admin/users', requireServiceRole, (req, res) => {
+    const { email, password, user_metadata, ban_duration } = req.body;
+    const user = createUser(email, password, user_metadata);
+    user.bannedUntil = parseBanDuration(ban_duration) ?? null;
+    res.json(toUserResponse(user));
+  });
+
+  auth.get('/admin/users/:id', requireServiceRole, (req, res) => {
+    res.json(toUserResponse(findUserById(req.params.id)));
+  });
+
+  auth.put('/admin/users/:id', requireServiceRole, (req, res) => {
+    const user = findUserById(req.params.id);
+    const { email, password, user_metadata, ban_duration } = req.body;
+
+    if (typeof email === 'string' && email !== user.email) {
+      const existing = findUserByEmail(email);
+      if (existing && existing.id !== user.id) {
+        throw new GoTrueError(
+          422,
+          'email_exists',
+          'A user with this email address has already been registered'
+        );
+      }
+      user.email = email;
+    }
+    if (typeof password === 'string') {
+      user.password = password;
+    }
+    if (user_metadata) {
+      user.userMetadata = { ...user.userMetadata, ...user_metadata };
+    }
+
+    const bannedUntil = parseBanDuration(ban_duration);
+    if (bannedUntil !== undefined) {
+      user.bannedUntil = bannedUntil;
+      // GoTrue signs banned users out everywhere
+      if (bannedUntil) {
+        revokeSessions(user.id);
+      }
+    }
+
+    user.updatedAt = new Date().toISOString();
+    res.json(toUserResponse(user));
+  });
+
+  auth.delete('/admin/users/:id', requireServiceRole, (req, res) => {
+    const user = findUserById(req.params.id);
+    users.delete(user.id);
+    revokeSessions(user.id);
+    res.json(toUserResponse(user));
+  });
+
+  auth.use((req: Request, _res: Response, next: NextFunction) => {
+    next(
+      new GoTrueError(
+        404,
+        'not_found',
+        `Fake auth server does not implement ${req.method} ${req.path}`
+      )
+    );
+  });
+
+  // Express recognizes error handlers by their four parameters
+  app.use(
+    (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+      if (res.headersSent) {
+        next(error);
+        return;
+      }
+
+      const status = error instanceof GoTrueError ? error.status : 500;
+      res.status(status).json({
+        code: error instanceof GoTrueError ? error.code : 'unexpected_failure',
+        msg: error instanceof Error ? error.message : 'Unexpected failure',
+      });
+    }
+  );
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  issuer = `${url}/auth/v1`;
+
+  return {
+    url,
+    anonKey,
+    serviceRoleKey,
+    jwtSecret,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,30 @@
+// Shapes of the API response rows the tests read
+
+export interface RoleRow {
+  id: string;
+  name: string;
+}
+
+export interface PermissionRow {
+  id: string;
+  resource: string;
+  action: string;
+}
+
+export interface UserRow {
+  id: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+}
+
+export interface ClientRow {
+  id: string;
+  firstName: string;
+}
+
+export interface ErrorDetailRow {
+  field: string;
+  location?: string;
+  message: string;
+}
@@ -0,0 +1,32 @@
+import request from 'supertest';
+import app from '../../src/app';
+
+// Password of every user created by prisma/seed-test.ts
+export const TEST_PASSWORD = 'Test123!';
+
+export const SEEDED_USERS = {
+  atlasAdmin: 'admin@segurosatlas.com',
+  atlasEmployee: 'empleado1@segurosatlas.com',
+  atlasSecondEmployee: 'empleado2@segurosatlas.com',
+  atlasNorteAgent: 'agente1@atlas.com',
+  protectAdmin: 'admin@protectseguros.com',
+  protectValleAgent: 'agente1@protect.com',
+} as const;
+
+export const loginAs = (email: string, password: string = TEST_PASSWORD) =>
+  request(app).post('/api/auth/login').send({ email, password });
+
+/**
+ * Log a seeded user in and return their access token
+ */
+export const accessTokenFor = async (email: string): Promise<string> => {
+  const response = await loginAs(email);
+
+  if (response.status !== 200) {
+    throw new Error(
+      `Login as ${email} failed with ${response.status}: ${JSON.stringify(response.body)}`
+    );
+  }
+
+  return response.body.data.session.access_token;
+};